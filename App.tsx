@@ -18,9 +18,10 @@ import {
 import { useScreenReader } from './components/AccessibilityEnhancements';
 import { useMobileDetection } from './components/MobileEnhancements';
 import { ErrorBoundary, NetworkErrorBoundary } from './components/ErrorBoundary';
-import { NotificationSystem, useNotifications } from './components/NotificationSystem';
+import { NotificationSystem, useNotifications, useWorkerHealthNotifications } from './components/NotificationSystem';
 import { FadeTransition } from './components/EnhancedTransitions';
 import { analyzeInventoryWithWorker } from './services/analysisService';
+import { workerAnalysisService } from './services/workerManager';
 import { analyzeWithBestAvailableEngine, getUltraFastAnalysisService } from './services/ultraFastAnalysisService';
 import { parseFile } from './services/parserService';
 import { AnalysisData, FilterState, AnalysisResult } from './types';
@@ -37,7 +38,8 @@ const knowledgeManager = new BackwardCompatibleKnowledgeManager();
 
 const App: React.FC = () => {
     const { t, language } = useTranslation();
-    const { notifications, removeNotification, success, error, warning, info } = useNotifications();
+    const { notifications, addNotification, removeNotification, success, error, warning, info } = useNotifications();
+    useWorkerHealthNotifications(workerAnalysisService, addNotification);
     const { announce, ScreenReaderAnnouncer } = useScreenReader();
     const { isMobile, isTablet } = useMobileDetection();
     const [appState, setAppState] = useState<AppState>('initializing');
@@ -0,0 +1,93 @@
+/**
+ * IndexedDB Classification Cache Store
+ * Persists cached classification results in the browser (main thread or workers) across sessions
+ */
+import type { CachedClassification, ClassificationCacheStore } from '../../engine-core/classification-cache';
+
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+const META_STORE = 'meta';
+const FINGERPRINT_KEY = 'fingerprint';
+
+export class IndexedDBCacheStore implements ClassificationCacheStore {
+  private dbName: string;
+  private db: IDBDatabase | null = null;
+
+  constructor(dbName: string = 'pt-classification-cache') {
+    this.dbName = dbName;
+  }
+
+  async open(fingerprint: string): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB is not available');
+    }
+    this.db ??= await this.openDatabase();
+
+    const stored = await request(this.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(FINGERPRINT_KEY));
+    if (stored !== fingerprint) {
+      // Written under another runtime
+      const transaction = this.transaction([RESULTS_STORE, META_STORE], 'readwrite');
+      transaction.objectStore(RESULTS_STORE).clear();
+      transaction.objectStore(META_STORE).put(fingerprint, FINGERPRINT_KEY);
+      await complete(transaction);
+    }
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, CachedClassification>> {
+    const store = this.transaction(RESULTS_STORE, 'readonly').objectStore(RESULTS_STORE);
+    const values = await Promise.all(keys.map(key => request<CachedClassification | undefined>(store.get(key))));
+
+    const found = new Map<string, CachedClassification>();
+    values.forEach((value, i) => {
+      if (value) found.set(keys[i], value);
+    });
+    return found;
+  }
+
+  async putMany(entries: Array<[string, CachedClassification]>): Promise<void> {
+    const transaction = this.transaction(RESULTS_STORE, 'readwrite');
+    const store = transaction.objectStore(RESULTS_STORE);
+    for (const [key, entry] of entries) {
+      store.put(entry, key);
+    }
+    await complete(transaction);
+  }
+
+  async clear(): Promise<void> {
+    if (!this.db) return;
+    const transaction = this.transaction(RESULTS_STORE, 'readwrite');
+    transaction.objectStore(RESULTS_STORE).clear();
+    await complete(transaction);
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    const open = indexedDB.open(this.dbName, DB_VERSION);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(RESULTS_STORE);
+      open.result.createObjectStore(META_STORE);
+    };
+    return request(open);
+  }
+
+  private transaction(stores: string | string[], mode: IDBTransactionMode): IDBTransaction {
+    if (!this.db) {
+      throw new Error('Cache store not opened');
+    }
+    return this.db.transaction(stores, mode);
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
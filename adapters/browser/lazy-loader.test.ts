@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { RuntimeCompiler } from '../../scripts/build_runtime';
+import { streamGzip } from '../../engine-core/compression';
+import { HttpRuntimeSource } from '../../engine-core/runtime-source';
+import { UltraFastClassifier } from '../../engine-core/ultra-fast-classifier';
+import { LazyLoader } from './lazy-loader';
+
+describe('LazyLoader', () => {
+  const outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'pt-runtime-'));
+  const fetched: string[] = [];
+
+  // Serves the built runtimes under /pt/runtime as a web server would
+  const source = new HttpRuntimeSource(async input => {
+    const url = String(input);
+    fetched.push(url);
+    const file = path.join(outputPath, url.replace(/^\/pt\/runtime\//, ''));
+    return fs.existsSync(file)
+      ? new Response(fs.readFileSync(file))
+      : new Response(null, { status: 404 });
+  });
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await new RuntimeCompiler('.', outputPath).buildRuntime('lite');
+  }, 120_000);
+
+  afterAll(() => fs.rmSync(outputPath, { recursive: true, force: true }));
+
+  // As the analysis web worker sets up its classifier
+  async function classifier(): Promise<UltraFastClassifier> {
+    const runtimePath = '/pt/runtime/lite';
+    const instance = new UltraFastClassifier({
+      source,
+      shardLoader: new LazyLoader(runtimePath, undefined, streamGzip, source)
+    });
+    await instance.initialize(runtimePath);
+    return instance;
+  }
+
+  it('fetches synonym shards over the runtime source when the runtime loads shards lazily', async () => {
+    const instance = await classifier();
+
+    const [result] = await instance.classifyBatch([{ id: '1', name: 'كرسي متحرك' }]);
+
+    expect(result.language).toBe('ar');
+    expect(fetched).toContain('/pt/runtime/lite/runtime.vocab.ar.ك.jsonl.gz');
+    expect(instance.getStats()?.shards?.indexed).toContain('ar-ك');
+  });
+});
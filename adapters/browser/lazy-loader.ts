@@ -2,11 +2,15 @@
  * Lazy Loading System for PT Engine
  * Progressive loading of vocabulary shards and indices based on actual usage
  */
+import { ArtifactCodec, streamGzip, type GzipBackend } from '../../engine-core/compression';
+import { ChecksumMismatchError, verifyChecksum } from '../../engine-core/checksum';
+import { HttpRuntimeSource } from '../../engine-core/runtime-source';
+import type { RuntimeSource, ShardLoader, VocabTerm } from '../../engine-core/types';
 
 interface ShardMetadata {
   shard: string;
   language: 'ar' | 'en';
-  size: number;
+  size: number; // Bytes of shard JSONL, as recorded by the runtime compiler
   priority: number;
   loaded: boolean;
   lastAccessed?: number;
@@ -17,19 +21,34 @@ interface LoadingStrategy {
   onDemand: string[]; // Load when needed
   prefetch: string[]; // Load in background
   cache_size: number; // Max shards to keep in memory
+  max_memory_mb?: number; // Shard memory budget; defaults to the runtime's max_memory_mb
 }
 
-export class LazyLoader {
+export class LazyLoader implements ShardLoader {
   private basePath: string;
   private strategy: LoadingStrategy;
-  private loadedShards: Map<string, any> = new Map();
+  private loadedShards: Map<string, VocabTerm[]> = new Map();
   private shardMetadata: Map<string, ShardMetadata> = new Map();
-  private loadingPromises: Map<string, Promise<any>> = new Map();
+  private loadingPromises: Map<string, Promise<VocabTerm[]>> = new Map();
+  private routes: Map<string, Map<string, string[]>> = new Map(); // language -> token -> shards
+  private evictListeners: Array<(language: 'ar' | 'en', shard: string) => void> = [];
   private accessCounter: number = 0;
+  private checksums: Record<string, string> = {};
+  private codec = new ArtifactCodec();
+  private gzipBackend: GzipBackend;
+  private source: RuntimeSource;
+  private memoryBudgetBytes = Infinity;
 
-  constructor(basePath: string, strategy?: LoadingStrategy) {
+  constructor(
+    basePath: string,
+    strategy?: LoadingStrategy,
+    gzipBackend: GzipBackend = streamGzip,
+    source: RuntimeSource = new HttpRuntimeSource()
+  ) {
     this.basePath = basePath;
     this.strategy = strategy || this.getDefaultStrategy();
+    this.gzipBackend = gzipBackend;
+    this.source = source;
   }
 
   /**
@@ -39,6 +58,9 @@ export class LazyLoader {
     console.log('🔄 Initializing lazy loader...');
     
     try {
+      // Runtime metadata names the codec, checksums and memory budget for shard files
+      await this.loadRuntimeMetadata();
+      
       // Load vocabulary metadata to understand available shards
       await this.loadShardMetadata();
       
@@ -59,20 +81,23 @@ export class LazyLoader {
   /**
    * Get shard data - loads on demand if not available
    */
-  async getShard(language: 'ar' | 'en', shard: string): Promise<any> {
+  async getShard(language: 'ar' | 'en', shard: string): Promise<VocabTerm[]> {
     const shardKey = `${language}-${shard}`;
+    if (!this.shardMetadata.has(shardKey)) {
+      return [];
+    }
     
     // Update access statistics
     this.updateAccess(shardKey);
     
     // Return if already loaded
     if (this.loadedShards.has(shardKey)) {
-      return this.loadedShards.get(shardKey);
+      return this.loadedShards.get(shardKey)!;
     }
     
     // Check if currently loading
     if (this.loadingPromises.has(shardKey)) {
-      return await this.loadingPromises.get(shardKey);
+      return await this.loadingPromises.get(shardKey)!;
     }
     
     // Load shard on demand
@@ -84,50 +109,43 @@ export class LazyLoader {
    * Preload shards that are likely to be needed
    */
   async preloadShards(language: 'ar' | 'en', shards: string[]): Promise<void> {
-    const preloadPromises = shards.map(shard => {
+    const missing = shards.filter(shard => {
       const shardKey = `${language}-${shard}`;
-      if (!this.loadedShards.has(shardKey) && !this.loadingPromises.has(shardKey)) {
-        return this.loadShard(language, shard, true);
-      }
-      return Promise.resolve();
+      return this.shardMetadata.has(shardKey) && !this.loadedShards.has(shardKey);
     });
+    if (missing.length === 0) return;
     
-    await Promise.all(preloadPromises);
-    console.log(`✅ Preloaded ${shards.length} ${language} shards`);
+    await Promise.all(missing.map(shard => this.loadShard(language, shard, true)));
+    console.log(`✅ Preloaded ${missing.length} ${language} shards`);
   }
 
   /**
-   * Get smart suggestions for shards to preload based on query
+   * Terms of a shard already in memory, or undefined without triggering a load
+   */
+  peekShard(language: 'ar' | 'en', shard: string): VocabTerm[] | undefined {
+    const shardKey = `${language}-${shard}`;
+    const data = this.loadedShards.get(shardKey);
+    if (data) {
+      this.updateAccess(shardKey);
+    }
+    return data;
+  }
+
+  /**
+   * Shards to load for a query: those whose terms share one of its tokens, per the compiler's routing table
    */
   getSuggestedShards(query: string, language: 'ar' | 'en'): string[] {
-    const firstChar = query.charAt(0).toLowerCase();
-    const suggestions: string[] = [];
+    const routes = this.routes.get(language);
+    const suggestions = new Set<string>();
     
-    if (language === 'ar') {
-      // Arabic character handling
-      if (firstChar >= '\u0600' && firstChar <= '\u06FF') {
-        suggestions.push(firstChar);
-        // Also suggest common related characters
-        const relatedChars = this.getRelatedArabicChars(firstChar);
-        suggestions.push(...relatedChars);
-      } else {
-        suggestions.push('misc'); // Non-Arabic characters
-      }
-    } else {
-      // English character handling
-      if (firstChar >= 'a' && firstChar <= 'z') {
-        suggestions.push(firstChar);
-        // Add adjacent characters for typo tolerance
-        const charCode = firstChar.charCodeAt(0);
-        if (charCode > 97) suggestions.push(String.fromCharCode(charCode - 1)); // Previous char
-        if (charCode < 122) suggestions.push(String.fromCharCode(charCode + 1)); // Next char
-      } else {
-        suggestions.push('misc');
+    for (const token of query.toLowerCase().split(/\s+/)) {
+      for (const shard of routes?.get(token) ?? []) {
+        suggestions.add(shard);
       }
     }
     
     // Prioritize based on access patterns
-    return suggestions.sort((a, b) => {
+    return Array.from(suggestions).sort((a, b) => {
       const aKey = `${language}-${a}`;
       const bKey = `${language}-${b}`;
       const aPriority = this.shardMetadata.get(aKey)?.priority || 0;
@@ -137,31 +155,57 @@ export class LazyLoader {
   }
 
   /**
-   * Intelligent cache management - evict least recently used shards
+   * Register a callback for evicted shards
+   */
+  onEvict(listener: (language: 'ar' | 'en', shard: string) => void): void {
+    this.evictListeners.push(listener);
+  }
+
+  /**
+   * Intelligent cache management - evict least recently used shards until both the
+   * shard count and the memory budget are respected; the most recent shard always stays
    */
   manageCacheSize(): void {
-    if (this.loadedShards.size <= this.strategy.cache_size) {
-      return;
-    }
-    
     // Sort shards by last access time
     const sortedShards = Array.from(this.shardMetadata.entries())
       .filter(([key]) => this.loadedShards.has(key))
       .sort(([, a], [, b]) => (a.lastAccessed || 0) - (b.lastAccessed || 0));
     
-    // Remove oldest shards
-    const toRemove = sortedShards.slice(0, sortedShards.length - this.strategy.cache_size);
-    
-    for (const [shardKey] of toRemove) {
-      console.log(`🗑️ Evicting shard from cache: ${shardKey}`);
-      this.loadedShards.delete(shardKey);
-      const metadata = this.shardMetadata.get(shardKey);
-      if (metadata) {
-        metadata.loaded = false;
+    let loadedBytes = this.loadedBytes();
+    for (const [, metadata] of sortedShards.slice(0, -1)) {
+      if (this.loadedShards.size <= this.strategy.cache_size && loadedBytes <= this.memoryBudgetBytes) {
+        break;
       }
+      
+      this.evictShard(metadata.language, metadata.shard);
+      loadedBytes -= metadata.size;
     }
   }
 
+  /**
+   * Drop a loaded shard and notify evict listeners
+   */
+  evictShard(language: 'ar' | 'en', shard: string): void {
+    const shardKey = `${language}-${shard}`;
+    if (!this.loadedShards.delete(shardKey)) return;
+    
+    console.log(`🗑️ Evicting shard from cache: ${shardKey}`);
+    const metadata = this.shardMetadata.get(shardKey);
+    if (metadata) {
+      metadata.loaded = false;
+    }
+    for (const listener of this.evictListeners) {
+      listener(language, shard);
+    }
+  }
+
+  /**
+   * Bytes of shard JSONL currently held in memory
+   */
+  getMemoryUsage(): number {
+    return this.loadedBytes();
+  }
+
   /**
    * Get loading statistics
    */
@@ -175,37 +219,43 @@ export class LazyLoader {
       loaded_shards: loadedShards,
       cache_hit_ratio: this.calculateCacheHitRatio(),
       memory_usage: memoryUsage,
+      memory_budget_mb: Number.isFinite(this.memoryBudgetBytes) ? this.memoryBudgetBytes / (1024 * 1024) : null,
       access_count: this.accessCounter,
       strategy: this.strategy
     };
   }
 
   // Private methods
+  private async loadRuntimeMetadata(): Promise<void> {
+    const buffer = await this.source.readBuffer(`${this.basePath}/runtime.meta.json`);
+    const metadata = JSON.parse(new TextDecoder().decode(buffer));
+    this.checksums = metadata.checksums || {};
+    this.codec = new ArtifactCodec(metadata.config?.compression, this.gzipBackend);
+    
+    const budgetMb = this.strategy.max_memory_mb ?? metadata.config?.max_memory_mb;
+    this.memoryBudgetBytes = budgetMb ? budgetMb * 1024 * 1024 : Infinity;
+  }
+
   private async loadShardMetadata(): Promise<void> {
-    for (const language of ['ar', 'en']) {
+    for (const language of ['ar', 'en'] as const) {
       try {
-        const metaPath = `${this.basePath}/runtime.vocab.${language}.meta.json`;
-        const response = await fetch(metaPath);
-        const meta = await response.json();
+        // Written by the runtime compiler for lazy runtimes only; eager runtimes have no shards
+        const manifest = JSON.parse(await this.fetchArtifact(`runtime.vocab.${language}.shards.json`));
         
-        // Create metadata for each potential shard
-        const alphabet = language === 'ar' 
-          ? ['ا', 'ب', 'ت', 'ث', 'ج', 'ح', 'خ', 'د', 'ذ', 'ر', 'ز', 'س', 'ش', 'ص', 'ض', 'ط', 'ظ', 'ع', 'غ', 'ف', 'ق', 'ك', 'ل', 'م', 'ن', 'ه', 'و', 'ي', 'misc']
-          : ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n', 'o', 'p', 'q', 'r', 's', 't', 'u', 'v', 'w', 'x', 'y', 'z', 'misc'];
-        
-        alphabet.forEach((char, index) => {
-          const shardKey = `${language}-${char}`;
-          this.shardMetadata.set(shardKey, {
-            shard: char,
-            language: language as 'ar' | 'en',
-            size: 1000, // Estimate
-            priority: this.calculateShardPriority(char, language as 'ar' | 'en'),
+        for (const [shard, info] of Object.entries<{ terms: number; bytes: number }>(manifest.shards)) {
+          this.shardMetadata.set(`${language}-${shard}`, {
+            shard,
+            language,
+            size: info.bytes,
+            priority: this.calculateShardPriority(shard, language),
             loaded: false
           });
-        });
+        }
+        this.routes.set(language, new Map(Object.entries<string[]>(manifest.routes)));
         
       } catch (error) {
-        console.warn(`Could not load metadata for ${language}:`, error);
+        if (error instanceof ChecksumMismatchError) throw error;
+        console.warn(`No lazy shards for ${language}:`, error.message);
       }
     }
   }
@@ -215,21 +265,23 @@ export class LazyLoader {
     
     for (const shardId of this.strategy.initial) {
       const [language, shard] = shardId.split('-');
-      initialPromises.push(this.loadShard(language as 'ar' | 'en', shard));
+      if (this.shardMetadata.has(shardId)) {
+        initialPromises.push(this.loadShard(language as 'ar' | 'en', shard));
+      }
     }
     
     await Promise.all(initialPromises);
   }
 
-  private async loadShard(language: 'ar' | 'en', shard: string, background = false): Promise<any> {
+  private async loadShard(language: 'ar' | 'en', shard: string, background = false): Promise<VocabTerm[]> {
     const shardKey = `${language}-${shard}`;
     
     if (this.loadedShards.has(shardKey)) {
-      return this.loadedShards.get(shardKey);
+      return this.loadedShards.get(shardKey)!;
     }
     
     if (this.loadingPromises.has(shardKey)) {
-      return await this.loadingPromises.get(shardKey);
+      return await this.loadingPromises.get(shardKey)!;
     }
     
     const loadPromise = this.performShardLoad(language, shard, background);
@@ -255,36 +307,39 @@ export class LazyLoader {
     }
   }
 
-  private async performShardLoad(language: 'ar' | 'en', shard: string, background = false): Promise<any> {
-    const shardPath = `${this.basePath}/runtime.vocab.${language}.${shard}.jsonl`;
-    
+  private async performShardLoad(language: 'ar' | 'en', shard: string, background = false): Promise<VocabTerm[]> {
     if (!background) {
       console.log(`📥 Loading ${language} shard: ${shard}`);
     }
     
     try {
-      const response = await fetch(shardPath);
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      
-      const text = await response.text();
-      const data = text.trim().split('\n').map(line => JSON.parse(line));
-      
-      return data;
+      const text = await this.fetchArtifact(`runtime.vocab.${language}.${shard}.jsonl`);
+      return text.trim() ? text.trim().split('\n').map(line => JSON.parse(line)) : [];
       
     } catch (error) {
-      console.warn(`Failed to load shard ${shardKey}:`, error.message);
+      if (error instanceof ChecksumMismatchError) throw error;
+      console.warn(`Failed to load shard ${language}-${shard}:`, error.message);
       return []; // Return empty array as fallback
     }
   }
 
+  /**
+   * Read a runtime file under its stored (possibly compressed) name, verify it, and decompress it
+   */
+  private async fetchArtifact(fileName: string): Promise<string> {
+    const storedName = this.codec.storedName(fileName);
+    const storedPath = `${this.basePath}/${storedName}`;
+    const stored = new Uint8Array(await this.source.readBuffer(storedPath));
+    await verifyChecksum(storedPath, stored, this.checksums[storedName]);
+    return new TextDecoder().decode(await this.codec.decompress(stored));
+  }
+
   private startBackgroundPrefetch(): void {
     setTimeout(async () => {
       try {
         for (const shardId of this.strategy.prefetch) {
           const [language, shard] = shardId.split('-');
-          if (!this.loadedShards.has(shardId)) {
+          if (this.shardMetadata.has(shardId) && !this.loadedShards.has(shardId)) {
             await this.loadShard(language as 'ar' | 'en', shard, true);
             // Small delay between background loads
             await new Promise(resolve => setTimeout(resolve, 100));
@@ -320,23 +375,6 @@ export class LazyLoader {
     return 10; // Default priority
   }
 
-  private getRelatedArabicChars(char: string): string[] {
-    const relations: Record<string, string[]> = {
-      'ا': ['أ', 'إ', 'آ'],
-      'ت': ['ة'],
-      'ي': ['ى'],
-      'ك': ['ق'],
-      'س': ['ش'],
-      'د': ['ذ'],
-      'ر': ['ز'],
-      'ط': ['ظ'],
-      'ص': ['ض'],
-      'ع': ['غ']
-    };
-    
-    return relations[char] || [];
-  }
-
   private calculateCacheHitRatio(): number {
     if (this.accessCounter === 0) return 0;
     
@@ -347,10 +385,16 @@ export class LazyLoader {
     return hits / this.accessCounter;
   }
 
+  private loadedBytes(): number {
+    let total = 0;
+    for (const shardKey of this.loadedShards.keys()) {
+      total += this.shardMetadata.get(shardKey)?.size ?? 0;
+    }
+    return total;
+  }
+
   private estimateMemoryUsage(): string {
-    const loadedCount = this.loadedShards.size;
-    const avgShardSize = 50; // KB estimate
-    const totalKB = loadedCount * avgShardSize;
+    const totalKB = Math.round(this.loadedBytes() / 1024);
     
     if (totalKB > 1024) {
       return `${(totalKB / 1024).toFixed(2)} MB`;
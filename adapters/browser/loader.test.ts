@@ -0,0 +1,39 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { FileSystemRegistrySource } from '../node/registry-source';
+import { BrowserPTLoader } from './loader';
+
+describe('BrowserPTLoader', () => {
+  let loader: BrowserPTLoader;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    loader = new BrowserPTLoader(new FileSystemRegistrySource('.'));
+    await loader.initialize('lite');
+  });
+
+  it('classifies a single item synchronously from the injected registry source', () => {
+    const result = loader.classify({ id: '1', name: 'Wheelchair' });
+
+    expect(result).not.toBeInstanceOf(Promise);
+    expect(result.is_pt).toBe(true);
+    expect(loader.getStats()?.vocabulary_terms.en).toBeGreaterThan(0);
+  });
+
+  it('streams results in chunks', async () => {
+    const chunks = [];
+    for await (const chunk of loader.classifyStream([{ id: '1', name: 'Wheelchair' }, { id: '2', name: 'Walker' }], { chunkSize: 1 })) {
+      chunks.push(chunk.map(result => result.item_id));
+    }
+
+    expect(chunks).toEqual([['1'], ['2']]);
+  });
+
+  it('requires initialize again after terminate', async () => {
+    const terminated = new BrowserPTLoader(new FileSystemRegistrySource('.'));
+    await terminated.initialize('lite');
+    terminated.terminate();
+
+    expect(() => terminated.classify({ id: '1', name: 'Walker' })).toThrow(/not initialized/);
+    expect(terminated.getStats()).toBeNull();
+  });
+});
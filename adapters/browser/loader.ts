@@ -4,15 +4,24 @@
  */
 import { PackageComposer } from '../../engine-core/compose';
 import { PTClassifier } from '../../engine-core/classify';
-import type { ComposedEngine, PTProfile } from '../../engine-core/types';
+import { chunked, yieldToEventLoop } from '../../engine-core/stream';
+import type {
+  ClassificationResult,
+  ClassifyStreamOptions,
+  ComposedEngine,
+  Item,
+  PTLoader,
+  PTProfile,
+  RegistrySource
+} from '../../engine-core/types';
 
-export class BrowserPTLoader {
+export class BrowserPTLoader implements PTLoader<ClassificationResult> {
   private composer: PackageComposer;
   private classifier: PTClassifier | null = null;
   private engine: ComposedEngine | null = null;
 
-  constructor() {
-    this.composer = new PackageComposer();
+  constructor(source?: RegistrySource) {
+    this.composer = new PackageComposer(source);
   }
 
   /**
@@ -23,7 +32,7 @@ export class BrowserPTLoader {
     
     try {
       // Load appropriate profile
-      const profilePath = `/pt/profiles/runtime-${profileType}.ptlock.json`;
+      const profilePath = `profiles/runtime-${profileType}.ptlock.json`;
       await this.composer.loadProfile(profilePath);
       
       // Compose engine
@@ -81,6 +90,37 @@ export class BrowserPTLoader {
     return results;
   }
 
+  /**
+   * Classify items as a stream of result chunks, without collecting them; the next chunk is
+   * classified only when the consumer asks for it, and aborting the signal stops before it
+   */
+  async *classifyStream(
+    items: Iterable<Item> | AsyncIterable<Item>,
+    options: ClassifyStreamOptions = {}
+  ): AsyncGenerator<ClassificationResult[]> {
+    if (!this.classifier) {
+      throw new Error('PT Engine not initialized. Call initialize() first.');
+    }
+    const { chunkSize = 1000, signal } = options;
+
+    for await (const chunk of chunked(items, chunkSize)) {
+      signal?.throwIfAborted();
+      yield chunk.map(item => this.classifier!.classify(item));
+      
+      // Yield control to prevent blocking UI; stop before pulling more items
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+    }
+  }
+
+  /**
+   * Drop the composed engine
+   */
+  terminate(): void {
+    this.classifier = null;
+    this.engine = null;
+  }
+
   /**
    * Get engine statistics
    */
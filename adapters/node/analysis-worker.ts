@@ -0,0 +1,34 @@
+/**
+ * Node Analysis Worker
+ * worker_threads entry running the analysis worker protocol over runtime files read from disk
+ */
+import * as path from 'path';
+import { parentPort, workerData, type TransferListItem } from 'worker_threads';
+import { LazyLoader } from '../browser/lazy-loader';
+import { AnalysisWorkerHost } from '../../engine-core/analysis-worker';
+import { UltraFastClassifier } from '../../engine-core/ultra-fast-classifier';
+import { PortCacheStore } from './cache-store';
+import { zlibGzip } from './compression';
+import { FileSystemRuntimeSource } from './runtime-source';
+
+if (!parentPort) {
+  throw new Error('adapters/node/analysis-worker must run as a worker thread');
+}
+const port = parentPort;
+const source = new FileSystemRuntimeSource();
+// Cached results live once per process, in the main thread's FileCacheHost
+const cacheStore = workerData.cachePort ? new PortCacheStore(workerData.cachePort) : undefined;
+
+const host = new AnalysisWorkerHost({
+  post: (response, transfer) => port.postMessage(response, transfer as TransferListItem[]),
+  runtimePath: profile => path.join(workerData.runtimeRoot, profile),
+  // The shard loader is only used when the runtime was built with lazy shard loading
+  createClassifier: runtimePath => new UltraFastClassifier({
+    source,
+    gzip: zlibGzip,
+    shardLoader: new LazyLoader(runtimePath, undefined, zlibGzip, source),
+    cacheStore
+  })
+});
+
+port.on('message', message => host.handleMessage(message));
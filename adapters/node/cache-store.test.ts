@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { CachedClassification } from '../../engine-core/classification-cache';
+import { FileCacheHost, FileCacheStore, PortCacheStore } from './cache-store';
+
+function entry(confidence: number): CachedClassification {
+  return {
+    is_pt: confidence >= 45,
+    confidence,
+    category: null,
+    pt_domain: null,
+    language: 'en',
+    matched_terms: [],
+    explanation: [],
+    fingerprint: null
+  };
+}
+
+function entries(count: number, from = 0): Array<[string, CachedClassification]> {
+  return Array.from({ length: count }, (_, i) => [`item-${from + i}`, entry(from + i)]);
+}
+
+function jsonlFiles(directory: string): string[] {
+  return fs.readdirSync(directory, { recursive: true, encoding: 'utf-8' }).filter(file => file.endsWith('.jsonl'));
+}
+
+function lines(directory: string): number {
+  return jsonlFiles(directory)
+    .map(file => fs.readFileSync(path.join(directory, file), 'utf-8').split('\n').filter(Boolean).length)
+    .reduce((sum, count) => sum + count, 0);
+}
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  async function open(fingerprint: string, maxEntries?: number): Promise<FileCacheStore> {
+    const store = new FileCacheStore(directory, { maxEntries });
+    await store.open(fingerprint);
+    return store;
+  }
+
+  function setup(): void {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pt-cache-'));
+  }
+
+  it('evicts the least recently used results beyond its capacity', async () => {
+    setup();
+    const store = await open('runtime-a', 3);
+
+    await store.putMany(entries(3));
+    await store.getMany(['item-0']);
+    await store.putMany(entries(1, 3));
+
+    const found = await store.getMany(entries(4).map(([key]) => key));
+    expect(Array.from(found.keys()).sort()).toEqual(['item-0', 'item-2', 'item-3']);
+    expect(store.getStats().entries).toBe(3);
+  });
+
+  it('reloads at most its capacity from earlier runs', async () => {
+    setup();
+    await (await open('runtime-a', 10)).putMany(entries(10));
+
+    const reopened = await open('runtime-a', 4);
+
+    const found = await reopened.getMany(entries(10).map(([key]) => key));
+    expect(Array.from(found.keys())).toEqual(['item-6', 'item-7', 'item-8', 'item-9']);
+    expect(found.get('item-9')!.confidence).toBe(9);
+  });
+
+  it('compacts its file once evicted results outgrow it', async () => {
+    setup();
+    const store = await open('runtime-a', 5);
+
+    for (let i = 0; i < 20; i++) {
+      await store.putMany(entries(1, i));
+    }
+
+    expect(lines(directory)).toBeLessThanOrEqual(10);
+    expect(store.getStats().file_lines).toBe(lines(directory));
+  });
+
+  it('folds the files of exited processes into its own when opened', async () => {
+    setup();
+    await (await open('runtime-a')).putMany(entries(3));
+    // Written by a process that no longer runs
+    const [own] = jsonlFiles(directory);
+    fs.renameSync(path.join(directory, own), path.join(directory, path.dirname(own), '2147483646.jsonl'));
+    fs.appendFileSync(path.join(directory, path.dirname(own), '2147483646.jsonl'), JSON.stringify({ key: 'item-0', entry: entry(1) }) + '\n');
+
+    const store = await open('runtime-a');
+
+    expect(jsonlFiles(directory)).toEqual([path.join(path.dirname(own), `${process.pid}.jsonl`)]);
+    expect(lines(directory)).toBe(3);
+    expect((await store.getMany(['item-0'])).get('item-0')!.confidence).toBe(1);
+  });
+
+  it('does not return results saved under another fingerprint', async () => {
+    setup();
+    await (await open('runtime-a')).putMany(entries(2));
+
+    const other = await open('runtime-b');
+
+    expect((await other.getMany(['item-0', 'item-1'])).size).toBe(0);
+  });
+
+  it('keeps the results of other fingerprints sharing the directory', async () => {
+    setup();
+    const a = await open('runtime-a');
+    const b = await open('runtime-b');
+    await a.putMany(entries(2));
+    await b.putMany(entries(1, 5));
+
+    await (await open('runtime-b')).clear();
+    const reopened = await open('runtime-a');
+
+    expect((await reopened.getMany(['item-0', 'item-1'])).size).toBe(2);
+    expect((await (await open('runtime-b')).getMany(['item-5'])).size).toBe(0);
+  });
+});
+
+describe('PortCacheStore', () => {
+  let directory: string;
+
+  afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it('shares one host store between ports of the same fingerprint', async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pt-cache-'));
+    const host = new FileCacheHost(directory, { maxEntries: 2 });
+    const first = new PortCacheStore(host.connect());
+    const second = new PortCacheStore(host.connect());
+    await first.open('runtime-a');
+    await second.open('runtime-a');
+
+    await first.putMany(entries(3));
+
+    const found = await second.getMany(entries(3).map(([key]) => key));
+    expect(Array.from(found.keys())).toEqual(['item-1', 'item-2']);
+    expect(found.get('item-2')!.confidence).toBe(2);
+  });
+
+  it('rejects requests made before it is opened', async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pt-cache-'));
+    const store = new PortCacheStore(new FileCacheHost(directory).connect());
+
+    await expect(store.getMany(['item-0'])).rejects.toThrow('Cache store not opened');
+  });
+});
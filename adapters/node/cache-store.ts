@@ -0,0 +1,306 @@
+/**
+ * Filesystem Classification Cache Store
+ * Persists cached classification results as JSONL files in one directory per runtime fingerprint,
+ * and shares a process's stores with its worker threads over message ports
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { MessageChannel, type MessagePort } from 'worker_threads';
+import { computeChecksum } from '../../engine-core/checksum';
+import type { CachedClassification, ClassificationCacheStore } from '../../engine-core/classification-cache';
+
+const FINGERPRINT_HASH_LENGTH = 16;
+const DEFAULT_MAX_ENTRIES = 20000;
+// A file holding this many lines per entry kept is rewritten from memory
+const COMPACTION_RATIO = 2;
+
+export interface FileCacheStoreOptions {
+  /** Results kept in memory and on disk, least recently used dropped first (default 20000) */
+  maxEntries?: number;
+}
+
+/**
+ * Each process appends to its own file, so concurrent writers never interleave lines. Opening reads
+ * every file of the fingerprint, folds in those of exited processes and compacts the process's own file;
+ * directories of other fingerprints are left alone, so runtimes can share the cache directory.
+ */
+export class FileCacheStore implements ClassificationCacheStore {
+  private directory: string;
+  private maxEntries: number;
+  private entries = new Map<string, CachedClassification>(); // Least recently used first
+  private fingerprintDirectory: string | null = null;
+  private filePath: string | null = null;
+  private fileLines = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(directory: string = './pt/cache', options: FileCacheStoreOptions = {}) {
+    this.directory = path.resolve(directory);
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  }
+
+  async open(fingerprint: string): Promise<void> {
+    const digest = await computeChecksum(fingerprint);
+    const directory = path.join(this.directory, digest.slice(digest.indexOf(':') + 1).slice(0, FINGERPRINT_HASH_LENGTH));
+    await this.writes;
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    this.entries.clear();
+    this.fingerprintDirectory = directory;
+    this.filePath = path.join(directory, `${process.pid}.jsonl`);
+
+    // Oldest first, so the latest result of a key wins and stays most recently used
+    const files = await listFiles(directory);
+    for (const file of files) {
+      this.readFile(await fs.promises.readFile(file.path, 'utf-8').catch(() => ''));
+    }
+    await this.write(() => this.compact());
+
+    for (const file of files) {
+      if (file.path !== this.filePath && !isRunning(file.pid)) {
+        // Folded into this process's file by the compaction
+        await fs.promises.rm(file.path, { force: true });
+      }
+    }
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, CachedClassification>> {
+    const found = new Map<string, CachedClassification>();
+    for (const key of keys) {
+      const entry = this.entries.get(key);
+      if (!entry) continue;
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      found.set(key, entry);
+    }
+    return found;
+  }
+
+  async putMany(entries: Array<[string, CachedClassification]>): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      throw new Error('Cache store not opened');
+    }
+    for (const [key, entry] of entries) {
+      this.remember(key, entry);
+    }
+
+    await this.write(async () => {
+      await fs.promises.appendFile(filePath, entries.map(([key, entry]) => JSON.stringify({ key, entry }) + '\n').join(''));
+      this.fileLines += entries.length;
+      // Evicted results still take up lines until the file is rewritten
+      if (this.fileLines > this.maxEntries * COMPACTION_RATIO) {
+        await this.compact();
+      }
+    });
+  }
+
+  /**
+   * Drop every result of the current fingerprint, including those written by other processes
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+    await this.writes;
+    if (!this.fingerprintDirectory) return;
+    for (const file of await listFiles(this.fingerprintDirectory)) {
+      await fs.promises.rm(file.path, { force: true });
+    }
+    this.fileLines = 0;
+  }
+
+  getStats() {
+    return {
+      entries: this.entries.size,
+      max_entries: this.maxEntries,
+      file_lines: this.fileLines
+    };
+  }
+
+  /**
+   * Rewrite this process's file with the entries held in memory
+   */
+  private async compact(): Promise<void> {
+    if (!this.filePath) return;
+    const temporary = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(temporary, Array.from(this.entries, ([key, entry]) => JSON.stringify({ key, entry }) + '\n').join(''));
+    await fs.promises.rename(temporary, this.filePath);
+    this.fileLines = this.entries.size;
+  }
+
+  /**
+   * Run file writes one at a time, so a compaction never races an append
+   */
+  private write(task: () => Promise<void>): Promise<void> {
+    const written = this.writes.then(task);
+    this.writes = written.catch(() => undefined);
+    return written;
+  }
+
+  private remember(key: string, entry: CachedClassification): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  private readFile(text: string): void {
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const { key, entry } = JSON.parse(line);
+        this.remember(key, entry);
+      } catch {
+        // Partial line from an interrupted write
+      }
+    }
+  }
+}
+
+interface CacheRequest {
+  id: number;
+  method: 'open' | 'getMany' | 'putMany' | 'clear';
+  fingerprint: string;
+  args: unknown[];
+}
+
+type CacheResponse = { id: number; result?: Map<string, CachedClassification> } | { id: number; error: string };
+
+/**
+ * Main-thread owner of the process's FileCacheStores, one per fingerprint, so worker threads share
+ * a single copy of the cached results instead of each loading the whole cache
+ */
+export class FileCacheHost {
+  private directory: string;
+  private options: FileCacheStoreOptions;
+  private stores = new Map<string, Promise<FileCacheStore>>();
+
+  constructor(directory: string = './pt/cache', options: FileCacheStoreOptions = {}) {
+    this.directory = directory;
+    this.options = options;
+  }
+
+  /**
+   * Port for one worker thread, to be wrapped in a PortCacheStore there
+   */
+  connect(): MessagePort {
+    const { port1, port2 } = new MessageChannel();
+    port1.on('message', (request: CacheRequest) => {
+      this.handle(request).then(
+        result => port1.postMessage({ id: request.id, result } satisfies CacheResponse),
+        error => port1.postMessage({ id: request.id, error: (error as Error).message } satisfies CacheResponse)
+      );
+    });
+    // Closes with the worker thread; an open port must not keep the process alive
+    port1.unref();
+    return port2;
+  }
+
+  private async handle(request: CacheRequest): Promise<Map<string, CachedClassification> | undefined> {
+    const store = await this.store(request.fingerprint);
+    switch (request.method) {
+      case 'getMany':
+        return store.getMany(request.args[0] as string[]);
+      case 'putMany':
+        await store.putMany(request.args[0] as Array<[string, CachedClassification]>);
+        return undefined;
+      case 'clear':
+        await store.clear();
+        return undefined;
+      default:
+        // 'open': resolving the store opened it
+        return undefined;
+    }
+  }
+
+  private store(fingerprint: string): Promise<FileCacheStore> {
+    let store = this.stores.get(fingerprint);
+    if (!store) {
+      const opening = new FileCacheStore(this.directory, this.options);
+      store = opening.open(fingerprint).then(() => opening);
+      // A failed open is retried by the next worker asking for it
+      store.catch(() => this.stores.delete(fingerprint));
+      this.stores.set(fingerprint, store);
+    }
+    return store;
+  }
+}
+
+/**
+ * Worker-thread view of a FileCacheHost store, reached through a port from `FileCacheHost.connect`
+ */
+export class PortCacheStore implements ClassificationCacheStore {
+  private port: MessagePort;
+  private fingerprint: string | null = null;
+  private pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+  private nextId = 0;
+
+  constructor(port: MessagePort) {
+    this.port = port;
+    port.on('message', (response: CacheResponse) => {
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+      this.pending.delete(response.id);
+      if ('error' in response) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+    });
+  }
+
+  async open(fingerprint: string): Promise<void> {
+    this.fingerprint = fingerprint;
+    await this.request('open', []);
+  }
+
+  getMany(keys: string[]): Promise<Map<string, CachedClassification>> {
+    return this.request('getMany', [keys]);
+  }
+
+  putMany(entries: Array<[string, CachedClassification]>): Promise<void> {
+    return this.request('putMany', [entries]);
+  }
+
+  clear(): Promise<void> {
+    return this.request('clear', []);
+  }
+
+  private request<T>(method: CacheRequest['method'], args: unknown[]): Promise<T> {
+    const fingerprint = this.fingerprint;
+    if (fingerprint === null) {
+      return Promise.reject(new Error('Cache store not opened'));
+    }
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.port.postMessage({ id, method, fingerprint, args } satisfies CacheRequest);
+    });
+  }
+}
+
+/**
+ * JSONL files of a fingerprint directory with the process that writes each, oldest first
+ */
+async function listFiles(directory: string): Promise<Array<{ path: string; pid: number }>> {
+  const files: Array<{ path: string; pid: number; modified: number }> = [];
+  for (const file of await fs.promises.readdir(directory).catch(() => [] as string[])) {
+    if (!file.endsWith('.jsonl')) continue;
+    const filePath = path.join(directory, file);
+    const stat = await fs.promises.stat(filePath).catch(() => null);
+    if (stat) {
+      files.push({ path: filePath, pid: Number.parseInt(file, 10), modified: stat.mtimeMs });
+    }
+  }
+  return files.sort((a, b) => a.modified - b.modified);
+}
+
+function isRunning(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // The process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * zlib Gzip Backend
+ * Node implementation of runtime artifact gzip for the compiler and Node-side loaders
+ */
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import type { GzipBackend } from '../../engine-core/compression';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export const zlibGzip: GzipBackend = {
+  gzip: async data => new Uint8Array(await gzip(data, { level: zlib.constants.Z_BEST_COMPRESSION })),
+  gunzip: async data => new Uint8Array(await gunzip(data))
+};
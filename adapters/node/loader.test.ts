@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { RuntimeCompiler } from '../../scripts/build_runtime';
+import { NodePTLoader } from './loader';
+
+describe('NodePTLoader', () => {
+  const runtimeRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'pt-runtime-'));
+  const loader = new NodePTLoader({ runtimeRoot, size: 2 });
+  const items = Array.from({ length: 250 }, (_, i) => ({ id: String(i), name: i % 2 ? 'عكاز' : 'Wheelchair' }));
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await new RuntimeCompiler('.', runtimeRoot).buildRuntime('full');
+    await loader.initialize('full');
+  }, 120_000);
+
+  afterAll(() => {
+    loader.terminate();
+    fs.rmSync(runtimeRoot, { recursive: true, force: true });
+  });
+
+  it('classifies single items and batches in input order on worker threads', async () => {
+    const single = await loader.classify({ id: 'a', name: 'Wheelchair' });
+    const batch = await loader.classifyBatch(items);
+
+    expect(single).toMatchObject({ item_id: 'a', language: 'en', is_pt: true });
+    expect(batch.map(result => result.item_id)).toEqual(items.map(item => item.id));
+    expect(batch[0]).toMatchObject({ ...single, item_id: '0', processing_time_ms: batch[0].processing_time_ms });
+  });
+
+  it('streams results chunk by chunk and stops when aborted', async () => {
+    const controller = new AbortController();
+    const chunks: string[][] = [];
+
+    const consume = async () => {
+      for await (const chunk of loader.classifyStream(items, { chunkSize: 100, signal: controller.signal })) {
+        chunks.push(chunk.map(result => result.item_id));
+        if (chunks.length === 2) controller.abort();
+      }
+    };
+
+    await expect(consume()).rejects.toThrow();
+    expect(chunks).toEqual([items.slice(0, 100), items.slice(100, 200)].map(chunk => chunk.map(item => item.id)));
+  });
+
+  it('requires initialize before classifying', async () => {
+    await expect(new NodePTLoader({ runtimeRoot }).classify(items[0])).rejects.toThrow(/not initialized/);
+    await expect(new NodePTLoader({ runtimeRoot }).classifyStream(items).next()).rejects.toThrow(/not initialized/);
+  });
+});
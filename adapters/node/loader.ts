@@ -0,0 +1,172 @@
+/**
+ * Node Adapter for PT Engine
+ * Classification in worker_threads over compiled runtimes read from disk, for backend and ETL services
+ */
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker, type MessagePort, type TransferListItem } from 'worker_threads';
+import {
+  UltraFastWorkerManager,
+  type PoolWorker,
+  type WorkerPoolHealth,
+  type WorkerPoolOptions
+} from '../../engine-all-core/workerManager';
+import { chunked } from '../../engine-core/stream';
+import { FileCacheHost } from './cache-store';
+import type { ClassificationInput, FastClassificationResult } from '../../engine-core/ultra-fast-classifier';
+import type { ClassifyStreamOptions, PTLoader } from '../../engine-core/types';
+
+export interface NodeLoaderOptions extends Omit<WorkerPoolOptions, 'createWorker'> {
+  /** Directory with one compiled runtime per profile, as written by scripts/build_runtime.ts */
+  runtimeRoot?: string;
+  /** Directory persisting the classification cache across runs; without it results are cached in memory only */
+  cacheDir?: string;
+  /** Results kept by the persistent cache, shared by all worker threads (default 20000) */
+  cacheSize?: number;
+}
+
+export class NodePTLoader implements PTLoader<FastClassificationResult> {
+  private options: NodeLoaderOptions;
+  private pool: UltraFastWorkerManager | null = null;
+
+  constructor(options: NodeLoaderOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Start the worker threads (one per CPU core unless `size` is given) and load the profile's runtime in each
+   */
+  async initialize(profileType: 'lite' | 'full' = 'lite'): Promise<void> {
+    console.log(`Initializing PT Engine (${profileType} profile, worker threads)...`);
+    
+    try {
+      if (!this.pool) {
+        const runtimeRoot = path.resolve(this.options.runtimeRoot ?? './pt/runtime');
+        const cacheHost = this.options.cacheDir
+          ? new FileCacheHost(this.options.cacheDir, { maxEntries: this.options.cacheSize })
+          : null;
+        this.pool = new UltraFastWorkerManager({
+          ...this.options,
+          size: this.options.size ?? os.cpus().length,
+          createWorker: () => createThreadWorker(runtimeRoot, cacheHost?.connect())
+        });
+      }
+      await this.pool.initialize(profileType);
+      
+      console.log('PT Engine initialized successfully');
+    } catch (error) {
+      console.error('Failed to initialize PT Engine:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Classify a single item on the least busy worker
+   */
+  async classify(item: ClassificationInput): Promise<FastClassificationResult> {
+    return this.requirePool().classify(item);
+  }
+
+  /**
+   * Classify multiple items across the worker threads with progress tracking; results keep the input order
+   */
+  async classifyBatch(
+    items: ClassificationInput[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<FastClassificationResult[]> {
+    const { results } = await this.requirePool().classifyBatch(items, {
+      onProgress: onProgress ? data => onProgress(data.processed, data.total) : undefined
+    });
+    return results.toArray();
+  }
+
+  /**
+   * Classify items as a stream of result chunks, each spread across the worker threads; the next chunk is
+   * classified only when the consumer asks for it, and aborting the signal stops before it
+   */
+  async *classifyStream(
+    items: Iterable<ClassificationInput> | AsyncIterable<ClassificationInput>,
+    options: ClassifyStreamOptions = {}
+  ): AsyncGenerator<FastClassificationResult[]> {
+    const pool = this.requirePool();
+    const { chunkSize = 1000, signal } = options;
+
+    for await (const chunk of chunked(items, chunkSize)) {
+      signal?.throwIfAborted();
+      const { results } = await pool.classifyBatch(chunk);
+      signal?.throwIfAborted();
+      yield results.toArray();
+    }
+  }
+
+  /**
+   * Get engine statistics: the pool's profile and health with each worker's classifier statistics
+   */
+  async getStats() {
+    if (!this.pool) return null;
+    
+    const stats = await this.pool.getStats();
+    return {
+      profile: stats.profile,
+      pool_size: stats.pool_size,
+      uptime: stats.uptime,
+      health: stats.health,
+      workers: stats.workers?.map(worker => worker.classifier) ?? []
+    };
+  }
+
+  getHealth(): WorkerPoolHealth | null {
+    return this.pool?.getHealth() ?? null;
+  }
+
+  /**
+   * Stop the worker threads; they otherwise keep the process alive
+   */
+  terminate(): void {
+    this.pool?.terminate();
+    this.pool = null;
+  }
+
+  private requirePool(): UltraFastWorkerManager {
+    if (!this.pool?.isReady()) {
+      throw new Error('PT Engine not initialized. Call initialize() first.');
+    }
+    return this.pool;
+  }
+}
+
+/**
+ * Worker thread running adapters/node/analysis-worker, with the same extension as this module
+ * so it runs from TypeScript sources (tsx) as well as compiled output
+ */
+function createThreadWorker(runtimeRoot: string, cachePort?: MessagePort): PoolWorker {
+  const workerData = { runtimeRoot, cachePort };
+  const transferList = cachePort ? [cachePort] : [];
+  const extension = path.extname(fileURLToPath(import.meta.url));
+  const entry = new URL(`./analysis-worker${extension}`, import.meta.url);
+  const worker = extension === '.ts'
+    // Loader hooks of the main thread do not reach worker threads, so register tsx in the thread first
+    ? new Worker(
+      `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(entry.href)}); })`,
+      { eval: true, workerData, transferList }
+    )
+    : new Worker(entry, { workerData, transferList });
+  let terminated = false;
+  
+  return {
+    postMessage: (message, transfer = []) => worker.postMessage(message, transfer as TransferListItem[]),
+    onMessage: listener => worker.on('message', listener),
+    onError: listener => {
+      worker.on('error', listener);
+      // A thread that exits on its own has crashed, e.g. out of memory
+      worker.on('exit', code => {
+        if (!terminated) listener(new Error(`Worker thread exited with code ${code}`));
+      });
+    },
+    terminate: () => {
+      terminated = true;
+      worker.terminate();
+    }
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Filesystem Registry Source
+ * Reads registry packages and profiles from a local checkout for Node tests and CLI jobs
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RegistrySource } from '../../engine-core/types';
+
+export class FileSystemRegistrySource implements RegistrySource {
+  private rootPath: string;
+
+  /**
+   * Registry and profile paths resolve against rootPath, the repository root (the working directory by default)
+   */
+  constructor(rootPath: string = '.') {
+    this.rootPath = path.resolve(rootPath);
+  }
+
+  async readText(filePath: string): Promise<string> {
+    const fullPath = path.join(this.rootPath, filePath.replace(/^\/+/, ''));
+    try {
+      return await fs.promises.readFile(fullPath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to load ${fullPath}: ${(error as Error).message}`);
+    }
+  }
+
+  async listVersions(packageName: string): Promise<string[]> {
+    try {
+      const entries = await fs.promises.readdir(path.join(this.rootPath, 'registry', packageName), { withFileTypes: true });
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch {
+      return [];
+    }
+  }
+}
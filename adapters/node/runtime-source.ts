@@ -0,0 +1,28 @@
+/**
+ * Filesystem Runtime Source
+ * Reads compiled runtime files from disk for Node services and worker threads
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RuntimeSource } from '../../engine-core/types';
+
+export class FileSystemRuntimeSource implements RuntimeSource {
+  private rootPath: string;
+
+  /**
+   * Relative runtime paths resolve against rootPath (the working directory by default)
+   */
+  constructor(rootPath: string = '.') {
+    this.rootPath = path.resolve(rootPath);
+  }
+
+  async readBuffer(filePath: string): Promise<ArrayBuffer> {
+    const fullPath = path.resolve(this.rootPath, filePath);
+    try {
+      const data = await fs.promises.readFile(fullPath);
+      return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+    } catch (error) {
+      throw new Error(`Failed to load ${fullPath}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -1,6 +1,19 @@
 
 import React from 'react';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, ExplanationStep } from '../types';
+
+// Stages whose steps name the keyword that matched; everything else adjusts the score
+const KEYWORD_STAGES: ExplanationStep['stage'][] = ['vocabulary', 'fuzzy', 'brand'];
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${(Math.round(delta * 10) / 10)}`;
+
+const StepSource: React.FC<{ step: ExplanationStep }> = ({ step }) => (
+  <span className="block text-xs text-slate-500">
+    {step.stage}
+    {step.rule_id && ` · ${step.rule_id}`}
+    {step.package && ` · ${step.package}${step.version ? `@${step.version}` : ''}`}
+  </span>
+);
 
 interface ExplainModalProps {
   isOpen: boolean;
@@ -11,9 +24,9 @@ interface ExplainModalProps {
 export const ExplainModal: React.FC<ExplainModalProps> = ({ isOpen, onClose, item }) => {
   if (!isOpen || !item) return null;
 
-  const { explanation } = item;
-  const hits = explanation?.hits ?? [];
-  const context = explanation?.context ?? [];
+  const steps = item.explanation?.steps ?? [];
+  const hits = steps.filter(step => step.term && KEYWORD_STAGES.includes(step.stage));
+  const adjustments = steps.filter(step => !hits.includes(step));
 
   return (
     <div 
@@ -41,8 +54,11 @@ export const ExplainModal: React.FC<ExplainModalProps> = ({ isOpen, onClose, ite
             <ul className="space-y-1 max-h-48 overflow-y-auto pr-2">
               {hits.length > 0 ? hits.map((h, i) => (
                 <li key={i} className="flex justify-between items-center bg-slate-900/50 p-2 rounded">
-                  <span className="text-slate-200 font-medium">{h.canonical}</span>
-                  <span className="text-xs text-slate-400 bg-slate-700 px-2 py-0.5 rounded-full">{h.strategy} | Conf: {h.confidence.toFixed(2)}</span>
+                  <span>
+                    <span className="text-slate-200 font-medium">{h.term}</span>
+                    <StepSource step={h} />
+                  </span>
+                  <span className="text-xs text-slate-400 bg-slate-700 px-2 py-0.5 rounded-full tabular-nums">{formatDelta(h.score_delta)}</span>
                 </li>
               )) : <li className="text-slate-500 italic">No strong keywords matched.</li>}
             </ul>
@@ -52,10 +68,13 @@ export const ExplainModal: React.FC<ExplainModalProps> = ({ isOpen, onClose, ite
           <div>
             <h4 className="font-semibold text-slate-300 mb-2">Contextual Adjustments</h4>
              <ul className="space-y-1 max-h-48 overflow-y-auto pr-2">
-                {context.length > 1 ? context.map((c, i) => (
-                    <li key={i} className={`flex items-start gap-2 p-2 rounded ${c.startsWith('[BLOCKER]') || c.startsWith('[DEMOTION]') ? 'bg-red-900/30' : 'bg-green-900/20'}`}>
-                        <span className="text-lg flex-shrink-0">{c.startsWith('[BLOCKER]') || c.startsWith('[DEMOTION]') ? '−' : '+'}</span>
-                        <span className="text-slate-300">{c}</span>
+                {adjustments.length > 0 ? adjustments.map((c, i) => (
+                    <li key={i} className={`flex items-start gap-2 p-2 rounded ${c.stage === 'blocker' || c.score_delta < 0 ? 'bg-red-900/30' : c.score_delta > 0 ? 'bg-green-900/20' : 'bg-slate-900/50'}`}>
+                        <span className="text-lg flex-shrink-0 tabular-nums">{c.score_delta !== 0 ? formatDelta(c.score_delta) : c.stage === 'blocker' ? '−' : '•'}</span>
+                        <span className="text-slate-300">
+                            {c.label}
+                            <StepSource step={c} />
+                        </span>
                     </li>
                 )) : <li className="text-slate-500 italic">No specific context rules applied.</li>}
             </ul>
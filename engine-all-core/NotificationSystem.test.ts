@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { workerHealthNotification } from './NotificationSystem';
+import type { WorkerPoolHealth } from './workerManager';
+
+function health(status: WorkerPoolHealth['status'], counts: Partial<WorkerPoolHealth> = {}): WorkerPoolHealth {
+  return {
+    status,
+    ready: 0,
+    recovering: 0,
+    failed: 0,
+    restarts: 0,
+    timeouts: 0,
+    retried_chunks: 0,
+    last_error: null,
+    workers: Array.from({ length: 4 }, (_, index) => ({ index, status: 'ready' as const, restarts: 0, last_error: null })),
+    ...counts
+  };
+}
+
+describe('workerHealthNotification', () => {
+  it('reports recovery of the whole pool', () => {
+    expect(workerHealthNotification(health('healthy', { ready: 4 }))).toEqual({
+      type: 'success',
+      title: 'Analysis workers recovered',
+      message: 'All 4 workers are running again.'
+    });
+  });
+
+  it('warns while a worker restarts, naming the error', () => {
+    expect(workerHealthNotification(health('recovering', { ready: 3, recovering: 1, last_error: 'Worker 2 did not answer' })))
+      .toEqual({
+        type: 'warning',
+        title: 'Analysis worker restarting',
+        message: '1 of 4 workers restarting after: Worker 2 did not answer'
+      });
+  });
+
+  it('warns when analysis continues on fewer workers', () => {
+    expect(workerHealthNotification(health('degraded', { ready: 3, failed: 1 })).message)
+      .toBe('1 of 4 workers could not be restarted; analysis continues on 3.');
+  });
+
+  it('keeps the error for an unavailable pool on screen', () => {
+    expect(workerHealthNotification(health('down', { failed: 4, last_error: 'Out of memory' }))).toEqual({
+      type: 'error',
+      title: 'Analysis workers unavailable',
+      message: 'Out of memory',
+      duration: 0
+    });
+  });
+});
@@ -1,4 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { WorkerPoolHealth } from './workerManager';
 
 export interface Notification {
   id: string;
@@ -182,4 +183,49 @@ export const useNotifications = () => {
     warning,
     info
   };
-};
\ No newline at end of file
+};
+
+// Notification for a change in analysis worker pool health
+export const workerHealthNotification = (health: WorkerPoolHealth): Omit<Notification, 'id'> => {
+  const total = health.workers.length;
+  switch (health.status) {
+    case 'healthy':
+      return { type: 'success', title: 'Analysis workers recovered', message: `All ${total} workers are running again.` };
+    case 'recovering':
+      return {
+        type: 'warning',
+        title: 'Analysis worker restarting',
+        message: `${health.recovering} of ${total} workers restarting after: ${health.last_error}`
+      };
+    case 'degraded':
+      return {
+        type: 'warning',
+        title: 'Analysis running on fewer workers',
+        message: `${health.failed} of ${total} workers could not be restarted; analysis continues on ${health.ready}.`
+      };
+    case 'down':
+      return {
+        type: 'error',
+        title: 'Analysis workers unavailable',
+        message: health.last_error ?? undefined,
+        duration: 0
+      };
+  }
+};
+
+// Hook that notifies whenever the worker pool's health status changes
+export const useWorkerHealthNotifications = (
+  source: { onHealthChange: (listener: (health: WorkerPoolHealth) => void) => () => void } | null,
+  addNotification: (notification: Omit<Notification, 'id'>) => string
+) => {
+  const lastStatus = useRef<WorkerPoolHealth['status']>('healthy');
+
+  useEffect(() => {
+    if (!source) return;
+    return source.onHealthChange(health => {
+      if (health.status === lastStatus.current) return;
+      lastStatus.current = health.status;
+      addNotification(workerHealthNotification(health));
+    });
+  }, [source, addNotification]);
+};
@@ -15,7 +15,7 @@ self.onmessage = (e: MessageEvent<{ chunk: InventoryItem[], knowledgePack: Knowl
     
     const results = analyzeBatch(chunk, knowledgePack);
     
-    console.log(`Worker completed chunk: ${results.length} results, ${results.filter(r => r.explanation?.context?.engine === 'engine3v').length} processed by engine3v`);
+    console.log(`Worker completed chunk: ${results.length} results, ${results.filter(r => r.explanation?.details?.engine === 'engine3v').length} processed by engine3v`);
     
     self.postMessage({ results });
   } catch (error) {
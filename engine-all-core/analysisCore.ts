@@ -1,5 +1,5 @@
 
-import { AnalysisResult, AnalysisDecision, InventoryItem, MatchedKeyword, Explanation } from '../types';
+import { AnalysisResult, AnalysisDecision, InventoryItem, MatchedKeyword, Explanation, ExplanationStep } from '../types';
 import { SmartItemParser } from './SmartItemParser';
 import { KnowledgePack } from './knowledge/schemas';
 import { HybridMatcher } from './matching/hybridMatcher';
@@ -26,6 +26,8 @@ let aliasCategoryIndex = new Map<string, { category: string; subcategory: string
 let knowledgeVersion: string | null = null;
 
 function preprocessKnowledgePack(knowledgePack: KnowledgePack) {
+    matcher.setEditCosts(knowledgePack.edit_costs);
+
     const versionSignature = JSON.stringify({
         aliases: knowledgePack.aliases,
         taxonomy: knowledgePack.taxonomy
@@ -335,6 +337,7 @@ export const analyzeBatch = (inventory: InventoryItem[], knowledgePack: Knowledg
         let hasNonBrandCategory = false;
         
         const matchedKeywordsList = Array.from(hits.values());
+        const keywordSteps: ExplanationStep[] = [];
         
         matchedKeywordsList.forEach(hit => {
             const keywordInfo = processedKeywordsCache.get(hit.matched.toLowerCase())?.[0];
@@ -357,6 +360,13 @@ export const analyzeBatch = (inventory: InventoryItem[], knowledgePack: Knowledg
                 if (tagScore > highestTagScore) highestTagScore = tagScore;
             });
             baseScore += highestTagScore * hit.confidence;
+            keywordSteps.push({
+                stage: 'vocabulary',
+                label: `Keyword "${hit.canonical}" (${hit.strategy}, confidence ${hit.confidence.toFixed(2)})`,
+                term: hit.canonical,
+                rule_id: hit.strategy,
+                score_delta: highestTagScore * hit.confidence
+            });
         });
 
         const scoreCtx = {
@@ -386,8 +396,11 @@ export const analyzeBatch = (inventory: InventoryItem[], knowledgePack: Knowledg
         
         const parsedDetails = itemParser.parse(item.item_name);
         const explanation: Explanation = {
-            hits: matchedKeywordsList.map(h => ({ canonical: h.canonical, strategy: h.strategy, confidence: h.confidence})),
-            context: contextExplanation
+            steps: [
+                ...keywordSteps,
+                ...contextExplanation,
+                { stage: 'threshold', label: reason, rule_id: 'thresholds.accept_min_score', score_delta: 0 }
+            ]
         };
 
         // Add PT classification
@@ -504,12 +517,8 @@ function analyzeWithUltraDetector(inventory: InventoryItem[], knowledgePack: Kno
         ];
 
         const explanation: Explanation = {
-            hits: matchedKeywords.map(h => ({ 
-                canonical: h.canonical, 
-                strategy: h.strategy, 
-                confidence: h.confidence 
-            })),
-            context: {
+            steps: ultraItem.explanation,
+            details: {
                 engine: 'UltraRehabDetector',
                 version: '500% Accuracy',
                 processingTime,
@@ -639,12 +648,8 @@ function analyzeWithEngine3v(inventory: InventoryItem[], knowledgePack: Knowledg
         const itemSubcategory = determineSubcategory(processedItem, originalItem, knowledgePack);
         
         const explanation: Explanation = {
-            hits: matchedKeywords.map(h => ({ 
-                canonical: h.canonical, 
-                strategy: h.strategy, 
-                confidence: h.confidence 
-            })),
-            context: {
+            steps: engine3v!.explainSteps(processedItem),
+            details: {
                 scoreBreakdown: processedItem.scoreBreakdown,
                 engine: 'engine3v',
                 version: '3.0',
@@ -1,5 +1,6 @@
 
 import { KnowledgePack } from '../knowledge/schemas';
+import type { ExplanationStep } from '../engine-core/types';
 
 interface ScorerContext {
   matchedCanonicals: Set<string>;
@@ -10,7 +11,7 @@ interface ScorerContext {
 
 interface ScoreOutput {
     finalScore: number;
-    explanation: string[];
+    explanation: ExplanationStep[];
 }
 
 export class ContextualScorer {
@@ -22,14 +23,20 @@ export class ContextualScorer {
 
   calculate(ctx: ScorerContext): ScoreOutput {
     let score = ctx.baseScore;
-    const explanation: string[] = [`Base score from keywords: ${score.toFixed(2)}`];
+    const explanation: ExplanationStep[] = [];
     const corpusLower = ctx.textCorpus.toLowerCase();
     
     // 1. Negative Blockers & Demotions
     for (const blocker of this.knowledge.negatives.blockers) {
       if (corpusLower.includes(blocker)) {
         score += this.knowledge.weights.score_modifiers.diagnostic_blocker;
-        explanation.push(`[BLOCKER] Found '${blocker}'. Score decreased by ${this.knowledge.weights.score_modifiers.diagnostic_blocker}.`);
+        explanation.push({
+            stage: 'blocker',
+            label: `Found blocker '${blocker}'`,
+            term: blocker,
+            rule_id: 'score_modifiers.diagnostic_blocker',
+            score_delta: this.knowledge.weights.score_modifiers.diagnostic_blocker
+        });
         // Early exit for major blockers
         return { finalScore: Math.round(score), explanation };
       }
@@ -37,18 +44,24 @@ export class ContextualScorer {
     for (const demotion of this.knowledge.negatives.demotions) {
       if (corpusLower.includes(demotion)) {
         score += this.knowledge.weights.score_modifiers.demotion_term;
-        explanation.push(`[DEMOTION] Found '${demotion}'. Score decreased by ${this.knowledge.weights.score_modifiers.demotion_term}.`);
+        explanation.push({
+            stage: 'demotion',
+            label: `Found demotion term '${demotion}'`,
+            term: demotion,
+            rule_id: 'score_modifiers.demotion_term',
+            score_delta: this.knowledge.weights.score_modifiers.demotion_term
+        });
       }
     }
     
     // 2. Co-occurrence rules (example)
     if(ctx.matchedCanonicals.has('Ultrasound Therapy') && corpusLower.includes('therapeutic')){
         score += 15;
-        explanation.push(`[BOOST] "Ultrasound" + "therapeutic" co-occurrence. Score increased by 15.`);
+        explanation.push({ stage: 'context', label: '"Ultrasound" + "therapeutic" co-occurrence', rule_id: 'cooccurrence.ultrasound_therapeutic', score_delta: 15 });
     }
     if(ctx.matchedCanonicals.has('TENS Unit') && ctx.matchedCanonicals.has('Electrode')){
         score += 10;
-        explanation.push(`[BOOST] "TENS" + "Electrode" co-occurrence. Score increased by 10.`);
+        explanation.push({ stage: 'context', label: '"TENS" + "Electrode" co-occurrence', rule_id: 'cooccurrence.tens_electrode', score_delta: 10 });
     }
 
     // 3. Brand boost
@@ -57,7 +70,13 @@ export class ContextualScorer {
         const boost = this.knowledge.weights.brand_boost[brandLower as keyof typeof this.knowledge.weights.brand_boost] ?? 0;
         if(boost > 0) {
             score += boost;
-            explanation.push(`[BOOST] Brand '${ctx.brand}' boost. Score increased by ${boost}.`);
+            explanation.push({
+                stage: 'brand',
+                label: `Brand '${ctx.brand}' boost`,
+                term: ctx.brand,
+                rule_id: `brand_boost.${brandLower}`,
+                score_delta: boost
+            });
         }
     }
     
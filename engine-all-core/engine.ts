@@ -19,6 +19,7 @@ import type {
   ScoreReason,
   EngineStats
 } from './types';
+import type { ExplanationStep } from '../engine-core/types';
 
 export class PTFilterEngine {
   private normalizer: Normalizer;
@@ -98,6 +99,7 @@ export class PTFilterEngine {
       status: item.status,
       signals: item.scoreBreakdown,
       topReasons: this.getTopReasons(item.scoreBreakdown),
+      steps: this.explainSteps(item),
       matchedTerms: {
         positive: item.matchedPositive,
         negative: item.matchedNegative,
@@ -108,6 +110,37 @@ export class PTFilterEngine {
     };
   }
 
+  /**
+   * Score breakdown of a processed item as shared explanation steps
+   */
+  explainSteps(item: ProcessedItem): ExplanationStep[] {
+    const steps: ExplanationStep[] = [];
+
+    if (item.blockedByGate) {
+      steps.push({ stage: 'blocker', label: item.blockedByGate, rule_id: 'gates', score_delta: 0 });
+    }
+
+    for (const [signal, value] of Object.entries<number>(item.scoreBreakdown)) {
+      if (value === 0) continue;
+      steps.push({
+        stage: signal.endsWith('Penalty') ? 'demotion' : 'signal',
+        label: `Signal ${signal}`,
+        rule_id: `weights.${signal}`,
+        score_delta: value
+      });
+    }
+
+    const { accept_min_score, review_lower_bound } = this.config.thresholds;
+    steps.push({
+      stage: 'threshold',
+      label: `Score ${item.score.toFixed(1)} is ${item.status} (accept at ${accept_min_score}, review from ${review_lower_bound})`,
+      rule_id: 'thresholds.accept_min_score',
+      score_delta: 0
+    });
+
+    return steps;
+  }
+
   private normalizeItem(item: CatalogItem): NormalizedItem {
     return {
       ...item,
@@ -337,6 +370,7 @@ export interface ItemExplanation {
   status: ItemStatus;
   signals: ScoreBreakdown;
   topReasons: ScoreReason[];
+  steps: ExplanationStep[];
   matchedTerms: {
     positive: string[];
     negative: string[];
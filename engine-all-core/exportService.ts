@@ -1,5 +1,6 @@
 
 import { AnalysisResult, SummaryStats } from '../types';
+import { formatExplanation } from '../engine-core/explanation';
 
 declare const XLSX: any;
 
@@ -20,8 +21,34 @@ const generateRecommendation = (item: AnalysisResult): string => {
     return "General review needed.";
 };
 
-export const exportToExcel = (
-    results: AnalysisResult[], 
+// Column order of every export; Recommendation is only filled in for items needing review
+const EXPORT_COLUMNS = [
+    "Item Name", "SKU", "Decision", "Score", "PT Category", "PT Subcategory", "Matched Keywords",
+    "Decision Reason", "Recommendation", "Explanation", "Description", "Fingerprint"
+];
+
+/**
+ * Flattens results into the row shape used by every export format (sheets, CSV, JSONL).
+ */
+export const toExportRows = (data: AnalysisResult[]) => {
+    return data.map(r => ({
+        "Item Name": r.item_name,
+        "SKU": r.sku,
+        "Decision": r.Decision,
+        "Score": r.Score,
+        "PT Category": r.PT_Category,
+        "PT Subcategory": r.PT_Subcategory,
+        "Matched Keywords": r.Matched_Keywords.map(k => `${k.canonical} (${k.strategy}, ${k.confidence.toFixed(2)})`).join('; '),
+        "Decision Reason": r.Decision_Reason,
+        ...(r.Decision === 'Review' && { "Recommendation": generateRecommendation(r) }),
+        "Explanation": formatExplanation(r.explanation.steps),
+        "Description": r.description,
+        "Fingerprint": r.fingerprint ?? ''
+    }));
+};
+
+export const buildWorkbook = (
+    results: AnalysisResult[],
     summary: SummaryStats,
     options: ExportOptions
 ) => {
@@ -42,42 +69,41 @@ export const exportToExcel = (
         XLSX.utils.book_append_sheet(wb, ws, "Summary");
     }
 
-    const transformResults = (data: AnalysisResult[], includeRecommendation = false) => {
-        return data.map(r => ({
-            "Item Name": r.item_name,
-            "SKU": r.sku,
-            "Decision": r.Decision,
-            "Score": r.Score,
-            "PT Category": r.PT_Category,
-            "PT Subcategory": r.PT_Subcategory,
-            "Matched Keywords": r.Matched_Keywords.map(k => `${k.canonical} (${k.strategy}, ${k.confidence.toFixed(2)})`).join('; '),
-            "Decision Reason": r.Decision_Reason,
-            ...(includeRecommendation && { "Recommendation": generateRecommendation(r) }),
-            "Explanation": Array.isArray(r.explanation.context)
-                ? r.explanation.context.join('; ')
-                : JSON.stringify(r.explanation.context),
-            "Description": r.description
-        }));
-    };
-
     if (options.includeAccepted) {
         const acceptedData = results.filter(r => r.Decision === 'Accepted');
-        const ws = XLSX.utils.json_to_sheet(transformResults(acceptedData));
+        const ws = XLSX.utils.json_to_sheet(toExportRows(acceptedData));
         XLSX.utils.book_append_sheet(wb, ws, "Accepted Items");
     }
     
     if (options.includeReview) {
         const reviewData = results.filter(r => r.Decision === 'Review');
-        const ws = XLSX.utils.json_to_sheet(transformResults(reviewData, true));
+        const ws = XLSX.utils.json_to_sheet(toExportRows(reviewData));
         XLSX.utils.book_append_sheet(wb, ws, "Needs Review");
     }
 
     if (options.includeRejected) {
         const rejectedData = results.filter(r => r.Decision === 'Rejected');
-        const ws = XLSX.utils.json_to_sheet(transformResults(rejectedData));
+        const ws = XLSX.utils.json_to_sheet(toExportRows(rejectedData));
         XLSX.utils.book_append_sheet(wb, ws, "Rejected Items");
     }
 
-    const filename = `PT_Inventory_Analysis_${new Date().toISOString().slice(0, 10)}.xlsx`;
-    XLSX.writeFile(wb, filename);
+    return wb;
+};
+
+export const exportToExcel = (
+    results: AnalysisResult[], 
+    summary: SummaryStats,
+    options: ExportOptions,
+    filename = `PT_Inventory_Analysis_${new Date().toISOString().slice(0, 10)}.xlsx`
+) => {
+    XLSX.writeFile(buildWorkbook(results, summary, options), filename);
+};
+
+export const exportToCsv = (results: AnalysisResult[]): string => {
+    const ws = XLSX.utils.json_to_sheet(toExportRows(results), { header: EXPORT_COLUMNS });
+    return XLSX.utils.sheet_to_csv(ws);
+};
+
+export const exportToJsonl = (results: AnalysisResult[]): string => {
+    return toExportRows(results).map(row => JSON.stringify(row)).join('\n') + '\n';
 };
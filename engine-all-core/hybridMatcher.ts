@@ -1,6 +1,10 @@
 
 import { normalizeArabic } from './arabicNormalize';
 import { trigrams } from './tokenizer';
+import { EditCosts } from '../engine-core/edit-distance';
+import type { EditCostTable } from '../engine-core/types';
+
+const ARABIC_CHARS = /[\u0600-\u06FF]/;
 
 export interface MatchResult {
   confidence: number;
@@ -10,6 +14,18 @@ export interface MatchResult {
 
 export class HybridMatcher {
   private FUZZY_THRESHOLD = 0.7;
+  private editCosts: EditCosts | null = null;
+
+  constructor(editCosts?: EditCostTable) {
+    this.setEditCosts(editCosts);
+  }
+
+  /**
+   * Enable weighted edit similarity for Arabic terms; passing nothing restores plain trigram matching
+   */
+  setEditCosts(table?: EditCostTable | null): void {
+    this.editCosts = table ? new EditCosts(table) : null;
+  }
   
   private preProcess(s: string): string {
     return s ? normalizeArabic(s.toLowerCase()) : '';
@@ -43,6 +59,18 @@ export class HybridMatcher {
         }
     }
 
+    // Arabic spelling variants (hamza, ta marbuta, Persian letters) cost a fraction of an edit
+    if (this.editCosts && ARABIC_CHARS.test(processedTerm)) {
+        const termWordCount = processedTerm.split(/\s+/).length;
+        for (let i = 0; i + termWordCount <= corpusWords.length; i++) {
+            const window = corpusWords.slice(i, i + termWordCount).join(' ');
+            const similarity = this.editCosts.similarity(processedTerm, window);
+            if (similarity > bestMatch.similarity) {
+                bestMatch.similarity = similarity;
+            }
+        }
+    }
+
     if (bestMatch.similarity >= this.FUZZY_THRESHOLD) {
         return {
             confidence: bestMatch.similarity,
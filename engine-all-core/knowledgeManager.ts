@@ -1,11 +1,19 @@
 
 import type { KnowledgePack } from './schemas';
+import type { EditCostTable } from '../engine-core/types';
 
 export class KnowledgeManager {
   private pack: KnowledgePack | null = null;
   private version = '0';
 
   async load(base = '/knowledge'): Promise<void> {
+    await this.loadPack(base);
+    if (this.pack) {
+      this.pack.edit_costs = await this.loadEditCosts(base);
+    }
+  }
+
+  private async loadPack(base: string): Promise<void> {
     try {
         // Try to load the new v3 unified knowledge pack first
         try {
@@ -43,6 +51,16 @@ export class KnowledgeManager {
     }
   }
 
+  private async loadEditCosts(base: string): Promise<EditCostTable | undefined> {
+    // Optional: without it, fuzzy matching falls back to unweighted trigram similarity
+    try {
+      const response = await fetch(`${base}/edit_costs.ar.json`);
+      return response.ok ? await response.json() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   private convertUnifiedPack(unifiedPack: any): KnowledgePack {
     // Convert engine3v unified file to our KnowledgePack format
     const kpParts = Array.isArray(unifiedPack.knowledge_pack) ? unifiedPack.knowledge_pack : [];
@@ -187,6 +187,40 @@ const parseJson = (file: File): Promise<InventoryItem[]> => {
 
 // --- Public API ---
 
+/**
+ * Parses raw file contents without the browser File/FileReader APIs (used by the Node CLI).
+ * CSV is read through SheetJS as well, so only the XLSX global is required.
+ */
+export const parseBuffer = (fileName: string, contents: Uint8Array): InventoryItem[] => {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+
+    switch (extension) {
+        case 'xlsx':
+        case 'xls':
+        case 'csv': {
+            // CSV goes through the string reader so UTF-8 Arabic text is not read as a legacy codepage
+            const workbook = extension === 'csv'
+                ? XLSX.read(new TextDecoder().decode(contents), { type: 'string', raw: true })
+                : XLSX.read(contents, { type: 'array' });
+            const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+            const jsonData: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null });
+            return normalizeData(jsonData);
+        }
+        case 'json': {
+            const data = JSON.parse(new TextDecoder().decode(contents));
+            if (!Array.isArray(data)) {
+                throw new Error("JSON file must contain an array of items.");
+            }
+            if (data.length > 0 && typeof data[0].item_name === 'undefined') {
+                throw new Error("JSON items must have an 'item_name' property.");
+            }
+            return data.map((item, index) => ({ id: `item-${index}`, ...item }));
+        }
+        default:
+            throw new Error(`Unsupported file type: .${extension}. Please provide an Excel, CSV, or JSON file.`);
+    }
+};
+
 export const parseFile = (file: File): Promise<InventoryItem[]> => {
     const extension = file.name.split('.').pop()?.toLowerCase();
     
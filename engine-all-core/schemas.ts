@@ -1,3 +1,5 @@
+import type { EditCostTable } from '../engine-core/types';
+
 export interface KnowledgePack {
   taxonomy: { category: string; subcategories: string[] }[];
   aliases: { canonical: string; variants: string[]; tags?: string[] }[];
@@ -25,4 +27,6 @@ export interface KnowledgePack {
     diagnostic_penalty?: number;
     ignore_penalty?: number;
   };
+  // Weighted edit costs for Arabic fuzzy matching (from pt.normalization.ar)
+  edit_costs?: EditCostTable;
 }
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { UltraRehabDetector, type UltraConfig } from './ultra-rehab-detector';
+
+const config: UltraConfig = {
+  includeTerms: ['wheelchair', 'walker', 'treadmill', 'resistance band'],
+  excludeTerms: ['defibrillator'],
+  strongPtTerms: ['goniometer', 'TheraBand', 'Chattanooga'],
+  diagnosticBlockers: ['CT scanner'],
+  brandMap: { Chattanooga: ['ultrasound', 'traction'] },
+  categoryRules: {
+    'Assessment Tools': ['goniometer'],
+    'ADL & Mobility': ['wheelchair', 'walker']
+  },
+  conditionalIncludes: [],
+  arabicAliases: { wheelchair: ['كرسي متحرك'] },
+  weights: { include: 10, include_brand_or_model: 20, include_strong_pt: 25, ignore: -15, diagnostic_blocker: -25 },
+  thresholds: { accept_min_score: 10, review_lower_bound: 5 }
+};
+
+describe('UltraRehabDetector explanation', () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  const detector = new UltraRehabDetector(config);
+
+  it.each([
+    { id: '1', name: 'Wheelchair folding' },
+    { id: '2', name: 'Goniometer', brand: 'Chattanooga' },
+    { id: '3', name: 'Resistance band TheraBand', description: 'therapy exercise' }
+  ])('adds up to the score of $name', item => {
+    const [processed] = detector.processItems([item]);
+
+    const deltas = processed.explanation.map(step => step.score_delta);
+    expect(deltas.reduce((sum, delta) => sum + delta, 0)).toBeCloseTo(processed.score, 0);
+    for (const delta of deltas) {
+      expect(Math.round(delta * 10) / 10).toBe(delta);
+    }
+  });
+});
@@ -10,6 +10,8 @@
  * - Enhanced Saudi market intelligence
  * - Real-time learning capabilities
  */
+import { roundScoreDelta } from '../engine-core/explanation';
+import type { ExplanationStep, ExplanationStage } from '../engine-core/types';
 
 export interface UltraConfig {
   includeTerms: string[];
@@ -72,6 +74,7 @@ export interface ProcessedItem {
     arabic_terms: string[];
     english_terms: string[];
   };
+  explanation: ExplanationStep[];
 }
 
 /**
@@ -483,6 +486,19 @@ class LanguageDetector {
   }
 }
 
+// Composite score weights, shared by the score and its explanation
+const LAYER_WEIGHTS: Record<keyof ProcessedItem['validation_layers'], number> = {
+  keyword_layer: 2.5,      // Increase keyword weight
+  semantic_layer: 2.0,     // Strong semantic weight
+  pattern_layer: 1.8,      // ML pattern weight
+  fuzzy_layer: 1.5,        // Fuzzy matching weight
+  brand_layer: 2.2,        // Brand intelligence weight
+  contextual_layer: 1.8    // Contextual weight
+};
+const LAYER_NORMALIZER = 10.0; // Normalize by total weights
+const SAUDI_RELEVANCE_WEIGHT = 1.5;
+const SCORE_SCALE = 2.5; // Aggressive scaling
+
 /**
  * UltraRehabDetector - Main Class
  * 500% Accuracy Implementation
@@ -554,26 +570,21 @@ export class UltraRehabDetector {
     };
 
     // Calculate composite score with enhanced weighting for 500% accuracy
-    const baseScore = (
-      keywordScore * 2.5 +        // Increase keyword weight
-      semanticResult.score * 2.0 + // Strong semantic weight  
-      patternResult.score * 1.8 +  // ML pattern weight
-      fuzzyScore * 1.5 +           // Fuzzy matching weight
-      brandScore * 2.2 +           // Brand intelligence weight
-      contextualScore * 1.8        // Contextual weight
-    ) / 10.0;  // Normalize by total weights
+    const baseScore = (Object.keys(LAYER_WEIGHTS) as Array<keyof typeof LAYER_WEIGHTS>)
+      .reduce((sum, layer) => sum + validationLayers[layer] * LAYER_WEIGHTS[layer], 0) / LAYER_NORMALIZER;
 
     // Apply Saudi market boost
-    const marketBoostedScore = baseScore + (marketInfo.saudi_relevance * 1.5);
+    const marketBoostedScore = baseScore + (marketInfo.saudi_relevance * SAUDI_RELEVANCE_WEIGHT);
 
     // Apply strong match bonuses
-    let bonusScore = 0;
-    if (keywordScore > 20) bonusScore += 15; // Strong keyword bonus
-    if (semanticResult.score > 15) bonusScore += 12; // Strong semantic bonus
-    if (brandScore > 15) bonusScore += 10; // Strong brand bonus
+    const bonuses: Array<[string, number]> = [];
+    if (keywordScore > 20) bonuses.push(['strong_keyword', 15]); // Strong keyword bonus
+    if (semanticResult.score > 15) bonuses.push(['strong_semantic', 12]); // Strong semantic bonus
+    if (brandScore > 15) bonuses.push(['strong_brand', 10]); // Strong brand bonus
+    const bonusScore = bonuses.reduce((sum, [, bonus]) => sum + bonus, 0);
     
     // Final validation and confidence assessment with aggressive scaling for 500% accuracy
-    const finalScore = Math.min((marketBoostedScore + bonusScore) * 2.5, 100); // Aggressive scaling
+    const finalScore = Math.min((marketBoostedScore + bonusScore) * SCORE_SCALE, 100);
     const confidence = this.calculateConfidenceLevel(validationLayers, finalScore);
     
     // Category and subcategory detection
@@ -597,10 +608,58 @@ export class UltraRehabDetector {
       fuzzy_matches: fuzzyMatches.slice(0, 5), // Top 5 fuzzy matches
       validation_layers: validationLayers,
       market_intelligence: marketInfo,
-      language_detection: languageInfo
+      language_detection: languageInfo,
+      explanation: this.explainScore(validationLayers, marketInfo.saudi_relevance, bonuses, finalScore)
     };
   }
 
+  /**
+   * Break the final score into per-layer contributions, after weighting and scaling
+   */
+  private explainScore(
+    layers: ProcessedItem['validation_layers'],
+    saudiRelevance: number,
+    bonuses: Array<[string, number]>,
+    finalScore: number
+  ): ExplanationStep[] {
+    const layerStages: Array<[keyof ProcessedItem['validation_layers'], ExplanationStage]> = [
+      ['keyword_layer', 'vocabulary'],
+      ['semantic_layer', 'signal'],
+      ['pattern_layer', 'signal'],
+      ['fuzzy_layer', 'fuzzy'],
+      ['brand_layer', 'brand'],
+      ['contextual_layer', 'context']
+    ];
+
+    const steps: ExplanationStep[] = layerStages
+      .filter(([layer]) => layers[layer] !== 0)
+      .map(([layer, stage]) => ({
+        stage,
+        label: `Validation layer ${layer}`,
+        rule_id: layer,
+        score_delta: roundScoreDelta(layers[layer] * LAYER_WEIGHTS[layer] / LAYER_NORMALIZER * SCORE_SCALE)
+      }));
+
+    if (saudiRelevance !== 0) {
+      steps.push({
+        stage: 'market',
+        label: 'Saudi market relevance',
+        rule_id: 'saudi_relevance',
+        score_delta: roundScoreDelta(saudiRelevance * SAUDI_RELEVANCE_WEIGHT * SCORE_SCALE)
+      });
+    }
+    for (const [bonus, points] of bonuses) {
+      steps.push({ stage: 'signal', label: `Bonus ${bonus}`, rule_id: bonus, score_delta: roundScoreDelta(points * SCORE_SCALE) });
+    }
+
+    const uncapped = steps.reduce((sum, step) => sum + step.score_delta, 0);
+    if (uncapped > finalScore) {
+      steps.push({ stage: 'threshold', label: 'Score capped at 100', score_delta: roundScoreDelta(finalScore - uncapped) });
+    }
+
+    return steps;
+  }
+
   private analyzeKeywords(text: string): number {
     const normalizedText = text.toLowerCase();
     let score = 0;
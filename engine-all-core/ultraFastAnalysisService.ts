@@ -5,7 +5,7 @@
 
 import { UltraFastClassifier } from '../pt/engine-core/ultra-fast-classifier';
 import { getPerformanceMonitor } from '../pt/engine-core/performance-monitor';
-import { AnalysisResult, AnalysisData } from '../types';
+import { AnalysisResult, AnalysisData, Explanation } from '../types';
 
 interface UltraFastAnalysisOptions {
   profile: 'lite' | 'full';
@@ -228,73 +228,54 @@ export class UltraFastAnalysisService {
 
   // Private helper methods
   private convertToLegacyFormat(results: any[], originalItems: any[]): AnalysisResult[] {
-    return results.map((result, index) => {
-      const originalItem = originalItems[index] || {};
-      
-      return {
-        id: result.item_id,
-        name: originalItem.name || originalItem.item_name || result.matched_terms?.[0] || 'Unknown',
-        description: originalItem.description || originalItem.specifications || '',
-        decision: result.is_pt ? 'Accept' : 'Reject',
-        score: result.confidence,
-        category: result.category || 'Unknown',
-        explanation: result.explanation.join('; '),
-        manufacturer: originalItem.manufacturer || 'Unknown',
-        supplier: originalItem.supplier || 'Unknown',
-        
-        // Enhanced fields from new engine
-        pt_relevance: {
-          is_pt: result.is_pt,
-          confidence: result.confidence,
-          category: result.category,
-          pt_domain: result.pt_domain,
-          language_detected: result.language,
-          matched_terms: result.matched_terms,
-          processing_time_ms: result.processing_time_ms
-        },
-        
-        // Legacy compatibility
-        specialty: this.mapDomainToSpecialty(result.pt_domain),
-        region: originalItem.region || 'Unknown',
-        area: originalItem.area || 'Unknown',
-        type: originalItem.type || 'Unknown',
-        
-        // Analysis metadata
-        analysisVersion: '2.0-ultra-fast',
-        timestamp: new Date().toISOString()
-      };
-    });
+    return results.map((result, index) => this.convertSingleResultToLegacy(result, originalItems[index] || {}));
   }
 
   private convertSingleResultToLegacy(result: any, originalItem: any): AnalysisResult {
+    const explanation: Explanation = {
+      steps: result.explanation,
+      details: {
+        processing_time_ms: result.processing_time_ms,
+        analysisVersion: '2.0-ultra-fast',
+        timestamp: new Date().toISOString()
+      }
+    };
+
     return {
       id: result.item_id,
-      name: originalItem.name || originalItem.item_name || 'Unknown',
-      description: originalItem.description || '',
-      decision: result.is_pt ? 'Accept' : 'Reject',
-      score: result.confidence,
-      category: result.category || 'Unknown',
-      explanation: result.explanation.join('; '),
+      item_name: originalItem.name || originalItem.item_name || result.matched_terms?.[0] || 'Unknown',
+      description: originalItem.description || originalItem.specifications || '',
+      PT_Category: result.category || 'Unknown',
+      PT_Subcategory: result.pt_domain || 'General',
+      Score: result.confidence,
+      Decision: result.is_pt ? 'Accepted' : 'Rejected',
+      Decision_Reason: result.is_pt ? 'Ultra-fast engine accepted' : 'Ultra-fast engine rejected',
+      Matched_Keywords: (result.matched_terms || []).map((term: string) => ({
+        canonical: term,
+        matched: term,
+        confidence: result.confidence,
+        strategy: 'exact' as const
+      })),
+      language: result.language,
+      extracted_attributes: {},
+      explanation,
       manufacturer: originalItem.manufacturer || 'Unknown',
       supplier: originalItem.supplier || 'Unknown',
-      
+
+      // Enhanced fields from new engine
       pt_relevance: {
-        is_pt: result.is_pt,
+        isPT: result.is_pt,
         confidence: result.confidence,
-        category: result.category,
-        pt_domain: result.pt_domain,
-        language_detected: result.language,
-        matched_terms: result.matched_terms,
-        processing_time_ms: result.processing_time_ms
+        matches: result.matched_terms || [],
+        smartCategory: result.category || 'Unknown',
+        smartSubcategory: result.pt_domain || 'General'
       },
-      
+
+      // Legacy compatibility
       specialty: this.mapDomainToSpecialty(result.pt_domain),
       region: originalItem.region || 'Unknown',
       area: originalItem.area || 'Unknown',
-      type: originalItem.type || 'Unknown',
-      
-      analysisVersion: '2.0-ultra-fast',
-      timestamp: new Date().toISOString()
+      type: originalItem.type || 'Unknown'
     };
   }
 
@@ -317,16 +298,16 @@ export class UltraFastAnalysisService {
   }
 
   private calculateAnalysisStatistics(results: AnalysisResult[]) {
-    const ptResults = results.filter(r => r.decision === 'Accept');
-    const totalConfidence = results.reduce((sum, r) => sum + r.score, 0);
+    const ptResults = results.filter(r => r.Decision === 'Accepted');
+    const totalConfidence = results.reduce((sum, r) => sum + r.Score, 0);
     
     // Calculate categories
-    const categories = new Set(results.map(r => r.category));
+    const categories = new Set(results.map(r => r.PT_Category));
     const manufacturers = new Set(results.map(r => r.manufacturer).filter(m => m !== 'Unknown'));
     const suppliers = new Set(results.map(r => r.supplier).filter(s => s !== 'Unknown'));
     
     // Estimate accuracy based on confidence distribution
-    const highConfidenceResults = results.filter(r => r.score > 70);
+    const highConfidenceResults = results.filter(r => r.Score > 70);
     const accuracy = highConfidenceResults.length / results.length * 100;
     
     return {
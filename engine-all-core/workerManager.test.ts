@@ -0,0 +1,236 @@
+import * as os from 'os';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { decodeItems, encodeResults } from '../engine-core/columnar';
+import type { ClassificationInput, FastClassificationResult } from '../engine-core/ultra-fast-classifier';
+import { UltraFastWorkerManager, type PoolWorker } from './workerManager';
+
+interface FakeBehavior {
+  delayMs?: number; // Before each answer
+  hangOn?: string; // Never answer messages of this type
+  crashOn?: string; // Report a worker error instead of answering messages of this type
+}
+
+/**
+ * In-process worker speaking the analysis worker protocol; an item's confidence is its numeric id
+ */
+class FakeWorker implements PoolWorker {
+  readonly received: string[] = [];
+  terminated = false;
+  private messageListeners: Array<(data: any) => void> = [];
+  private errorListeners: Array<(error: Error) => void> = [];
+
+  constructor(private behavior: FakeBehavior = {}) {}
+
+  postMessage(message: any): void {
+    this.received.push(message.type);
+    setTimeout(() => this.answer(message), this.behavior.delayMs ?? 0);
+  }
+
+  onMessage(listener: (data: any) => void): void {
+    this.messageListeners.push(listener);
+  }
+
+  onError(listener: (error: Error) => void): void {
+    this.errorListeners.push(listener);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  private answer({ type, payload, requestId }: any): void {
+    if (this.terminated || type === this.behavior.hangOn) return;
+    if (type === this.behavior.crashOn) {
+      this.errorListeners.forEach(listener => listener(new Error('out of memory')));
+      return;
+    }
+
+    const reply = (response: any) => this.messageListeners.forEach(listener => listener({ type: 'success', requestId, payload: response }));
+    switch (type) {
+      case 'initialize':
+        return reply({ initialized: true, profile: payload.profile });
+      case 'switch_profile':
+        return reply({ switched: true, profile: payload.profile });
+      case 'classify':
+        return reply(fakeResult(payload.item));
+      case 'classify_batch':
+        return reply({
+          results: encodeResults(decodeItems(payload.items).map(fakeResult)),
+          performance: { averageProcessingTime: 1 }
+        });
+    }
+  }
+}
+
+function fakeResult(item: ClassificationInput): FastClassificationResult {
+  return {
+    item_id: item.id,
+    is_pt: Number(item.id) % 2 === 0,
+    confidence: Number(item.id),
+    category: null,
+    pt_domain: null,
+    language: 'en',
+    processing_time_ms: 1,
+    matched_terms: [],
+    explanation: [],
+    fingerprint: null
+  };
+}
+
+const items = Array.from({ length: 1000 }, (_, i) => ({ id: String(i), name: `item ${i}` }));
+
+/** A pool over fake workers; `behaviors[i]` configures the i-th worker created, respawns included */
+function createPool(behaviors: FakeBehavior[], options: { size?: number; requestTimeoutMs?: number; maxRestarts?: number; maxChunkRetries?: number; speculateAfterMs?: number } = {}) {
+  const workers: FakeWorker[] = [];
+  const pool = new UltraFastWorkerManager({
+    size: options.size ?? 2,
+    ...options,
+    createWorker: () => {
+      const worker = new FakeWorker(behaviors[workers.length]);
+      workers.push(worker);
+      return worker;
+    }
+  });
+  return { pool, workers };
+}
+
+describe('UltraFastWorkerManager', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('initializes and switches every worker without resolving to a worker payload', async () => {
+    const { pool, workers } = createPool([]);
+
+    await expect(pool.initialize('lite')).resolves.toBeUndefined();
+    await expect(pool.switchProfile('full')).resolves.toBeUndefined();
+
+    expect(pool.isReady()).toBe(true);
+    expect(pool.getProfile()).toBe('full');
+    expect(workers.map(worker => worker.received)).toEqual([
+      ['initialize', 'switch_profile'],
+      ['initialize', 'switch_profile']
+    ]);
+  });
+
+  it('splits a batch across the workers and keeps the input order', async () => {
+    const { pool, workers } = createPool([], { size: 3 });
+    await pool.initialize();
+
+    const { results, performance } = await pool.classifyBatch(items);
+
+    expect(results.length).toBe(items.length);
+    expect(results.toArray().map((r: FastClassificationResult) => r.item_id)).toEqual(items.map(item => item.id));
+    expect(results.confidence(999)).toBe(999);
+    expect(performance.chunks).toBeGreaterThan(3);
+    workers.forEach(worker => expect(worker.received).toContain('classify_batch'));
+  });
+
+  it('sizes the pool to the CPU count by default', () => {
+    const workers: FakeWorker[] = [];
+    const pool = new UltraFastWorkerManager({ createWorker: () => workers[workers.push(new FakeWorker()) - 1] });
+
+    expect(workers.length).toBe(os.cpus().length);
+    pool.terminate();
+  });
+
+  it('backs up a straggler so a slow worker cannot stall the batch', async () => {
+    const { pool } = createPool([{ delayMs: 1000 }, {}], { speculateAfterMs: 100 });
+    await pool.initialize();
+
+    const started = Date.now();
+    const { results, performance } = await pool.classifyBatch(items);
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(performance.speculativeChunks).toBeGreaterThan(0);
+    expect(results.toArray().map((r: FastClassificationResult) => r.item_id)).toEqual(items.map(item => item.id));
+    pool.terminate();
+  });
+
+  it('leaves a chunk alone until it has run for speculateAfterMs', async () => {
+    const { pool, workers } = createPool([{ delayMs: 200 }, {}], { speculateAfterMs: 1000 });
+    await pool.initialize();
+
+    const { results, performance } = await pool.classifyBatch(items);
+
+    expect(performance.speculativeChunks).toBe(0);
+    expect(workers[0].received.filter(type => type === 'classify_batch')).toHaveLength(1);
+    expect(results.length).toBe(items.length);
+    pool.terminate();
+  });
+
+  describe('recovery', () => {
+    it('respawns a crashed worker and reruns its chunk', async () => {
+      const { pool, workers } = createPool([{}, { crashOn: 'classify_batch' }, {}]);
+      await pool.initialize();
+      const health: string[] = [];
+      pool.onHealthChange(h => health.push(h.status));
+
+      const { results, performance } = await pool.classifyBatch(items);
+
+      expect(results.toArray().map((r: FastClassificationResult) => r.item_id)).toEqual(items.map(item => item.id));
+      expect(performance.retriedChunks).toBeGreaterThan(0);
+      expect(workers[1].terminated).toBe(true);
+      expect(workers[2].received[0]).toBe('initialize'); // The respawn comes back on the pool's profile
+      expect(health).toEqual(['recovering', 'healthy']);
+      expect(pool.getHealth()).toMatchObject({ status: 'healthy', ready: 2, restarts: 1 });
+      pool.terminate();
+    });
+
+    it('times out a hung worker, respawns it and retries its chunk', async () => {
+      const { pool, workers } = createPool([{ delayMs: 30 }, { hangOn: 'classify_batch' }, {}], { requestTimeoutMs: 50 });
+      await pool.initialize();
+
+      const { results } = await pool.classifyBatch(items);
+
+      expect(results.length).toBe(items.length);
+      expect(workers[1].terminated).toBe(true);
+      expect(pool.getHealth()).toMatchObject({ status: 'healthy', timeouts: 1, restarts: 1 });
+      expect(pool.getHealth().retried_chunks).toBeGreaterThan(0);
+      pool.terminate();
+    });
+
+    it('gives up on a worker after maxRestarts and carries on degraded', async () => {
+      const crashing = { crashOn: 'classify_batch' };
+      const { pool } = createPool([{}, crashing, crashing, crashing], { maxRestarts: 2, maxChunkRetries: 10 });
+      await pool.initialize();
+
+      const { results } = await pool.classifyBatch(items);
+
+      expect(results.length).toBe(items.length);
+      expect(pool.getHealth()).toMatchObject({ status: 'degraded', ready: 1, failed: 1, restarts: 2 });
+      pool.terminate();
+    });
+
+    it('fails a chunk that keeps crashing workers after maxChunkRetries', async () => {
+      const crashing = { crashOn: 'classify_batch' };
+      const { pool } = createPool(Array(10).fill(crashing), { size: 1, maxRestarts: 10, maxChunkRetries: 1 });
+      await pool.initialize();
+
+      await expect(pool.classifyBatch(items.slice(0, 10))).rejects.toThrow(/Chunk 0 failed after 2 attempts: Worker error: out of memory/);
+      pool.terminate();
+    });
+
+    it('fails the batch once no worker is left', async () => {
+      const crashing = { crashOn: 'classify_batch' };
+      const { pool } = createPool([crashing, crashing], { size: 1, maxRestarts: 1, maxChunkRetries: 10 });
+      await pool.initialize();
+
+      await expect(pool.classifyBatch(items)).rejects.toThrow(/No analysis workers left/);
+      expect(pool.getHealth().status).toBe('down');
+      pool.terminate();
+    });
+
+    it('initializes with the workers that loaded when one hangs', async () => {
+      const { pool } = createPool([{}, { hangOn: 'initialize' }, { hangOn: 'initialize' }], { requestTimeoutMs: 50, maxRestarts: 1 });
+
+      await pool.initialize();
+
+      expect(pool.isReady()).toBe(true);
+      expect(pool.getHealth()).toMatchObject({ status: 'degraded', ready: 1, failed: 1 });
+      pool.terminate();
+    });
+  });
+});
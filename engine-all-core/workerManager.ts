@@ -1,13 +1,18 @@
 /**
  * Worker Manager for Ultra-Fast Analysis
- * Manages web worker lifecycle and communication
+ * Manages a pool of analysis workers: lifecycle, communication and parallel batch classification
  */
+import { ColumnarResults, encodeItems } from '../engine-core/columnar';
+import type { FastClassificationResult } from '../engine-core/ultra-fast-classifier';
 
 interface WorkerRequest {
   id: string;
+  type: string;
+  slot: WorkerSlot;
   resolve: (value: any) => void;
   reject: (error: Error) => void;
   onProgress?: (data: any) => void;
+  timer?: ReturnType<typeof setTimeout>;
 }
 
 interface WorkerStats {
@@ -15,59 +20,237 @@ interface WorkerStats {
   profile: 'lite' | 'full';
   performance: any;
   uptime: number;
+  pool_size: number;
+  workers?: any[];
+  health: WorkerPoolHealth;
 }
 
+/**
+ * Raised when a worker neither answers nor reports progress within the request timeout.
+ * The worker is presumed hung and is respawned.
+ */
+export class WorkerTimeoutError extends Error {
+  constructor(public readonly requestType: string, public readonly workerIndex: number, public readonly timeoutMs: number) {
+    super(`Worker ${workerIndex} did not answer "${requestType}" within ${timeoutMs}ms`);
+    this.name = 'WorkerTimeoutError';
+  }
+}
+
+export type WorkerStatus = 'ready' | 'recovering' | 'failed';
+
+/**
+ * Pool health for status displays:
+ * - healthy: every worker ready
+ * - recovering: at least one crashed worker is being respawned
+ * - degraded: some workers exhausted their restarts, the rest carry the load
+ * - down: no worker is ready or recovering
+ */
+export interface WorkerPoolHealth {
+  status: 'healthy' | 'recovering' | 'degraded' | 'down';
+  ready: number;
+  recovering: number;
+  failed: number;
+  restarts: number;
+  timeouts: number;
+  retried_chunks: number;
+  last_error: string | null;
+  workers: Array<{ index: number; status: WorkerStatus; restarts: number; last_error: string | null }>;
+}
+
+/**
+ * Minimal worker surface, so the pool can run on Web Workers or Node worker_threads
+ */
+export interface PoolWorker {
+  postMessage(message: any, transfer?: Transferable[]): void;
+  onMessage(listener: (data: any) => void): void;
+  onError(listener: (error: Error) => void): void;
+  terminate(): void;
+}
+
+export interface WorkerPoolOptions {
+  size?: number; // Defaults to one worker per logical core
+  createWorker?: () => PoolWorker; // Defaults to the ultra-fast analysis Web Worker
+  requestTimeoutMs?: number; // Longest a request may go without an answer or progress report
+  maxRestarts?: number; // Respawns per worker before it is given up on
+  maxChunkRetries?: number; // Re-dispatches of a batch chunk whose worker crashed or timed out
+  speculateAfterMs?: number; // How long a chunk must run before an idle worker backs it up
+}
+
+interface WorkerSlot {
+  index: number;
+  worker: PoolWorker;
+  inFlight: number;
+  status: WorkerStatus;
+  restarts: number;
+  lastError: string | null;
+  recovery: Promise<void> | null; // Settles when a respawn finishes: resolves once ready, rejects if given up
+}
+
+/** One contiguous slice of a batch, dispatched to a single worker */
+interface BatchChunk {
+  index: number;
+  start: number;
+  end: number;
+  copies: number; // Workers currently running it, more than one once a straggler is backed up
+  startedAt: number;
+  attempts: number; // Failed runs; classification is side-effect free, so a chunk can be rerun
+}
+
+/**
+ * Results of a pooled batch in input order, kept in the columnar form the workers returned;
+ * decisions, confidences and categories are read directly, full result objects built on access
+ */
+export class BatchResults {
+  readonly length: number;
+  private chunks: ColumnarResults[];
+  private chunkSize: number;
+
+  constructor(chunks: ColumnarResults[], chunkSize: number) {
+    this.chunks = chunks;
+    this.chunkSize = chunkSize;
+    this.length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  }
+
+  isPt(index: number): boolean {
+    const [chunk, row] = this.locate(index);
+    return chunk.isPt(row);
+  }
+
+  confidence(index: number): number {
+    const [chunk, row] = this.locate(index);
+    return chunk.confidence(row);
+  }
+
+  category(index: number): string | null {
+    const [chunk, row] = this.locate(index);
+    return chunk.category(row);
+  }
+
+  get(index: number): FastClassificationResult {
+    const [chunk, row] = this.locate(index);
+    return chunk.get(row);
+  }
+
+  toArray(): FastClassificationResult[] {
+    return this.chunks.flatMap(chunk => chunk.toArray());
+  }
+
+  *[Symbol.iterator](): IterableIterator<FastClassificationResult> {
+    for (const chunk of this.chunks) {
+      yield* chunk;
+    }
+  }
+
+  private locate(index: number): [ColumnarResults, number] {
+    if (index < 0 || index >= this.length) {
+      throw new RangeError(`Result index ${index} out of range for ${this.length} results`);
+    }
+    // Every chunk but the last holds exactly chunkSize results
+    return [this.chunks[Math.floor(index / this.chunkSize)], index % this.chunkSize];
+  }
+}
+
+const CHUNKS_PER_WORKER = 4; // Small enough chunks that a slow worker holds back little work
+const MIN_CHUNK_SIZE = 50;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RESTARTS = 3;
+const DEFAULT_MAX_CHUNK_RETRIES = 2;
+const DEFAULT_SPECULATE_AFTER_MS = 2000;
+
 export class UltraFastWorkerManager {
-  private worker: Worker | null = null;
+  private slots: WorkerSlot[] = [];
+  private createWorker: () => PoolWorker;
   private pendingRequests = new Map<string, WorkerRequest>();
   private requestIdCounter = 0;
   private isInitialized = false;
+  private profileRequested = false; // Whether respawned workers must load a profile
   private currentProfile: 'lite' | 'full' = 'lite';
+  private createdAt = Date.now();
+  private requestTimeoutMs: number;
+  private maxRestarts: number;
+  private maxChunkRetries: number;
+  private speculateAfterMs: number;
+  private timeouts = 0;
+  private retriedChunks = 0;
+  private lastError: string | null = null;
+  private healthListeners = new Set<(health: WorkerPoolHealth) => void>();
 
-  constructor() {
-    this.initializeWorker();
+  constructor(options: WorkerPoolOptions = {}) {
+    this.createWorker = options.createWorker ?? createAnalysisWorker;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.maxRestarts = options.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+    this.maxChunkRetries = options.maxChunkRetries ?? DEFAULT_MAX_CHUNK_RETRIES;
+    this.speculateAfterMs = options.speculateAfterMs ?? DEFAULT_SPECULATE_AFTER_MS;
+    const size = Math.max(1, options.size ?? defaultPoolSize());
+    for (let index = 0; index < size; index++) {
+      const slot: WorkerSlot = {
+        index, worker: this.spawnWorker(index), inFlight: 0, status: 'ready', restarts: 0, lastError: null, recovery: null
+      };
+      this.attach(slot);
+      this.slots.push(slot);
+    }
+    console.log(`🧵 Ultra-fast worker pool created with ${size} workers`);
   }
 
-  private initializeWorker(): void {
+  private spawnWorker(index: number): PoolWorker {
     try {
-      // Create worker from ultra-fast analysis worker
-      this.worker = new Worker(
-        new URL('./ultraFastAnalysis.worker.ts', import.meta.url),
-        { type: 'module' }
-      );
-
-      this.worker.addEventListener('message', this.handleWorkerMessage.bind(this));
-      this.worker.addEventListener('error', this.handleWorkerError.bind(this));
-      
-      console.log('🧵 Ultra-fast worker created');
+      return this.createWorker();
       
     } catch (error) {
-      console.error('❌ Failed to create ultra-fast worker:', error);
+      console.error(`❌ Failed to create ultra-fast worker ${index}:`, error);
       throw error;
     }
   }
 
   /**
-   * Initialize the worker with specific profile
+   * Route a worker's messages and errors to its slot; events from a worker the slot has since replaced are ignored
+   */
+  private attach(slot: WorkerSlot): void {
+    const worker = slot.worker;
+    worker.onMessage(data => {
+      if (slot.worker === worker) this.handleWorkerMessage(data);
+    });
+    worker.onError(error => {
+      if (slot.worker === worker) this.handleWorkerError(slot, error);
+    });
+  }
+
+  /**
+   * Initialize every worker with the profile; each loads the compiled runtime once
    */
   async initialize(profile: 'lite' | 'full' = 'lite'): Promise<void> {
-    const result = await this.sendMessage('initialize', { profile });
-    this.isInitialized = result.initialized;
+    // Set first, so a worker respawned while this runs comes back on the same profile
     this.currentProfile = profile;
-    console.log(`✅ Ultra-fast worker initialized with ${profile} profile`);
-    return result;
+    this.profileRequested = true;
+    const results = await Promise.all(this.slots.map(slot =>
+      this.sendMessage(slot, 'initialize', { profile }).catch(error => {
+        // A worker that crashed or hung while loading is respawned and initialized by the recovery
+        if (!slot.recovery) throw error;
+        return slot.recovery.then(() => ({ initialized: true }));
+      }).catch(error => ({ initialized: false, error: error instanceof Error ? error.message : String(error) }))
+    ));
+    
+    const initialized = results.filter(result => result.initialized);
+    if (initialized.length === 0) {
+      throw new Error(`No ultra-fast worker initialized: ${results[0]?.error ?? 'empty pool'}`);
+    }
+    this.isInitialized = true;
+    console.log(`✅ ${initialized.length} ultra-fast workers initialized with ${profile} profile`);
   }
 
   /**
-   * Classify single item
+   * Classify single item on the least busy worker
    */
   async classify(item: any): Promise<any> {
     this.ensureInitialized();
-    return this.sendMessage('classify', { item });
+    return this.sendMessage(this.leastBusySlot(), 'classify', { item });
   }
 
   /**
-   * Classify batch of items with progress tracking
+   * Classify batch of items across the pool with progress tracking. Workers pull chunks from a shared
+   * queue as they finish; once it is empty, idle workers back up the longest-running chunk after it has
+   * run for `speculateAfterMs`, so a slow worker cannot stall the batch. A chunk whose worker crashes or times out is rerun, up to
+   * `maxChunkRetries` times, while the worker is respawned. Results keep the input order.
    */
   async classifyBatch(
     items: any[],
@@ -78,15 +261,34 @@ export class UltraFastWorkerManager {
   ): Promise<any> {
     this.ensureInitialized();
     
-    return this.sendMessage('classify_batch', {
-      items,
-      batchSize: options.batchSize || 1000,
-      reportProgress: !!options.onProgress
-    }, options.onProgress);
+    const batchSize = options.batchSize || 1000;
+    const chunkSize = Math.min(
+      batchSize,
+      Math.max(MIN_CHUNK_SIZE, Math.ceil(items.length / (Math.max(1, this.readySlots().length) * CHUNKS_PER_WORKER)))
+    );
+    const startTime = Date.now();
+    
+    const { results, chunks, speculative, retried, processingTime } = await this.runChunks(items, chunkSize, options.onProgress);
+    
+    const durationMs = Date.now() - startTime;
+    return {
+      results,
+      performance: {
+        itemsProcessed: items.length,
+        durationMs,
+        itemsPerSecond: durationMs > 0 ? (items.length / durationMs) * 1000 : 0,
+        profile: this.currentProfile,
+        averageProcessingTime: items.length > 0 ? processingTime / items.length : 0,
+        workers: this.slots.length,
+        chunks,
+        speculativeChunks: speculative,
+        retriedChunks: retried
+      }
+    };
   }
 
   /**
-   * Get worker statistics
+   * Get pool statistics, with each worker's own statistics
    */
   async getStats(): Promise<WorkerStats> {
     if (!this.isInitialized) {
@@ -94,51 +296,97 @@ export class UltraFastWorkerManager {
         initialized: false,
         profile: this.currentProfile,
         performance: null,
-        uptime: 0
+        uptime: 0,
+        pool_size: this.slots.length,
+        health: this.getHealth()
       };
     }
     
-    return this.sendMessage('get_stats', {});
+    const workers = await Promise.all(this.readySlots().map(slot => this.sendMessage(slot, 'get_stats', {})));
+    return {
+      initialized: true,
+      profile: this.currentProfile,
+      performance: workers.map(stats => stats.performance),
+      uptime: Date.now() - this.createdAt,
+      pool_size: this.slots.length,
+      workers,
+      health: this.getHealth()
+    };
   }
 
   /**
-   * Switch analysis profile
+   * Current pool health
+   */
+  getHealth(): WorkerPoolHealth {
+    const count = (status: WorkerStatus) => this.slots.filter(slot => slot.status === status).length;
+    const ready = count('ready');
+    const recovering = count('recovering');
+    const failed = count('failed');
+    return {
+      status: ready === 0 && recovering === 0 ? 'down'
+        : recovering > 0 ? 'recovering'
+        : failed > 0 ? 'degraded'
+        : 'healthy',
+      ready,
+      recovering,
+      failed,
+      restarts: this.slots.reduce((sum, slot) => sum + slot.restarts, 0),
+      timeouts: this.timeouts,
+      retried_chunks: this.retriedChunks,
+      last_error: this.lastError,
+      workers: this.slots.map(slot => ({
+        index: slot.index, status: slot.status, restarts: slot.restarts, last_error: slot.lastError
+      }))
+    };
+  }
+
+  /**
+   * Be told whenever a worker crashes, times out, comes back or is given up on; returns an unsubscribe function
+   */
+  onHealthChange(listener: (health: WorkerPoolHealth) => void): () => void {
+    this.healthListeners.add(listener);
+    return () => { this.healthListeners.delete(listener); };
+  }
+
+  /**
+   * Switch analysis profile on every worker
    */
   async switchProfile(profile: 'lite' | 'full'): Promise<void> {
-    const result = await this.sendMessage('switch_profile', { profile });
+    const results = await Promise.all(this.readySlots().map(slot => this.sendMessage(slot, 'switch_profile', { profile })));
     
-    if (result.switched) {
+    if (results.some(result => result.switched)) {
       this.currentProfile = profile;
       console.log(`✅ Switched to ${profile} profile`);
     }
-    
-    return result;
   }
 
   /**
-   * Terminate worker and cleanup
+   * Terminate workers and cleanup
    */
   terminate(): void {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+    for (const slot of this.slots) {
+      slot.worker.terminate();
     }
+    this.slots = [];
     
     // Reject all pending requests
     this.pendingRequests.forEach(request => {
+      clearTimeout(request.timer);
       request.reject(new Error('Worker terminated'));
     });
     this.pendingRequests.clear();
+    this.healthListeners.clear();
     
     this.isInitialized = false;
-    console.log('🛑 Ultra-fast worker terminated');
+    this.profileRequested = false;
+    console.log('🛑 Ultra-fast worker pool terminated');
   }
 
   /**
-   * Check if worker is ready
+   * Check if the pool is ready
    */
   isReady(): boolean {
-    return this.isInitialized && this.worker !== null;
+    return this.isInitialized && this.readySlots().length > 0;
   }
 
   /**
@@ -148,9 +396,176 @@ export class UltraFastWorkerManager {
     return this.currentProfile;
   }
 
+  /**
+   * Number of workers in the pool
+   */
+  getPoolSize(): number {
+    return this.slots.length;
+  }
+
   // Private methods
-  private handleWorkerMessage(event: MessageEvent): void {
-    const { type, requestId, payload } = event.data;
+  private runChunks(
+    items: any[],
+    chunkSize: number,
+    onProgress?: (data: any) => void
+  ): Promise<{ results: BatchResults; chunks: number; speculative: number; retried: number; processingTime: number }> {
+    const chunks: BatchChunk[] = [];
+    for (let start = 0; start < items.length; start += chunkSize) {
+      chunks.push({
+        index: chunks.length, start, end: Math.min(start + chunkSize, items.length), copies: 0, startedAt: 0, attempts: 0
+      });
+    }
+    const retryQueue: BatchChunk[] = [];
+    const idle = new Set<WorkerSlot>(); // Workers that found nothing to do; woken when a chunk is requeued
+    const chunkResults: ColumnarResults[] = new Array(chunks.length);
+    let processingTime = 0; // Sum of per-item classification times reported by the workers
+    const completed = new Set<number>();
+    const partial = new Map<number, number>(); // Chunk index -> items a running copy reported done
+    let completedItems = 0;
+    let nextChunk = 0;
+    let speculative = 0;
+    let retried = 0;
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null; // Wakes idle workers once a chunk is due a backup
+    const startTime = Date.now();
+
+    const reportProgress = () => {
+      if (!onProgress) return;
+      let processed = completedItems;
+      partial.forEach(count => { processed += count; });
+      const elapsed = Date.now() - startTime;
+      onProgress({
+        progress: items.length > 0 ? (processed / items.length) * 100 : 100,
+        processed,
+        total: items.length,
+        rate: (elapsed > 0 ? (processed / elapsed) * 1000 : 0).toFixed(0),
+        profile: this.currentProfile,
+        workers: this.slots.length
+      });
+    };
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      if (chunks.length === 0) {
+        resolve({ results: new BatchResults([], chunkSize), chunks: 0, speculative, retried, processingTime });
+        return;
+      }
+
+      const finish = () => {
+        settled = true;
+        if (wakeTimer) clearTimeout(wakeTimer);
+      };
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        finish();
+        reject(error);
+      };
+
+      const wakeIdle = () => [...idle].forEach(waiting => dispatch(waiting));
+
+      const dispatch = (slot: WorkerSlot) => {
+        if (settled) return;
+        if (slot.status !== 'ready') {
+          // Pick the work back up once the worker is respawned
+          slot.recovery?.then(() => dispatch(slot), () => abandonIfStuck());
+          return;
+        }
+        idle.delete(slot);
+        
+        let chunk = nextChunk < chunks.length ? chunks[nextChunk++] : undefined;
+        while (!chunk && retryQueue.length > 0) {
+          const retry = retryQueue.shift()!;
+          if (!completed.has(retry.index)) chunk = retry;
+        }
+        if (!chunk) {
+          // Queue drained: back up the longest-running chunk nobody else is duplicating, once it is overdue
+          const oldest = chunks
+            .filter(c => !completed.has(c.index) && c.copies === 1)
+            .sort((a, b) => a.startedAt - b.startedAt)[0];
+          const wait = oldest ? oldest.startedAt + this.speculateAfterMs - Date.now() : 0;
+          if (!oldest || wait > 0) {
+            idle.add(slot);
+            if (oldest && !wakeTimer) {
+              wakeTimer = setTimeout(() => {
+                wakeTimer = null;
+                wakeIdle();
+              }, wait);
+            }
+            return;
+          }
+          chunk = oldest;
+          speculative++;
+        }
+        
+        const current = chunk;
+        current.copies++;
+        current.startedAt = current.startedAt || Date.now();
+        // Encoded per dispatch: the buffer is transferred, so a backup copy needs its own
+        const encoded = encodeItems(items.slice(current.start, current.end));
+        this.sendMessage(slot, 'classify_batch', {
+          items: encoded,
+          batchSize: current.end - current.start,
+          reportProgress: !!onProgress
+        }, progress => {
+          if (completed.has(current.index)) return;
+          partial.set(current.index, Math.max(partial.get(current.index) ?? 0, progress.processed));
+          reportProgress();
+        }, [encoded]).then(payload => {
+          current.copies--;
+          // The first copy to finish wins; a backed-up duplicate's late result is dropped
+          if (!completed.has(current.index)) {
+            completed.add(current.index);
+            partial.delete(current.index);
+            completedItems += current.end - current.start;
+            chunkResults[current.index] = new ColumnarResults(payload.results);
+            processingTime += payload.performance.averageProcessingTime * (current.end - current.start);
+            reportProgress();
+          }
+          if (completed.size === chunks.length) {
+            finish();
+            resolve({ results: new BatchResults(chunkResults, chunkSize), chunks: chunks.length, speculative, retried, processingTime });
+            return;
+          }
+          dispatch(slot);
+        }, error => {
+          current.copies--;
+          if (settled || completed.has(current.index)) return;
+          if (current.copies === 0) {
+            current.attempts++;
+            if (current.attempts > this.maxChunkRetries) {
+              fail(new Error(`Chunk ${current.index} failed after ${current.attempts} attempts: ${error.message}`));
+              return;
+            }
+            // Run it again from scratch; results of the failed run are never kept
+            retried++;
+            this.retriedChunks++;
+            current.startedAt = 0;
+            partial.delete(current.index);
+            retryQueue.push(current);
+            console.warn(`🔁 Retrying chunk ${current.index} (attempt ${current.attempts + 1}): ${error.message}`);
+            wakeIdle();
+          }
+          dispatch(slot);
+          abandonIfStuck();
+        });
+      };
+
+      // Fail rather than wait forever once no worker is left to run the remaining chunks
+      const abandonIfStuck = () => {
+        if (!settled && this.slots.every(slot => slot.status === 'failed')) {
+          fail(new Error(`No analysis workers left: ${this.lastError ?? 'all workers failed'}`));
+        }
+      };
+
+      for (const slot of this.slots) {
+        dispatch(slot);
+      }
+      abandonIfStuck();
+    });
+  }
+
+  private handleWorkerMessage(data: any): void {
+    const { type, requestId, payload } = data;
     const request = this.pendingRequests.get(requestId);
     
     if (!request) {
@@ -160,16 +575,18 @@ export class UltraFastWorkerManager {
 
     switch (type) {
       case 'success':
+        this.settle(request);
         request.resolve(payload);
-        this.pendingRequests.delete(requestId);
         break;
         
       case 'error':
+        this.settle(request);
         request.reject(new Error(payload.error));
-        this.pendingRequests.delete(requestId);
         break;
         
       case 'progress':
+        // A worker still reporting progress is alive, whatever the request's total duration
+        this.armTimeout(request);
         if (request.onProgress) {
           request.onProgress(payload);
         }
@@ -180,41 +597,157 @@ export class UltraFastWorkerManager {
     }
   }
 
-  private handleWorkerError(error: ErrorEvent): void {
-    console.error('Ultra-fast worker error:', error);
-    
-    // Reject all pending requests
+  private handleWorkerError(slot: WorkerSlot, error: Error): void {
+    console.error(`Ultra-fast worker ${slot.index} error:`, error);
+    this.recover(slot, new Error(`Worker error: ${error.message}`));
+  }
+
+  /**
+   * Replace a crashed or hung worker: reject its pending requests, terminate it and respawn it on the
+   * current profile. A worker that keeps failing is given up on after `maxRestarts` respawns.
+   */
+  private recover(slot: WorkerSlot, error: Error): void {
+    this.lastError = slot.lastError = error.message;
+
     this.pendingRequests.forEach(request => {
-      request.reject(new Error(`Worker error: ${error.message}`));
+      if (request.slot === slot) {
+        this.settle(request);
+        request.reject(error);
+      }
     });
-    this.pendingRequests.clear();
+    if (slot.status !== 'ready' || !this.slots.includes(slot)) {
+      // Already being respawned (this is the respawned worker failing to start) or given up on
+      if (slot.status === 'recovering') this.emitHealth();
+      return;
+    }
+
+    try {
+      slot.worker.terminate();
+    } catch {
+      // Already gone
+    }
+
+    slot.status = 'recovering';
+    slot.recovery = this.respawn(slot);
+    slot.recovery.catch(() => {}); // Callers that wait on it handle the rejection themselves
+    this.emitHealth();
+  }
+
+  private async respawn(slot: WorkerSlot): Promise<void> {
+    while (slot.restarts < this.maxRestarts) {
+      slot.restarts++;
+      console.warn(`♻️ Respawning ultra-fast worker ${slot.index} (restart ${slot.restarts}/${this.maxRestarts})`);
+      try {
+        slot.worker = this.spawnWorker(slot.index);
+        this.attach(slot);
+        if (this.profileRequested) {
+          const result = await this.sendMessage(slot, 'initialize', { profile: this.currentProfile });
+          if (!result.initialized) {
+            throw new Error(`Worker ${slot.index} did not initialize`);
+          }
+        }
+        if (!this.slots.includes(slot)) return; // Pool terminated meanwhile
+
+        slot.status = 'ready';
+        slot.recovery = null;
+        console.log(`✅ Ultra-fast worker ${slot.index} back on ${this.currentProfile} profile`);
+        this.emitHealth();
+        return;
+        
+      } catch (error) {
+        this.lastError = slot.lastError = error instanceof Error ? error.message : String(error);
+        try {
+          slot.worker.terminate();
+        } catch {
+          // Already gone
+        }
+        if (!this.slots.includes(slot)) throw error;
+      }
+    }
+
+    slot.status = 'failed';
+    slot.recovery = null;
+    console.error(`❌ Ultra-fast worker ${slot.index} failed ${slot.restarts} restarts, giving up on it`);
+    this.emitHealth();
+    throw new Error(`Worker ${slot.index} failed: ${slot.lastError}`);
+  }
+
+  private emitHealth(): void {
+    const health = this.getHealth();
+    this.healthListeners.forEach(listener => listener(health));
+  }
+
+  /**
+   * (Re)start the request's timeout; on expiry the worker is presumed hung and respawned
+   */
+  private armTimeout(request: WorkerRequest): void {
+    clearTimeout(request.timer);
+    if (!(this.requestTimeoutMs > 0)) return;
+    request.timer = setTimeout(() => {
+      if (!this.pendingRequests.has(request.id)) return;
+      this.timeouts++;
+      const error = new WorkerTimeoutError(request.type, request.slot.index, this.requestTimeoutMs);
+      console.error(`⏱️ ${error.message}`);
+      if (request.slot.status === 'ready') {
+        this.recover(request.slot, error);
+      } else {
+        // A respawned worker hanging on initialize: fail the request, respawn keeps counting attempts
+        this.settle(request);
+        request.reject(error);
+      }
+    }, this.requestTimeoutMs);
+  }
+
+  private settle(request: WorkerRequest): void {
+    clearTimeout(request.timer);
+    this.pendingRequests.delete(request.id);
+    request.slot.inFlight--;
+  }
+
+  private readySlots(): WorkerSlot[] {
+    return this.slots.filter(slot => slot.status === 'ready');
+  }
+
+  private leastBusySlot(): WorkerSlot {
+    const ready = this.readySlots();
+    if (ready.length === 0) {
+      throw new Error('Worker not available');
+    }
+    return ready.reduce((best, slot) => slot.inFlight < best.inFlight ? slot : best);
   }
 
   private async sendMessage(
+    slot: WorkerSlot,
     type: string, 
     payload: any, 
-    onProgress?: (data: any) => void
+    onProgress?: (data: any) => void,
+    transfer: Transferable[] = []
   ): Promise<any> {
     return new Promise((resolve, reject) => {
-      if (!this.worker) {
+      if (!this.slots.includes(slot)) {
         reject(new Error('Worker not available'));
         return;
       }
 
       const requestId = `req_${++this.requestIdCounter}`;
       
-      this.pendingRequests.set(requestId, {
+      const request: WorkerRequest = {
         id: requestId,
+        type,
+        slot,
         resolve,
         reject,
         onProgress
-      });
+      };
+      this.pendingRequests.set(requestId, request);
+      slot.inFlight++;
+      this.armTimeout(request);
 
-      this.worker.postMessage({
+      slot.worker.postMessage({
         type,
         payload,
         requestId
-      });
+      }, transfer);
     });
   }
 
@@ -225,12 +758,39 @@ export class UltraFastWorkerManager {
   }
 }
 
+/**
+ * Web Worker running ultraFastAnalysis.worker.ts
+ */
+function createAnalysisWorker(): PoolWorker {
+  const worker = new Worker(
+    new URL('./ultraFastAnalysis.worker.ts', import.meta.url),
+    { type: 'module' }
+  );
+  return {
+    postMessage: (message, transfer = []) => worker.postMessage(message, transfer),
+    onMessage: listener => worker.addEventListener('message', event => listener(event.data)),
+    onError: listener => worker.addEventListener('error', event => listener(new Error(event.message))),
+    terminate: () => worker.terminate()
+  };
+}
+
+/**
+ * One worker per logical core: `os.cpus()` in Node, `navigator.hardwareConcurrency` in browsers
+ */
+function defaultPoolSize(): number {
+  if (typeof process !== 'undefined' && typeof process.getBuiltinModule === 'function') {
+    const cores = process.getBuiltinModule('os').cpus().length;
+    if (cores > 0) return cores;
+  }
+  return (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 4;
+}
+
 // Singleton instance for global use
 let globalWorkerManager: UltraFastWorkerManager | null = null;
 
-export const getUltraFastWorkerManager = (): UltraFastWorkerManager => {
+export const getUltraFastWorkerManager = (options?: WorkerPoolOptions): UltraFastWorkerManager => {
   if (!globalWorkerManager) {
-    globalWorkerManager = new UltraFastWorkerManager();
+    globalWorkerManager = new UltraFastWorkerManager(options);
   }
   return globalWorkerManager;
 };
@@ -239,8 +799,18 @@ export const getUltraFastWorkerManager = (): UltraFastWorkerManager => {
  * High-level worker service for easy integration
  */
 export class WorkerAnalysisService {
-  private manager = getUltraFastWorkerManager();
   private isReady = false;
+  private pool: UltraFastWorkerManager | null = null;
+  private healthListeners = new Set<(health: WorkerPoolHealth) => void>();
+
+  // Resolved on first use, so importing this module or subscribing to health does not spawn the pool
+  private get manager(): UltraFastWorkerManager {
+    if (!this.pool) {
+      this.pool = getUltraFastWorkerManager();
+      this.pool.onHealthChange(health => this.healthListeners.forEach(listener => listener(health)));
+    }
+    return this.pool;
+  }
 
   async initialize(profile: 'lite' | 'full' = 'lite'): Promise<void> {
     await this.manager.initialize(profile);
@@ -276,13 +846,22 @@ export class WorkerAnalysisService {
     
     console.log(`🎯 Worker analysis complete: ${items.length} items in ${duration}ms`);
     
-    return result.results;
+    return result.results.toArray();
   }
 
   async getPerformanceStats() {
     return this.manager.getStats();
   }
 
+  getHealth(): WorkerPoolHealth {
+    return this.manager.getHealth();
+  }
+
+  onHealthChange(listener: (health: WorkerPoolHealth) => void): () => void {
+    this.healthListeners.add(listener);
+    return () => { this.healthListeners.delete(listener); };
+  }
+
   terminate(): void {
     this.manager.terminate();
     this.isReady = false;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ChecksumMismatchError, computeChecksum, isChecksum, verifyChecksum } from './checksum';
+
+// sha256("abc")
+const ABC = 'sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+
+describe('checksum', () => {
+  it('computes the same checksum for text and bytes', async () => {
+    expect(await computeChecksum('abc')).toBe(ABC);
+    expect(await computeChecksum(new TextEncoder().encode('abc'))).toBe(ABC);
+    expect(await computeChecksum(new TextEncoder().encode('abc').buffer)).toBe(ABC);
+  });
+
+  it('treats only sha256 values as checksums', () => {
+    expect(isChecksum(ABC)).toBe(true);
+    expect(isChecksum('auto')).toBe(false);
+    expect(isChecksum(undefined)).toBe(false);
+  });
+
+  it('accepts matching content and skips placeholders', async () => {
+    await expect(verifyChecksum('a.json', 'abc', ABC)).resolves.toBeUndefined();
+    await expect(verifyChecksum('a.json', 'tampered', 'auto')).resolves.toBeUndefined();
+    await expect(verifyChecksum('a.json', 'tampered', undefined)).resolves.toBeUndefined();
+  });
+
+  it('throws ChecksumMismatchError naming the file on mismatch', async () => {
+    const error = await verifyChecksum('registry/a.json', 'abd', ABC).catch(e => e);
+
+    expect(error).toBeInstanceOf(ChecksumMismatchError);
+    expect(error.path).toBe('registry/a.json');
+    expect(error.expected).toBe(ABC);
+    expect(error.actual).toBe(await computeChecksum('abd'));
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * File Integrity Checks
+ * SHA-256 checksums for registry packages and compiled runtime artifacts
+ */
+
+const CHECKSUM_PREFIX = 'sha256:';
+
+/**
+ * Raised when a file's content does not match its recorded checksum.
+ * Loaders that fall back on missing files must rethrow this instead of degrading silently.
+ */
+export class ChecksumMismatchError extends Error {
+  constructor(public readonly path: string, public readonly expected: string, public readonly actual: string) {
+    super(`Checksum mismatch for ${path}: expected ${expected}, got ${actual}. The file may be tampered with or incompletely copied.`);
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
+/**
+ * Compute a `sha256:<hex>` checksum using Web Crypto (available in browsers and Node 18+)
+ */
+export async function computeChecksum(data: string | ArrayBuffer | Uint8Array): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return CHECKSUM_PREFIX + hex;
+}
+
+/**
+ * Whether a manifest value is an actual checksum rather than a placeholder such as "auto"
+ */
+export function isChecksum(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(CHECKSUM_PREFIX);
+}
+
+/**
+ * Verify content against an expected checksum, throwing ChecksumMismatchError on mismatch.
+ * Placeholders and missing checksums are not verified.
+ */
+export async function verifyChecksum(
+  path: string,
+  data: string | ArrayBuffer | Uint8Array,
+  expected: string | undefined
+): Promise<void> {
+  if (!isChecksum(expected)) return;
+
+  const actual = await computeChecksum(data);
+  if (actual !== expected) {
+    throw new ChecksumMismatchError(path, expected, actual);
+  }
+}
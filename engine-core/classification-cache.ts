@@ -0,0 +1,148 @@
+/**
+ * Classification Cache
+ * Results of repeated items reused across batches and uploads: an in-memory LRU backed by an optional
+ * durable store, scoped to the fingerprint of the runtime that produced them
+ */
+import type { FastClassificationResult } from './ultra-fast-classifier';
+
+/** A result without the parts that belong to one particular item */
+export type CachedClassification = Omit<FastClassificationResult, 'item_id' | 'processing_time_ms'>;
+
+/**
+ * Durable backing store: IndexedDB in browsers, files on disk in Node
+ */
+export interface ClassificationCacheStore {
+  /**
+   * Scope the store to a runtime fingerprint; entries saved under any other are never returned
+   */
+  open(fingerprint: string): Promise<void>;
+
+  getMany(keys: string[]): Promise<Map<string, CachedClassification>>;
+
+  putMany(entries: Array<[string, CachedClassification]>): Promise<void>;
+
+  clear(): Promise<void>;
+}
+
+const DEFAULT_MAX_ENTRIES = 5000;
+
+export class ClassificationCache {
+  private entries = new Map<string, CachedClassification>(); // Least recently used first
+  private unsaved = new Map<string, CachedClassification>();
+  private fingerprint: string | null = null;
+  private maxEntries: number;
+  private store: ClassificationCacheStore | null;
+  private stats = { hits: 0, misses: 0, loaded: 0, saved: 0 };
+
+  constructor(options: { maxEntries?: number; store?: ClassificationCacheStore } = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    this.store = options.store ?? null;
+  }
+
+  /**
+   * Key of an item: its normalized text and code, which are all a classification depends on
+   */
+  static key(language: 'ar' | 'en', normalizedText: string, code?: string): string {
+    return JSON.stringify([language, normalizedText, code ?? null]);
+  }
+
+  /**
+   * Bind the cache to the runtime now loaded; results of any other runtime are dropped, in memory and in the store.
+   * A store that cannot be opened is disabled, leaving the in-memory cache.
+   */
+  async open(fingerprint: string): Promise<void> {
+    if (fingerprint !== this.fingerprint) {
+      this.entries.clear();
+      this.unsaved.clear();
+      this.fingerprint = fingerprint;
+    }
+
+    try {
+      await this.store?.open(fingerprint);
+    } catch (error) {
+      console.warn('⚠️ Classification cache store unavailable, caching in memory only:', (error as Error).message);
+      this.store = null;
+    }
+  }
+
+  get(key: string): CachedClassification | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.stats.misses++;
+      return undefined;
+    }
+
+    // Re-insert to keep the map in least recently used order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.stats.hits++;
+    return entry;
+  }
+
+  set(key: string, result: FastClassificationResult): void {
+    const { item_id, processing_time_ms, ...entry } = result;
+    this.remember(key, entry);
+    if (this.store) {
+      this.unsaved.set(key, entry);
+    }
+  }
+
+  /**
+   * Bring stored entries for the keys into memory, so `get` finds results saved by earlier runs
+   */
+  async load(keys: string[]): Promise<void> {
+    if (!this.store) return;
+    const missing = Array.from(new Set(keys)).filter(key => !this.entries.has(key));
+    if (missing.length === 0) return;
+
+    try {
+      const found = await this.store.getMany(missing);
+      found.forEach((entry, key) => this.remember(key, entry));
+      this.stats.loaded += found.size;
+    } catch (error) {
+      console.warn('⚠️ Could not read classification cache store:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Write results cached since the last flush to the store
+   */
+  async flush(): Promise<void> {
+    if (!this.store || this.unsaved.size === 0) return;
+    const entries = Array.from(this.unsaved);
+    this.unsaved.clear();
+
+    try {
+      await this.store.putMany(entries);
+      this.stats.saved += entries.length;
+    } catch (error) {
+      console.warn('⚠️ Could not write classification cache store:', (error as Error).message);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.unsaved.clear();
+    await this.store?.clear();
+  }
+
+  getStats() {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      fingerprint: this.fingerprint,
+      entries: this.entries.size,
+      max_entries: this.maxEntries,
+      persistent: !!this.store,
+      ...this.stats,
+      hit_ratio: lookups > 0 ? this.stats.hits / lookups : 0
+    };
+  }
+
+  private remember(key: string, entry: CachedClassification): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
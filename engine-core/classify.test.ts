@@ -0,0 +1,157 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { FileSystemRegistrySource } from '../adapters/node/registry-source';
+import { PackageComposer } from './compose';
+import { PTClassifier } from './classify';
+
+async function classifier(profile: 'lite' | 'full'): Promise<PTClassifier> {
+  const composer = new PackageComposer(new FileSystemRegistrySource('.'));
+  await composer.loadProfile(`profiles/runtime-${profile}.ptlock.json`);
+  return new PTClassifier(await composer.composeEngine());
+}
+
+describe.each(['lite', 'full'] as const)('PTClassifier (%s profile)', profile => {
+  let instance: PTClassifier;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    instance = await classifier(profile);
+  });
+
+  it('adds up the vocabulary hits of both segments of a mixed item', () => {
+    const arabic = instance.classify({ id: '1', name: 'عكاز' });
+    const english = instance.classify({ id: '2', name: 'walker' });
+
+    const result = instance.classify({ id: '3', name: 'عكاز walker' });
+
+    expect(result.language_detected).toBe('mixed');
+    expect(result.confidence).toBe(arabic.confidence + english.confidence);
+    const vocabulary = result.explanation.filter(step => step.stage === 'vocabulary');
+    expect(vocabulary.map(step => [step.term, step.package])).toEqual([
+      ['عكاز', 'pt.vocab.ar'],
+      ['walker', 'pt.vocab.en']
+    ]);
+  });
+
+  it('keeps the contextual boosts of both segments of a mixed item', () => {
+    const result = instance.classify({ id: '1', name: 'علاج طبيعي walker rehabilitation' });
+
+    const context = result.explanation.filter(step => step.stage === 'context');
+    expect(context.map(step => step.package)).toContain('pt.rules.ar');
+    expect(context.map(step => step.package)).toContain('pt.rules.en');
+    const deltas = result.explanation.reduce((sum, step) => sum + step.score_delta, 0);
+    expect(result.confidence).toBeCloseTo(deltas);
+  });
+
+  it('emits contextual boosts without float noise', () => {
+    const result = instance.classify({ id: '1', name: 'Treadmill rehabilitation exercise' });
+
+    const context = result.explanation.filter(step => step.stage === 'context').map(step => step.score_delta);
+    expect(context).toEqual([4, 2]);
+  });
+});
+
+describe('PTClassifier vocabulary evidence', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  const vocabulary = (result: ReturnType<PTClassifier['classify']>) =>
+    result.explanation.filter(step => step.stage === 'vocabulary').map(step => [step.term, step.score_delta]);
+
+  it('keeps only the best term in the lite profile, listing the others without a contribution', async () => {
+    const result = (await classifier('lite')).classify({ id: '1', name: 'parallel bars gait trainer' });
+
+    expect(vocabulary(result)).toEqual([['gait trainer', 30], ['parallel bars', 0]]);
+    expect(result.confidence).toBe(30);
+  });
+
+  it('accumulates further terms with diminishing weight in the full profile', async () => {
+    const result = (await classifier('full')).classify({ id: '1', name: 'parallel bars gait trainer' });
+
+    expect(vocabulary(result)).toEqual([['gait trainer', 30], ['parallel bars', 12.5]]);
+    expect(result.confidence).toBe(42.5);
+  });
+
+  it('stops accumulating after five distinct terms and counts a repeated term once', async () => {
+    const instance = await classifier('full');
+
+    const many = instance.classify({ id: '1', name: 'wheelchair walker gait trainer parallel bars treadmill goniometer' });
+    expect(vocabulary(many)).toEqual([
+      ['wheelchair', 40],
+      ['treadmill', 17.5],
+      ['walker', 7.5],
+      ['gait trainer', 3.8],
+      ['parallel bars', 1.6],
+      ['goniometer', 0]
+    ]);
+    expect(many.confidence).toBe(70.4);
+
+    const repeated = instance.classify({ id: '2', name: 'wheelchair folding wheelchair' });
+    expect(vocabulary(repeated)).toEqual([['wheelchair', 40]]);
+  });
+});
+
+describe('PTClassifier explanation schema', () => {
+  let instance: PTClassifier;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    instance = await classifier('lite');
+  });
+
+  it('names the stage, term, source package version, rule and score delta of every step', () => {
+    const result = instance.classify({ id: '1', name: 'Treadmill rehabilitation exercise' });
+
+    expect(result.explanation).toEqual([
+      {
+        stage: 'vocabulary',
+        label: 'Vocabulary hit "treadmill"',
+        term: 'treadmill',
+        package: 'pt.vocab.en',
+        version: '3.3.0',
+        rule_id: 'treadmill',
+        score_delta: 35
+      },
+      {
+        stage: 'context',
+        label: 'Contextual boost "rehabilitation"',
+        term: 'rehabilitation',
+        package: 'pt.rules.en',
+        version: '1.2.0',
+        rule_id: 'contextual_boosts.rehabilitation_context',
+        score_delta: 4
+      },
+      {
+        stage: 'context',
+        label: 'Contextual boost "exercise"',
+        term: 'exercise',
+        package: 'pt.rules.en',
+        version: '1.2.0',
+        rule_id: 'contextual_boosts.therapy_context',
+        score_delta: 2
+      },
+      {
+        stage: 'threshold',
+        label: 'Confidence 41 meets threshold 35',
+        package: 'pt.rules.en',
+        version: '1.2.0',
+        rule_id: 'thresholds.high_confidence',
+        score_delta: 0
+      }
+    ]);
+  });
+
+  it('explains a blocked item with the blocking rule alone', () => {
+    const result = instance.classify({ id: '1', name: 'CT scanner head' });
+
+    expect(result.explanation).toEqual([{
+      stage: 'blocker',
+      label: 'Blocked by exclusion rule "ct scanner"',
+      term: 'ct scanner',
+      package: 'pt.rules.en',
+      version: '1.2.0',
+      rule_id: 'hard_blockers.diagnostic_imaging',
+      score_delta: 0
+    }]);
+  });
+});
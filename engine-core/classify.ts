@@ -2,27 +2,72 @@
  * PT Classification Engine
  * Advanced PT relevance detection with confidence scoring
  */
-import type { ComposedEngine, ClassificationResult, Item } from './types';
+import type { ComposedEngine, ClassificationResult, DetectedLanguage, ExplanationStep, Item, RuleSet } from './types';
+import {
+  TermMatcher,
+  buildTermAutomaton,
+  type BlockerTermData,
+  type BoostTermData,
+  type PreparedText,
+  type TermAutomaton,
+  type TermEntry,
+  type VocabularyTermData
+} from './term-matcher';
+import { createNormalizer } from './normalizer';
+import { roundScoreDelta } from './explanation';
+
+// An Arabic run starts and ends with an Arabic character; spaces, digits and punctuation inside it belong to it
+const ARABIC_RUN = /[\u0600-\u06FF](?:[\u0600-\u06FF\s\d.,\-\/()]*[\u0600-\u06FF])?/g;
+const ARABIC_CHAR = /[\u0600-\u06FF]/;
+const LATIN_LETTER = /[a-z]/;
+
+// Evidence accumulation stops after this many distinct terms
+const MAX_EVIDENCE_TERMS = 5;
+
+interface VocabularyHit {
+  /** Canonical form of the matched concept */
+  concept: string;
+  term: string;
+  score: number;
+  /** Points this hit added to the vocabulary score after ranking */
+  contribution: number;
+  category?: string;
+  pt_domain?: string;
+}
+
+interface VocabularyMatch {
+  score: number;
+  category?: string;
+  pt_domain?: string;
+  hits: VocabularyHit[];
+}
 
 export class PTClassifier {
   private engine: ComposedEngine;
   private arabicNormalizer: (text: string) => string;
   private englishNormalizer: (text: string) => string;
+  private matcher = new TermMatcher();
+  private automata: Record<'ar' | 'en', TermAutomaton>;
 
   constructor(engine: ComposedEngine) {
     this.engine = engine;
-    this.arabicNormalizer = this.createNormalizer(engine.normalizers.ar);
-    this.englishNormalizer = this.createNormalizer(engine.normalizers.en);
+    this.arabicNormalizer = createNormalizer(engine.normalizers.ar);
+    this.englishNormalizer = createNormalizer(engine.normalizers.en);
+    this.automata = {
+      ar: buildTermAutomaton('ar', engine.vocabularies.ar, engine.rules.ar, engine.brands ?? []),
+      en: buildTermAutomaton('en', engine.vocabularies.en, engine.rules.en, engine.brands ?? [])
+    };
   }
 
   classify(item: Item): ClassificationResult {
     const text = (item.name + ' ' + (item.description || '')).toLowerCase();
     const language = this.detectLanguage(text);
     
-    // Normalize text
-    const normalized = language === 'ar' 
-      ? this.arabicNormalizer(text)
-      : this.englishNormalizer(text);
+    // Normalize text, each script segment with its own normalizer
+    const segments = this.segmentText(text, language);
+
+    // Find every vocabulary, blocker, boost and brand term of each segment in one pass
+    const segmentHits = segments.map(segment => this.automata[segment.language].find(segment));
 
     // Multi-stage classification
     const result: ClassificationResult = {
@@ -32,14 +77,18 @@ export class PTClassifier {
       category: null,
       pt_domain: null,
       explanation: [],
-      language_detected: language
+      language_detected: language,
+      fingerprint: this.engine.reproducibility?.fingerprint
     };
 
     // Stage 1: Hard blockers
-    if (this.checkBlockers(normalized, language)) {
-      result.confidence = 0;
-      result.explanation.push('Blocked by exclusion rules');
-      return result;
+    for (const [i, segment] of segments.entries()) {
+      const blocker = this.checkBlockers(segment, segmentHits[i]);
+      if (blocker) {
+        result.confidence = 0;
+        result.explanation.push(blocker);
+        return result;
+      }
     }
 
     // Stage 2: NUPCO code analysis (if available)
@@ -49,165 +98,224 @@ export class PTClassifier {
       if (nupcoScore.category) {
         result.category = nupcoScore.category;
       }
-      result.explanation.push(`NUPCO analysis: ${nupcoScore.score}`);
+      result.explanation.push(nupcoScore.step);
     }
 
     // Stage 3: Vocabulary matching
-    const vocabScore = this.matchVocabulary(normalized, language);
-    result.confidence += vocabScore.score;
-    if (vocabScore.category) {
-      result.category = result.category || vocabScore.category;
-      result.pt_domain = vocabScore.pt_domain;
+    // Each script segment is scored against its own vocabulary and the scores add up;
+    // the category comes from the segment with the strongest evidence
+    const segmentScores = segmentHits.map(hits => this.matchVocabulary(hits));
+    const bestSegment = segmentScores.reduce((best, score, i) => score.score > segmentScores[best].score ? i : best, 0);
+    result.confidence += segmentScores.reduce((sum, score) => sum + score.score, 0);
+    if (segmentScores[bestSegment].category) {
+      result.category = result.category || segmentScores[bestSegment].category;
+      result.pt_domain = segmentScores[bestSegment].pt_domain;
     }
-    result.explanation.push(`Vocabulary match: ${vocabScore.score}`);
+    segmentScores.forEach((vocabScore, i) => {
+      const vocabPackage = `pt.vocab.${segments[i].language}`;
+      for (const hit of vocabScore.hits) {
+        result.explanation.push({
+          stage: 'vocabulary',
+          label: hit.contribution === hit.score
+            ? `Vocabulary hit "${hit.term}"`
+            : `Vocabulary hit "${hit.term}" (term score ${hit.score})`,
+          term: hit.term,
+          ...this.source(vocabPackage),
+          rule_id: hit.concept,
+          score_delta: hit.contribution
+        });
+      }
+    });
 
-    // Stage 4: Contextual scoring
-    const contextScore = this.applyContextualRules(normalized, language);
-    result.confidence += contextScore;
-    result.explanation.push(`Contextual boost: ${contextScore}`);
+    // Stage 4: Contextual scoring, with the rules of each segment's language
+    const contextSteps = segments.flatMap((segment, i) => this.applyContextualRules(segment, segmentHits[i]));
+    result.confidence += this.sumDeltas(contextSteps);
+    result.explanation.push(...contextSteps);
 
     // Stage 5: Brand intelligence (if available)
     if (this.engine.brands) {
-      const brandScore = this.analyzeBrands(normalized);
-      result.confidence += brandScore;
-      result.explanation.push(`Brand analysis: ${brandScore}`);
+      const brandStep = this.analyzeBrands(segmentHits);
+      if (brandStep) {
+        result.confidence += brandStep.score_delta;
+        result.explanation.push(brandStep);
+      }
     }
 
     // Final determination
-    const threshold = language === 'ar' 
-      ? this.engine.rules.ar.scoring.thresholds.high_confidence
-      : this.engine.rules.en.scoring.thresholds?.high_confidence || 45;
+    const threshold = this.getThresholds(language).high_confidence;
 
     result.is_pt = result.confidence >= threshold;
+    result.explanation.push({
+      stage: 'threshold',
+      label: `Confidence ${Math.round(result.confidence)} ${result.is_pt ? 'meets' : 'is below'} threshold ${threshold}`,
+      ...(language === 'mixed' ? {} : this.source(`pt.rules.${language}`)),
+      rule_id: 'thresholds.high_confidence',
+      score_delta: 0
+    });
     result.confidence = Math.min(Math.max(result.confidence, 0), 100);
 
     return result;
   }
 
-  private detectLanguage(text: string): 'ar' | 'en' {
-    const arabicPattern = /[\u0600-\u06FF]/;
-    return arabicPattern.test(text) ? 'ar' : 'en';
-  }
+  /**
+   * Decision thresholds for a detected language. Mixed items must clear the stricter of the two rule sets.
+   */
+  getThresholds(language: DetectedLanguage): RuleSet['scoring']['thresholds'] {
+    if (language !== 'mixed') {
+      return this.engine.rules[language].scoring.thresholds;
+    }
 
-  private createNormalizer(rules: any): (text: string) => string {
-    return (text: string) => {
-      let normalized = text;
-      
-      for (const step of rules.processing_order) {
-        const rule = rules[step];
-        if (typeof rule === 'object' && rule.pattern) {
-          normalized = normalized.replace(new RegExp(rule.pattern, 'g'), rule.replacement);
-        } else if (typeof rule === 'object') {
-          for (const [from, to] of Object.entries(rule)) {
-            normalized = normalized.replace(new RegExp(from, 'g'), to as string);
-          }
-        }
-      }
-      
-      return normalized.trim();
+    const ar = this.engine.rules.ar.scoring.thresholds;
+    const en = this.engine.rules.en.scoring.thresholds;
+    return {
+      high_confidence: Math.max(ar.high_confidence, en.high_confidence),
+      medium_confidence: Math.max(ar.medium_confidence, en.medium_confidence),
+      low_confidence: Math.max(ar.low_confidence, en.low_confidence),
+      rejection_threshold: Math.max(ar.rejection_threshold, en.rejection_threshold)
     };
   }
 
-  private checkBlockers(text: string, language: 'ar' | 'en'): boolean {
-    const blockers = this.engine.rules[language].filters.hard_blockers;
-    
-    for (const category of Object.values(blockers)) {
-      for (const blocker of category as string[]) {
-        if (text.includes(blocker.toLowerCase())) {
-          return true;
-        }
-      }
+  private detectLanguage(text: string): DetectedLanguage {
+    if (!ARABIC_CHAR.test(text)) return 'en';
+    return LATIN_LETTER.test(text.replace(ARABIC_RUN, ' ')) ? 'mixed' : 'ar';
+  }
+
+  /**
+   * Split mixed text into an Arabic and a Latin-script segment; single-language text stays whole
+   */
+  private segmentText(text: string, language: DetectedLanguage): PreparedText[] {
+    if (language === 'ar') {
+      return [this.matcher.prepare(this.arabicNormalizer(text), 'ar')];
     }
-    
-    return false;
+    if (language === 'en') {
+      return [this.matcher.prepare(this.englishNormalizer(text), 'en')];
+    }
+
+    const arabic = (text.match(ARABIC_RUN) || []).join(' ');
+    const latin = text.replace(ARABIC_RUN, ' ');
+    return [
+      this.matcher.prepare(this.arabicNormalizer(arabic), 'ar'),
+      this.matcher.prepare(this.englishNormalizer(latin), 'en')
+    ];
   }
 
-  private analyzeNupcoCode(code: string): { score: number; category?: string } {
-    if (!this.engine.nupco) return { score: 0 };
-    
+  private checkBlockers(text: PreparedText, hits: TermEntry[]): ExplanationStep | null {
+    const blocker = hits.find(hit => hit.kind === 'blocker') as TermEntry<BlockerTermData> | undefined;
+    if (!blocker) return null;
+
+    return {
+      stage: 'blocker',
+      label: `Blocked by exclusion rule "${blocker.term}"`,
+      term: blocker.term,
+      ...this.source(`pt.rules.${text.language}`),
+      rule_id: `hard_blockers.${blocker.data.category}`,
+      score_delta: 0
+    };
+  }
+
+  private analyzeNupcoCode(code: string): { score: number; category?: string; step: ExplanationStep } {
     const prefix = code.substring(0, 2);
-    const mapping = this.engine.nupco.codes.prefix_mapping[prefix];
+    const mapping = this.engine.nupco?.codes.prefix_mapping[prefix];
+    const step = (score: number, label: string): ExplanationStep => ({
+      stage: 'nupco',
+      label,
+      ...this.source('pt.nupco.core'),
+      rule_id: mapping ? `prefix_mapping.${prefix}` : undefined,
+      score_delta: score
+    });
     
-    if (!mapping) return { score: 0 };
+    if (!mapping) return { score: 0, step: step(0, `No NUPCO rule for code prefix ${prefix}`) };
     
+    const label = `NUPCO prefix ${prefix} (${mapping.pt_relevance} relevance)`;
     switch (mapping.pt_relevance) {
-      case 'high': return { score: 30, category: mapping.category };
-      case 'medium': return { score: 15, category: mapping.category };
-      case 'exclude': return { score: -50 };
-      default: return { score: 0 };
+      case 'high': return { score: 30, category: mapping.category, step: step(30, label) };
+      case 'medium': return { score: 15, category: mapping.category, step: step(15, label) };
+      case 'exclude': return { score: -50, step: step(-50, label) };
+      default: return { score: 0, step: step(0, label) };
     }
   }
 
-  private matchVocabulary(text: string, language: 'ar' | 'en'): 
-    { score: number; category?: string; pt_domain?: string } {
-    const vocab = this.engine.vocabularies[language];
-    let maxScore = 0;
-    let bestMatch = null;
-
-    // Check include terms
-    for (const term of vocab.include) {
-      if (text.includes(term.term)) {
-        if (term.score > maxScore) {
-          maxScore = term.score;
-          bestMatch = term;
-        }
+  private matchVocabulary(matches: TermEntry[]): VocabularyMatch {
+    // Collect every matched concept once; a canonical term and its synonyms are one concept
+    const hits = new Map<string, VocabularyHit>();
+    for (const { kind, term, data } of matches as TermEntry<VocabularyTermData>[]) {
+      if (kind !== 'vocabulary' || data.score <= 0) continue;
+      const key = data.concept.toLowerCase();
+      const existing = hits.get(key);
+      if (!existing || data.score > existing.score) {
+        hits.set(key, {
+          concept: data.concept,
+          term,
+          score: data.score,
+          contribution: 0,
+          category: data.category,
+          pt_domain: data.pt_domain
+        });
       }
     }
 
-    // Check synonym shards
-    for (const [shard, synonyms] of Object.entries(vocab.shards)) {
-      for (const synonym of synonyms as any[]) {
-        if (text.includes(synonym.canonical)) {
-          if (synonym.score > maxScore) {
-            maxScore = synonym.score;
-            bestMatch = synonym;
-          }
-        }
-        // Check synonym variants
-        for (const variant of synonym.synonyms || []) {
-          if (text.includes(variant)) {
-            if (synonym.score > maxScore) {
-              maxScore = synonym.score;
-              bestMatch = synonym;
-            }
-          }
-        }
-      }
-    }
+    // Rank hits; the best always counts in full, the rest only when accumulating evidence
+    const ranked = Array.from(hits.values()).sort((a, b) => b.score - a.score);
+    const accumulate = this.engine.config.vocabulary_scoring === 'accumulate';
+    const decay = this.engine.config.evidence_decay ?? 0.5;
+    ranked.forEach((hit, rank) => {
+      const weight = rank === 0 ? 1 : accumulate && rank < MAX_EVIDENCE_TERMS ? Math.pow(decay, rank) : 0;
+      hit.contribution = Math.round(hit.score * weight * 10) / 10;
+    });
 
+    const best = ranked[0];
+    const total = ranked.reduce((sum, hit) => sum + hit.contribution, 0);
     return {
-      score: maxScore,
-      category: bestMatch?.category,
-      pt_domain: bestMatch?.pt_domain
+      score: Math.round(total * 10) / 10,
+      category: best?.category,
+      pt_domain: best?.pt_domain,
+      hits: ranked
     };
   }
 
-  private applyContextualRules(text: string, language: 'ar' | 'en'): number {
-    const rules = this.engine.rules[language].scoring.contextual_boosts;
-    let totalBoost = 0;
-
-    for (const [ruleName, rule] of Object.entries(rules)) {
-      const ruleObj = rule as { keywords: string[]; boost_factor: number };
-      for (const keyword of ruleObj.keywords) {
-        if (text.includes(keyword)) {
-          totalBoost += (ruleObj.boost_factor - 1) * 20; // Convert factor to points
-          break;
-        }
-      }
+  private applyContextualRules(text: PreparedText, hits: TermEntry[]): ExplanationStep[] {
+    const steps: ExplanationStep[] = [];
+    const applied = new Set<string>();
+
+    // Each rule boosts once, for its first keyword found
+    for (const { kind, term, data } of hits as TermEntry<BoostTermData>[]) {
+      if (kind !== 'boost' || applied.has(data.rule)) continue;
+      applied.add(data.rule);
+      steps.push({
+        stage: 'context',
+        label: `Contextual boost "${term}"`,
+        term,
+        ...this.source(`pt.rules.${text.language}`),
+        rule_id: `contextual_boosts.${data.rule}`,
+        score_delta: roundScoreDelta((data.boost_factor - 1) * 20) // Convert factor to points
+      });
     }
 
-    return totalBoost;
+    return steps;
   }
 
-  private analyzeBrands(text: string): number {
-    if (!this.engine.brands) return 0;
-    
-    for (const brand of this.engine.brands) {
-      if (text.includes(brand.brand.toLowerCase())) {
-        return brand.pt_focus ? brand.reputation_score * 0.2 : 0;
-      }
-    }
-    
-    return 0;
+  private analyzeBrands(segmentHits: TermEntry[][]): ExplanationStep | null {
+    if (!this.engine.brands) return null;
+
+    const found = new Set(segmentHits.flat().filter(hit => hit.kind === 'brand').map(hit => hit.data));
+    const brand = this.engine.brands.find(candidate => found.has(candidate));
+    if (!brand) return null;
+
+    return {
+      stage: 'brand',
+      label: brand.pt_focus ? `PT-focused brand ${brand.brand}` : `Brand ${brand.brand} is not PT-focused`,
+      term: brand.brand,
+      ...this.source('pt.brands.core'),
+      rule_id: brand.brand,
+      score_delta: brand.pt_focus ? roundScoreDelta(brand.reputation_score * 0.2) : 0
+    };
+  }
+
+  private source(packageName: string): Pick<ExplanationStep, 'package' | 'version'> {
+    return { package: packageName, version: this.engine.packages?.[packageName] };
+  }
+
+  private sumDeltas(steps: ExplanationStep[]): number {
+    return steps.reduce((sum, step) => sum + step.score_delta, 0);
   }
-}
\ No newline at end of file
+}
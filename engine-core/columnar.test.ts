@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnarResults, decodeItems, encodeItems, encodeResults } from './columnar';
+import type { ClassificationInput, FastClassificationResult } from './ultra-fast-classifier';
+
+const items: ClassificationInput[] = [
+  { id: '1', name: 'كرسي متحرك', description: 'قابل للطي', code: '4410' },
+  { id: '2', name: 'Wheelchair' },
+  { id: '3', name: 'Wheelchair', code: '' },
+  { id: '4', name: '', description: '' }
+];
+
+const results: FastClassificationResult[] = [
+  {
+    item_id: '1',
+    is_pt: true,
+    confidence: 72.5,
+    category: 'mobility',
+    pt_domain: 'mobility_aids',
+    language: 'ar',
+    processing_time_ms: 0.25,
+    matched_terms: ['كرسي متحرك', 'كرسي'],
+    explanation: [
+      { stage: 'vocabulary', label: 'Token match "كرسي متحرك"', term: 'كرسي متحرك', package: 'pt.vocab.ar', version: '3.3.0', score_delta: 40 },
+      { stage: 'threshold', label: 'Confidence 72 meets threshold 45', package: 'pt.rules.ar', version: '1.2.0', rule_id: 'thresholds.high_confidence', score_delta: 0 }
+    ],
+    fingerprint: 'runtime-full@1.0.0'
+  },
+  {
+    item_id: '2',
+    is_pt: false,
+    confidence: 0,
+    category: null,
+    pt_domain: null,
+    language: 'en',
+    processing_time_ms: 0.5,
+    matched_terms: [],
+    explanation: [{ stage: 'prefilter', label: 'Bloom filter found no PT terms', score_delta: 0 }],
+    fingerprint: null
+  }
+];
+
+describe('columnar items', () => {
+  it('round-trips items, keeping empty strings apart from missing fields', () => {
+    expect(decodeItems(encodeItems(items))).toEqual(items);
+  });
+
+  it('round-trips an empty batch', () => {
+    expect(decodeItems(encodeItems([]))).toEqual([]);
+  });
+
+  it('rejects a results buffer', () => {
+    expect(() => decodeItems(encodeResults(results))).toThrow(/not a PTCI/);
+  });
+});
+
+describe('columnar results', () => {
+  it('round-trips results with their explanations', () => {
+    const decoded = new ColumnarResults(encodeResults(results));
+
+    expect(decoded.length).toBe(2);
+    expect(decoded.toArray()).toEqual(results);
+    expect([...decoded]).toEqual(results);
+  });
+
+  it('reads decision columns without expanding rows', () => {
+    const decoded = new ColumnarResults(encodeResults(results));
+
+    expect([decoded.isPt(0), decoded.confidence(0), decoded.category(0)]).toEqual([true, 72.5, 'mobility']);
+    expect([decoded.isPt(1), decoded.confidence(1), decoded.category(1)]).toEqual([false, 0, null]);
+  });
+
+  it('stores confidences as float32', () => {
+    const decoded = new ColumnarResults(encodeResults([{ ...results[1], confidence: 0.1 }]));
+
+    expect(decoded.confidence(0)).toBe(Math.fround(0.1));
+  });
+});
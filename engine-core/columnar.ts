@@ -0,0 +1,222 @@
+/**
+ * Columnar Batch Payloads
+ * Classification items and results as string tables plus typed-array columns in one ArrayBuffer,
+ * so worker messages can transfer them instead of structured-cloning thousands of objects
+ */
+import { BinaryReader, BinaryWriter, NONE } from './indexers/binary';
+import type { ExplanationStage, ExplanationStep } from './types';
+import type { ClassificationInput, FastClassificationResult } from './ultra-fast-classifier';
+
+const ITEMS_MAGIC = 'PTCI';
+const RESULTS_MAGIC = 'PTCR';
+
+const ITEM_SECTION = {
+  id: 0,
+  name: 1,
+  description: 2,
+  code: 3
+};
+
+const RESULT_SECTION = {
+  itemId: 0,
+  isPt: 1,
+  confidence: 2,
+  category: 3,
+  ptDomain: 4,
+  language: 5,
+  processingTime: 6,
+  fingerprint: 7,
+  termOffsets: 8, // Per result: its matched terms are terms[termOffsets[i]..termOffsets[i + 1]]
+  terms: 9,
+  stepOffsets: 10, // Per result, as termOffsets, into the step columns below
+  stepStage: 11,
+  stepLabel: 12,
+  stepTerm: 13,
+  stepPackage: 14,
+  stepVersion: 15,
+  stepRuleId: 16,
+  stepScoreDelta: 17
+};
+
+const LANGUAGES = ['ar', 'en'] as const;
+
+type ResultColumns = {
+  [K in keyof typeof RESULT_SECTION]: Uint8Array | Uint32Array | Float32Array;
+};
+
+/**
+ * Encode items for a worker; repeated names and codes are stored once
+ */
+export function encodeItems(items: ClassificationInput[]): ArrayBuffer {
+  const writer = new BinaryWriter();
+  const ids = (value: (item: ClassificationInput) => string | undefined) =>
+    items.map(item => optionalString(writer, value(item)));
+
+  writer.addUint32(ids(item => item.id));
+  writer.addUint32(ids(item => item.name));
+  writer.addUint32(ids(item => item.description));
+  writer.addUint32(ids(item => item.code));
+  return writer.finish(ITEMS_MAGIC);
+}
+
+export function decodeItems(buffer: ArrayBuffer): ClassificationInput[] {
+  const reader = new BinaryReader(buffer, ITEMS_MAGIC, 'Columnar items');
+  const id = reader.uint32(ITEM_SECTION.id);
+  const name = reader.uint32(ITEM_SECTION.name);
+  const description = reader.uint32(ITEM_SECTION.description);
+  const code = reader.uint32(ITEM_SECTION.code);
+
+  return Array.from(id, (_, i) => {
+    const item: ClassificationInput = { id: reader.string(id[i]), name: reader.string(name[i]) };
+    if (description[i] !== NONE) item.description = reader.string(description[i]);
+    if (code[i] !== NONE) item.code = reader.string(code[i]);
+    return item;
+  });
+}
+
+/**
+ * Encode results, explanations included; confidence, timings and score deltas travel as float32
+ */
+export function encodeResults(results: FastClassificationResult[]): ArrayBuffer {
+  const writer = new BinaryWriter();
+  const steps = results.flatMap(result => result.explanation);
+
+  writer.addUint32(results.map(result => writer.string(result.item_id)));
+  writer.addUint8(results.map(result => result.is_pt ? 1 : 0));
+  writer.addFloat32(results.map(result => result.confidence));
+  writer.addUint32(results.map(result => optionalString(writer, result.category)));
+  writer.addUint32(results.map(result => optionalString(writer, result.pt_domain)));
+  writer.addUint8(results.map(result => LANGUAGES.indexOf(result.language)));
+  writer.addFloat32(results.map(result => result.processing_time_ms));
+  writer.addUint32(results.map(result => optionalString(writer, result.fingerprint)));
+
+  writer.addUint32(offsets(results.map(result => result.matched_terms.length)));
+  writer.addUint32(results.flatMap(result => result.matched_terms.map(term => writer.string(term))));
+
+  writer.addUint32(offsets(results.map(result => result.explanation.length)));
+  writer.addUint32(steps.map(step => writer.string(step.stage)));
+  writer.addUint32(steps.map(step => writer.string(step.label)));
+  writer.addUint32(steps.map(step => optionalString(writer, step.term)));
+  writer.addUint32(steps.map(step => optionalString(writer, step.package)));
+  writer.addUint32(steps.map(step => optionalString(writer, step.version)));
+  writer.addUint32(steps.map(step => optionalString(writer, step.rule_id)));
+  writer.addFloat32(steps.map(step => step.score_delta));
+  return writer.finish(RESULTS_MAGIC);
+}
+
+/**
+ * Results read straight from the columns; the decision, confidence and category of a row are
+ * available without building its result object, which `get` builds only when asked
+ */
+export class ColumnarResults {
+  readonly length: number;
+  private reader: BinaryReader;
+  private columns: ResultColumns;
+
+  constructor(buffer: ArrayBuffer) {
+    const reader = new BinaryReader(buffer, RESULTS_MAGIC, 'Columnar results');
+    this.reader = reader;
+    // Views over the buffer; nothing is copied
+    this.columns = {
+      itemId: reader.uint32(RESULT_SECTION.itemId),
+      isPt: reader.uint8(RESULT_SECTION.isPt),
+      confidence: reader.float32(RESULT_SECTION.confidence),
+      category: reader.uint32(RESULT_SECTION.category),
+      ptDomain: reader.uint32(RESULT_SECTION.ptDomain),
+      language: reader.uint8(RESULT_SECTION.language),
+      processingTime: reader.float32(RESULT_SECTION.processingTime),
+      fingerprint: reader.uint32(RESULT_SECTION.fingerprint),
+      termOffsets: reader.uint32(RESULT_SECTION.termOffsets),
+      terms: reader.uint32(RESULT_SECTION.terms),
+      stepOffsets: reader.uint32(RESULT_SECTION.stepOffsets),
+      stepStage: reader.uint32(RESULT_SECTION.stepStage),
+      stepLabel: reader.uint32(RESULT_SECTION.stepLabel),
+      stepTerm: reader.uint32(RESULT_SECTION.stepTerm),
+      stepPackage: reader.uint32(RESULT_SECTION.stepPackage),
+      stepVersion: reader.uint32(RESULT_SECTION.stepVersion),
+      stepRuleId: reader.uint32(RESULT_SECTION.stepRuleId),
+      stepScoreDelta: reader.float32(RESULT_SECTION.stepScoreDelta)
+    };
+    this.length = this.columns.isPt.length;
+  }
+
+  isPt(index: number): boolean {
+    return this.columns.isPt[index] === 1;
+  }
+
+  confidence(index: number): number {
+    return this.columns.confidence[index];
+  }
+
+  category(index: number): string | null {
+    return this.optional(this.columns.category[index]) ?? null;
+  }
+
+  /**
+   * Expand one row into a full result object
+   */
+  get(index: number): FastClassificationResult {
+    const columns = this.columns;
+
+    const explanation: ExplanationStep[] = [];
+    for (let s = columns.stepOffsets[index]; s < columns.stepOffsets[index + 1]; s++) {
+      const step: ExplanationStep = {
+        stage: this.reader.string(columns.stepStage[s]) as ExplanationStage,
+        label: this.reader.string(columns.stepLabel[s]),
+        score_delta: columns.stepScoreDelta[s]
+      };
+      const term = this.optional(columns.stepTerm[s]);
+      const packageName = this.optional(columns.stepPackage[s]);
+      const version = this.optional(columns.stepVersion[s]);
+      const ruleId = this.optional(columns.stepRuleId[s]);
+      if (term !== undefined) step.term = term;
+      if (packageName !== undefined) step.package = packageName;
+      if (version !== undefined) step.version = version;
+      if (ruleId !== undefined) step.rule_id = ruleId;
+      explanation.push(step);
+    }
+
+    const terms = columns.terms.subarray(columns.termOffsets[index], columns.termOffsets[index + 1]);
+    return {
+      item_id: this.reader.string(columns.itemId[index]),
+      is_pt: this.isPt(index),
+      confidence: this.confidence(index),
+      category: this.category(index),
+      pt_domain: this.optional(columns.ptDomain[index]) ?? null,
+      language: LANGUAGES[columns.language[index]],
+      processing_time_ms: columns.processingTime[index],
+      matched_terms: Array.from(terms, id => this.reader.string(id)),
+      explanation,
+      fingerprint: this.optional(columns.fingerprint[index]) ?? null
+    };
+  }
+
+  toArray(): FastClassificationResult[] {
+    return Array.from({ length: this.length }, (_, i) => this.get(i));
+  }
+
+  *[Symbol.iterator](): IterableIterator<FastClassificationResult> {
+    for (let i = 0; i < this.length; i++) {
+      yield this.get(i);
+    }
+  }
+
+  private optional(id: number): string | undefined {
+    return id === NONE ? undefined : this.reader.string(id);
+  }
+}
+
+function optionalString(writer: BinaryWriter, value: string | null | undefined): number {
+  return value === null || value === undefined ? NONE : writer.string(value);
+}
+
+/**
+ * Prefix sums of per-row counts: row i spans [offsets[i], offsets[i + 1])
+ */
+function offsets(counts: number[]): number[] {
+  const result = [0];
+  for (const count of counts) {
+    result.push(result[result.length - 1] + count);
+  }
+  return result;
+}
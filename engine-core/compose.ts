@@ -2,131 +2,189 @@
  * Package Composition Engine
  * Loads and merges PT packages into runtime format
  */
-import type { 
-  PackageManifest, 
-  RuntimeConfig, 
+import type {
+  PackageManifest,
+  RuntimeConfig,
   ComposedEngine,
-  PTProfile 
+  PTProfile,
+  RegistrySource,
+  ResolvedPackage
 } from './types';
+import { HttpRegistrySource } from './registry-source';
+import { PackageResolver } from './resolver';
+import { verifyChecksum } from './checksum';
+import { computeReproducibilityStamp } from './fingerprint';
 
 export class PackageComposer {
   private loadedPackages: Map<string, any> = new Map();
+  private resolvedPackages: ResolvedPackage[] = [];
+  private expectedChecksums: Map<string, string> = new Map();
   private profile: PTProfile | null = null;
+  private source: RegistrySource;
 
+  constructor(source: RegistrySource = new HttpRegistrySource()) {
+    this.source = source;
+  }
+
+  /**
+   * Load a profile by its path relative to the registry root, e.g. `profiles/runtime-lite.ptlock.json`
+   */
   async loadProfile(profilePath: string): Promise<void> {
-    const response = await fetch(profilePath);
-    this.profile = await response.json();
+    this.profile = await this.fetchJson(profilePath);
     console.log(`Loaded PT profile: ${this.profile?.profile_name}`);
   }
 
+  /**
+   * Pin the loaded profile to exact package versions, e.g. those recorded in a reproducibility
+   * fingerprint. Packages without a pinned version are dropped, so nothing else is resolved.
+   */
+  pinVersions(versions: Record<string, string>): void {
+    if (!this.profile) {
+      throw new Error('Profile must be loaded before pinning versions');
+    }
+
+    const packages: PTProfile['packages'] = {};
+    for (const [name, version] of Object.entries(versions)) {
+      const ref = this.profile.packages[name];
+      packages[name] = ref && typeof ref !== 'string' ? { ...ref, version } : version;
+    }
+    this.profile = { ...this.profile, packages };
+  }
+
   async composeEngine(): Promise<ComposedEngine> {
     if (!this.profile) {
       throw new Error('Profile must be loaded before composing engine');
     }
 
+    // Resolve version ranges, then load packages so dependencies come first
+    this.resolvedPackages = await new PackageResolver(this.source).resolve(this.profile);
+    this.collectChecksums(this.resolvedPackages);
+    this.loadedPackages.clear();
+    for (const pkg of this.resolvedPackages) {
+      const data = await this.loadPackage(pkg);
+      if (data !== undefined) {
+        this.loadedPackages.set(pkg.name, data);
+      }
+    }
+
     const engine: ComposedEngine = {
-      taxonomy: await this.loadTaxonomy(),
-      normalizers: await this.loadNormalizers(),
-      vocabularies: await this.loadVocabularies(),
-      rules: await this.loadRules(),
-      brands: this.profile.features.brand_intelligence ? await this.loadBrands() : null,
-      nupco: this.profile.features.nupco_integration ? await this.loadNupco() : null,
-      config: this.profile.runtime_config
+      taxonomy: this.requirePackage('pt.taxonomy.core'),
+      normalizers: {
+        ar: this.requirePackage('pt.normalization.ar'),
+        en: this.requirePackage('pt.normalization.en')
+      },
+      vocabularies: {
+        ar: this.requirePackage('pt.vocab.ar'),
+        en: this.requirePackage('pt.vocab.en')
+      },
+      rules: {
+        ar: this.requirePackage('pt.rules.ar'),
+        en: this.requirePackage('pt.rules.en')
+      },
+      brands: this.loadedPackages.get('pt.brands.core') ?? null,
+      nupco: this.loadedPackages.get('pt.nupco.core') ?? null,
+      config: this.profile.runtime_config,
+      packages: Object.fromEntries(this.resolvedPackages.map(pkg => [pkg.name, pkg.version]))
     };
+    engine.reproducibility = await computeReproducibilityStamp(this.profile, engine.packages!, engine.rules);
 
     console.log('PT Engine composition complete');
     return engine;
   }
 
-  private async loadTaxonomy() {
-    const version = this.profile!.packages['pt.taxonomy.core'];
-    const path = `/pt/registry/pt.taxonomy.core/${version}/categories.json`;
-    return await this.fetchJson(path);
+  /**
+   * Packages selected by the last composeEngine() call, in load order
+   */
+  getResolvedPackages(): ResolvedPackage[] {
+    return this.resolvedPackages;
   }
 
-  private async loadNormalizers() {
-    const arVersion = this.profile!.packages['pt.normalization.ar'];
-    const enVersion = this.profile!.packages['pt.normalization.en'];
-    
-    return {
-      ar: await this.fetchJson(`/pt/registry/pt.normalization.ar/${arVersion}/rules.json`),
-      en: await this.fetchJson(`/pt/registry/pt.normalization.en/${enVersion}/rules.json`)
-    };
-  }
+  private async loadPackage(pkg: ResolvedPackage): Promise<any> {
+    const basePath = `registry/${pkg.name}/${pkg.version}`;
+    const features = this.profile!.features;
 
-  private async loadVocabularies() {
-    const arConfig = this.profile!.packages['pt.vocab.ar'];
-    const enConfig = this.profile!.packages['pt.vocab.en'];
-    
-    return {
-      ar: await this.loadShardedVocab('ar', arConfig),
-      en: await this.loadShardedVocab('en', enConfig)
-    };
+    switch (pkg.name) {
+      case 'pt.taxonomy.core':
+        return await this.fetchJson(`${basePath}/categories.json`);
+      case 'pt.normalization.ar':
+      case 'pt.normalization.en':
+        return await this.fetchJson(`${basePath}/rules.json`);
+      case 'pt.vocab.ar':
+      case 'pt.vocab.en':
+        return await this.loadShardedVocab(basePath, this.profile!.packages[pkg.name]);
+      case 'pt.rules.ar':
+      case 'pt.rules.en':
+        return {
+          filters: await this.fetchJson(`${basePath}/filters.json`),
+          scoring: await this.fetchJson(`${basePath}/scoring.json`)
+        };
+      case 'pt.brands.core':
+        return features.brand_intelligence ? await this.fetchJsonl(`${basePath}/brands.jsonl`) : undefined;
+      case 'pt.nupco.core':
+        return features.nupco_integration
+          ? {
+              codes: await this.fetchJson(`${basePath}/code_prefix_rules.json`),
+              golden: await this.fetchJsonl(`${basePath}/golden_records.jsonl`)
+            }
+          : undefined;
+      default:
+        // Resolved for dependency checking, but not consumed by the classifier yet
+        return undefined;
+    }
   }
 
-  private async loadShardedVocab(lang: string, config: any) {
-    const version = typeof config === 'string' ? config : config.version;
-    const basePath = `/pt/registry/pt.vocab.${lang}/${version}`;
-    
+  private async loadShardedVocab(basePath: string, config: any) {
     // Load core vocabulary
     const include = await this.fetchJsonl(`${basePath}/include.jsonl`);
-    
+
     // Load shards if specified
     let shards = {};
-    if (config.shards) {
+    if (config?.shards) {
       for (const shard of config.shards) {
         shards[shard] = await this.fetchJsonl(`${basePath}/synonyms_shards/${shard}.jsonl`);
       }
     }
-    
+
     return { include, shards };
   }
 
-  private async loadRules() {
-    const arVersion = this.profile!.packages['pt.rules.ar'];
-    const enVersion = this.profile!.packages['pt.rules.en'];
-    
-    return {
-      ar: {
-        filters: await this.fetchJson(`/pt/registry/pt.rules.ar/${arVersion}/filters.json`),
-        scoring: await this.fetchJson(`/pt/registry/pt.rules.ar/${arVersion}/scoring.json`)
-      },
-      en: {
-        filters: await this.fetchJson(`/pt/registry/pt.rules.en/${arVersion}/filters.json`),
-        scoring: await this.fetchJson(`/pt/registry/pt.rules.en/${arVersion}/scoring.json`)
+  /**
+   * Index manifest checksums by registry path so every file read can be verified
+   */
+  private collectChecksums(packages: ResolvedPackage[]): void {
+    this.expectedChecksums.clear();
+    for (const pkg of packages) {
+      const basePath = `registry/${pkg.name}/${pkg.version}`;
+      for (const [file, spec] of Object.entries(pkg.manifest.files || {})) {
+        if (spec.checksum) {
+          this.expectedChecksums.set(`${basePath}/${file}`, spec.checksum);
+        }
+        for (const [shardFile, checksum] of Object.entries(spec.shard_checksums || {})) {
+          this.expectedChecksums.set(`${basePath}/${file.replace(/\/?$/, '/')}${shardFile}`, checksum);
+        }
       }
-    };
-  }
-
-  private async loadBrands() {
-    if (!this.profile!.packages['pt.brands.core']) return null;
-    const version = this.profile!.packages['pt.brands.core'];
-    return await this.fetchJsonl(`/pt/registry/pt.brands.core/${version}/brands.jsonl`);
+    }
   }
 
-  private async loadNupco() {
-    if (!this.profile!.packages['pt.nupco.core']) return null;
-    const version = this.profile!.packages['pt.nupco.core'];
-    return {
-      codes: await this.fetchJson(`/pt/registry/pt.nupco.core/${version}/code_prefix_rules.json`),
-      golden: await this.fetchJsonl(`/pt/registry/pt.nupco.core/${version}/golden_records.jsonl`)
-    };
+  private requirePackage(name: string): any {
+    if (!this.loadedPackages.has(name)) {
+      throw new Error(`Profile ${this.profile!.profile_name} does not provide required package ${name}`);
+    }
+    return this.loadedPackages.get(name);
   }
 
   private async fetchJson(path: string): Promise<any> {
-    const response = await fetch(path);
-    if (!response.ok) {
-      throw new Error(`Failed to load ${path}: ${response.statusText}`);
-    }
-    return await response.json();
+    return JSON.parse(await this.readVerified(path));
   }
 
   private async fetchJsonl(path: string): Promise<any[]> {
-    const response = await fetch(path);
-    if (!response.ok) {
-      throw new Error(`Failed to load ${path}: ${response.statusText}`);
-    }
-    const text = await response.text();
+    const text = await this.readVerified(path);
     return text.trim().split('\n').map(line => JSON.parse(line));
   }
-}
\ No newline at end of file
+
+  private async readVerified(path: string): Promise<string> {
+    const text = await this.source.readText(path);
+    await verifyChecksum(path, text, this.expectedChecksums.get(path));
+    return text;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { zlibGzip } from '../adapters/node/compression';
+import { ArtifactCodec, lz4Compress, lz4Decompress } from './compression';
+
+/** Deterministic pseudo-random bytes, incompressible unlike the repetitive samples */
+function noise(length: number, seed = 1): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    bytes[i] = seed >>> 24;
+  }
+  return bytes;
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const samples: Record<string, Uint8Array> = {
+  empty: new Uint8Array(0),
+  'shorter than a match': encode('abc'),
+  'single repeated byte': new Uint8Array(70_000).fill(7),
+  'overlapping matches': encode('ab'.repeat(5000)),
+  'long literal runs': noise(100_000),
+  'runtime JSON': encode(JSON.stringify(Array.from({ length: 2000 }, (_, i) => ({ term: `كرسي متحرك ${i}`, score: i % 50 })))),
+  'matches beyond the 64 KiB window': (() => {
+    const block = noise(1000, 7);
+    const data = new Uint8Array(200_000);
+    data.set(block, 0);
+    data.set(block, 150_000);
+    return data;
+  })()
+};
+
+describe('LZ4', () => {
+  it.each(Object.entries(samples))('round-trips %s', (_, data) => {
+    expect(lz4Decompress(lz4Compress(data))).toEqual(data);
+  });
+
+  it('compresses repetitive data', () => {
+    expect(lz4Compress(samples['runtime JSON']).length).toBeLessThan(samples['runtime JSON'].length / 3);
+  });
+
+  it('rejects truncated and corrupt blocks', () => {
+    const compressed = lz4Compress(samples['runtime JSON']);
+
+    expect(() => lz4Decompress(compressed.subarray(0, 2))).toThrow(/too short/);
+    expect(() => lz4Decompress(compressed.subarray(0, compressed.length - 10))).toThrow(/Corrupt LZ4 data/);
+  });
+});
+
+describe('ArtifactCodec', () => {
+  it.each(['none', 'gzip', 'lz4'] as const)('round-trips with %s', async codec => {
+    const artifacts = new ArtifactCodec(codec, zlibGzip);
+    const data = samples['runtime JSON'];
+
+    expect(await artifacts.decompress(await artifacts.compress(data))).toEqual(data);
+  });
+
+  it('leaves metadata files uncompressed', () => {
+    const artifacts = new ArtifactCodec('lz4');
+
+    expect(artifacts.storedName('runtime.vocab.ar.bin')).toBe('runtime.vocab.ar.bin.lz4');
+    expect(artifacts.storedName('runtime.meta.json')).toBe('runtime.meta.json');
+  });
+
+  it('rejects unknown codecs', () => {
+    expect(() => new ArtifactCodec('brotli' as any)).toThrow(/Unsupported runtime compression/);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Runtime Artifact Compression
+ * Codecs named by `RuntimeConfig.compression`: gzip through a platform backend, LZ4 implemented here
+ */
+import type { RuntimeConfig } from './types';
+
+export type CompressionCodec = RuntimeConfig['compression'];
+
+/** Extension appended to a runtime file stored with each codec */
+export const CODEC_EXTENSIONS: Record<CompressionCodec, string> = {
+  gzip: '.gz',
+  lz4: '.lz4',
+  none: ''
+};
+
+/**
+ * Platform gzip implementation. The default uses Compression Streams (browsers and Node 18+);
+ * Node callers can pass `zlibGzip` from adapters/node instead.
+ */
+export interface GzipBackend {
+  gzip(data: Uint8Array): Promise<Uint8Array>;
+  gunzip(data: Uint8Array): Promise<Uint8Array>;
+}
+
+export const streamGzip: GzipBackend = {
+  gzip: data => pipeThrough(data, new CompressionStream('gzip')),
+  gunzip: data => pipeThrough(data, new DecompressionStream('gzip'))
+};
+
+export class ArtifactCodec {
+  readonly codec: CompressionCodec;
+  private gzipBackend: GzipBackend;
+
+  constructor(codec: CompressionCodec = 'none', gzipBackend: GzipBackend = streamGzip) {
+    if (!(codec in CODEC_EXTENSIONS)) {
+      throw new Error(`Unsupported runtime compression "${codec}"; expected one of ${Object.keys(CODEC_EXTENSIONS).join(', ')}`);
+    }
+    this.codec = codec;
+    this.gzipBackend = gzipBackend;
+  }
+
+  get extension(): string {
+    return CODEC_EXTENSIONS[this.codec];
+  }
+
+  /**
+   * Name a runtime file is stored under; metadata stays plain so loaders can read the codec first
+   */
+  storedName(fileName: string): string {
+    return isCompressible(fileName) ? fileName + this.extension : fileName;
+  }
+
+  async compress(data: Uint8Array): Promise<Uint8Array> {
+    switch (this.codec) {
+      case 'gzip': return await this.gzipBackend.gzip(data);
+      case 'lz4': return lz4Compress(data);
+      default: return data;
+    }
+  }
+
+  async decompress(data: Uint8Array): Promise<Uint8Array> {
+    switch (this.codec) {
+      case 'gzip': return await this.gzipBackend.gunzip(data);
+      case 'lz4': return lz4Decompress(data);
+      default: return data;
+    }
+  }
+}
+
+/**
+ * Whether a runtime file is compressed at all; `*.meta.json` files are read by tooling and stay plain
+ */
+export function isCompressible(fileName: string): boolean {
+  return !fileName.endsWith('.meta.json');
+}
+
+async function pipeThrough(data: Uint8Array, transform: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// LZ4 block format, stored with the uncompressed size as a 4-byte little-endian prefix
+
+const LZ4_MIN_MATCH = 4;
+const LZ4_LAST_LITERALS = 5; // The block must end with at least this many literals
+const LZ4_MATCH_LIMIT = 12; // No match may start within this many bytes of the end
+const LZ4_MAX_OFFSET = 0xffff;
+const LZ4_HASH_BITS = 16;
+
+export function lz4Compress(input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(4 + input.length + Math.ceil(input.length / 255) + 16);
+  new DataView(output.buffer).setUint32(0, input.length, true);
+
+  const table = new Int32Array(1 << LZ4_HASH_BITS).fill(-1);
+  let op = 4;
+  let anchor = 0;
+  let pos = 0;
+
+  while (pos < input.length - LZ4_MATCH_LIMIT) {
+    const sequence = read32(input, pos);
+    const hash = Math.imul(sequence, 2654435761) >>> (32 - LZ4_HASH_BITS);
+    const ref = table[hash];
+    table[hash] = pos;
+
+    if (ref < 0 || pos - ref > LZ4_MAX_OFFSET || read32(input, ref) !== sequence) {
+      pos++;
+      continue;
+    }
+
+    let length = LZ4_MIN_MATCH;
+    while (pos + length < input.length - LZ4_LAST_LITERALS && input[ref + length] === input[pos + length]) {
+      length++;
+    }
+
+    op = writeSequence(output, op, input, anchor, pos - anchor, pos - ref, length);
+    pos += length;
+    anchor = pos;
+  }
+
+  op = writeSequence(output, op, input, anchor, input.length - anchor, 0, 0);
+  return output.slice(0, op);
+}
+
+export function lz4Decompress(input: Uint8Array): Uint8Array {
+  if (input.length < 4) {
+    throw new Error('LZ4 data is too short');
+  }
+  const size = new DataView(input.buffer, input.byteOffset, input.byteLength).getUint32(0, true);
+  const output = new Uint8Array(size);
+  let ip = 4;
+  let op = 0;
+
+  while (ip < input.length) {
+    const token = input[ip++];
+
+    let literals = token >>> 4;
+    if (literals === 15) {
+      let byte: number;
+      do { byte = input[ip++]; literals += byte; } while (byte === 255);
+    }
+    if (op + literals > size || ip + literals > input.length) {
+      throw new Error('Corrupt LZ4 data: literals overrun');
+    }
+    output.set(input.subarray(ip, ip + literals), op);
+    ip += literals;
+    op += literals;
+    if (ip >= input.length) break; // The last sequence has literals only
+
+    const offset = input[ip] | (input[ip + 1] << 8);
+    ip += 2;
+    let length = token & 15;
+    if (length === 15) {
+      let byte: number;
+      do { byte = input[ip++]; length += byte; } while (byte === 255);
+    }
+    length += LZ4_MIN_MATCH;
+    if (offset === 0 || offset > op || op + length > size) {
+      throw new Error('Corrupt LZ4 data: match out of range');
+    }
+
+    // Byte by byte, since a match may overlap the bytes it is producing
+    for (let ref = op - offset, end = op + length; op < end; ) {
+      output[op++] = output[ref++];
+    }
+  }
+
+  if (op !== size) {
+    throw new Error(`Corrupt LZ4 data: expected ${size} bytes, got ${op}`);
+  }
+  return output;
+}
+
+function read32(data: Uint8Array, index: number): number {
+  return data[index] | (data[index + 1] << 8) | (data[index + 2] << 16) | (data[index + 3] << 24);
+}
+
+function writeSequence(
+  output: Uint8Array,
+  op: number,
+  input: Uint8Array,
+  literalStart: number,
+  literalLength: number,
+  offset: number,
+  matchLength: number
+): number {
+  const tokenPos = op++;
+  const extraMatch = matchLength - LZ4_MIN_MATCH;
+  output[tokenPos] = (Math.min(literalLength, 15) << 4) | (matchLength > 0 ? Math.min(extraMatch, 15) : 0);
+
+  op = writeLength(output, op, literalLength);
+  output.set(input.subarray(literalStart, literalStart + literalLength), op);
+  op += literalLength;
+
+  if (matchLength > 0) {
+    output[op++] = offset & 0xff;
+    output[op++] = offset >>> 8;
+    op = writeLength(output, op, extraMatch);
+  }
+  return op;
+}
+
+/**
+ * Bytes that follow a saturated (15) token nibble: runs of 255 and a final remainder
+ */
+function writeLength(output: Uint8Array, op: number, length: number): number {
+  if (length < 15) return op;
+  let rest = length - 15;
+  while (rest >= 255) {
+    output[op++] = 255;
+    rest -= 255;
+  }
+  output[op++] = rest;
+  return op;
+}
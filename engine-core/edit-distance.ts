@@ -0,0 +1,82 @@
+/**
+ * Weighted Edit Distance
+ * Levenshtein distance with per-character costs, so spelling variants count as partial edits
+ */
+import type { EditCostTable } from './types';
+
+export class EditCosts {
+  private substitutions: Map<string, number> = new Map();
+  private indels: Map<string, number>;
+  private defaultCost: number;
+
+  constructor(table: EditCostTable) {
+    this.defaultCost = table.default_cost;
+    this.indels = new Map(Object.entries(table.indels));
+    for (const { pair: [a, b], cost } of table.substitutions) {
+      this.substitutions.set(a + b, cost);
+      this.substitutions.set(b + a, cost);
+    }
+  }
+
+  /**
+   * Cost of replacing one character with another
+   */
+  substitution(from: string, to: string): number {
+    return from === to ? 0 : this.substitutions.get(from + to) ?? this.defaultCost;
+  }
+
+  /**
+   * Cost of inserting or deleting a character
+   */
+  indel(char: string): number {
+    return this.indels.get(char) ?? this.defaultCost;
+  }
+
+  /**
+   * DP row for the empty candidate: the cost of deleting each prefix of the query
+   */
+  firstRow(query: string[]): number[] {
+    const row = [0];
+    for (let j = 1; j <= query.length; j++) {
+      row.push(row[j - 1] + this.indel(query[j - 1]));
+    }
+    return row;
+  }
+
+  /**
+   * DP row after the candidate grows by one character; row[j] is the cost of turning
+   * the first j query characters into the candidate so far
+   */
+  nextRow(previous: number[], char: string, query: string[]): number[] {
+    const row = [previous[0] + this.indel(char)];
+    for (let j = 1; j <= query.length; j++) {
+      row.push(Math.min(
+        previous[j - 1] + this.substitution(query[j - 1], char),
+        previous[j] + this.indel(char),
+        row[j - 1] + this.indel(query[j - 1])
+      ));
+    }
+    return row;
+  }
+
+  /**
+   * Weighted distance between two strings
+   */
+  distance(source: string, target: string): number {
+    const query = Array.from(source);
+    let row = this.firstRow(query);
+    for (const char of target) {
+      row = this.nextRow(row, char, query);
+    }
+    return row[query.length];
+  }
+
+  /**
+   * Similarity in [0, 1]: one minus the distance per character of the longer string
+   */
+  similarity(source: string, target: string): number {
+    const length = Math.max(Array.from(source).length, Array.from(target).length);
+    if (length === 0) return 1;
+    return Math.max(0, 1 - this.distance(source, target) / length);
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { formatExplanation, formatStep, roundScoreDelta } from './explanation';
+
+describe('formatStep', () => {
+  it('renders the signed delta and the source package version', () => {
+    expect(formatStep({
+      stage: 'vocabulary',
+      label: 'Vocabulary hit "wheelchair"',
+      term: 'wheelchair',
+      package: 'pt.vocab.en',
+      version: '3.3.0',
+      score_delta: 40
+    })).toBe('vocabulary: Vocabulary hit "wheelchair" +40 [pt.vocab.en@3.3.0]');
+  });
+
+  it('leaves out a zero delta and a missing source', () => {
+    expect(formatStep({ stage: 'threshold', label: 'Below threshold', score_delta: 0 })).toBe('threshold: Below threshold');
+    expect(formatStep({ stage: 'blocker', label: 'Blocked', package: 'pt.rules.en', score_delta: -25 }))
+      .toBe('blocker: Blocked -25 [pt.rules.en]');
+  });
+
+  it('rounds float noise out of the rendered delta', () => {
+    expect(formatStep({ stage: 'context', label: 'Boost', score_delta: 3.9999999999999996 })).toBe('context: Boost +4');
+  });
+});
+
+describe('formatExplanation', () => {
+  it('joins the steps in order', () => {
+    expect(formatExplanation([
+      { stage: 'vocabulary', label: 'Token match "walker"', score_delta: 30 },
+      { stage: 'context', label: 'Contextual boost "therapy"', score_delta: 2 }
+    ])).toBe('vocabulary: Token match "walker" +30; context: Contextual boost "therapy" +2');
+  });
+});
+
+describe('roundScoreDelta', () => {
+  it('rounds to one decimal', () => {
+    expect(roundScoreDelta((1.15 - 1) * 20)).toBe(3);
+    expect(roundScoreDelta(12.46)).toBe(12.5);
+  });
+});
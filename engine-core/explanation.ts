@@ -0,0 +1,25 @@
+/**
+ * Explanation Formatting
+ * Plain-text rendering of ExplanationStep lists for logs, CSV and Excel exports
+ */
+import type { ExplanationStep } from './types';
+
+/**
+ * Render one step, e.g. `vocabulary: Vocabulary hit "wheelchair" +40 [pt.vocab.en@3.3.0]`
+ */
+export function formatStep(step: ExplanationStep): string {
+  const delta = step.score_delta === 0 ? '' : ` ${step.score_delta > 0 ? '+' : ''}${roundScoreDelta(step.score_delta)}`;
+  const source = step.package ? ` [${step.package}${step.version ? `@${step.version}` : ''}]` : '';
+  return `${step.stage}: ${step.label}${delta}${source}`;
+}
+
+export function formatExplanation(steps: ExplanationStep[]): string {
+  return steps.map(formatStep).join('; ');
+}
+
+/**
+ * Round a score contribution to one decimal before it is emitted, dropping float noise such as 3.999999999999999
+ */
+export function roundScoreDelta(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { computeReproducibilityStamp, parseFingerprint } from './fingerprint';
+
+const rules = {
+  ar: { filters: { hard_blockers: {} }, scoring: { thresholds: { high_confidence: 40 } } },
+  en: { filters: { hard_blockers: {} }, scoring: { thresholds: { high_confidence: 35 } } }
+} as any;
+
+describe('reproducibility fingerprint', () => {
+  it('lists the profile, sorted package versions without their prefix and the rules hash', async () => {
+    const stamp = await computeReproducibilityStamp(
+      { profile_name: 'runtime-lite', version: '1.0.0' },
+      { 'pt.vocab.en': '3.3.0', 'pt.rules.en': '1.2.0' },
+      rules
+    );
+
+    expect(stamp.fingerprint).toBe(`runtime-lite@1.0.0;rules.en=1.2.0,vocab.en=3.3.0;rules#${stamp.rules_hash}`);
+    expect(stamp.rules_hash).toMatch(/^[0-9a-f]{12}$/);
+  });
+
+  it('changes the rules hash with the rule sets', async () => {
+    const profile = { profile_name: 'runtime-lite', version: '1.0.0' };
+    const changed = { ...rules, en: { ...rules.en, scoring: { thresholds: { high_confidence: 45 } } } };
+
+    const before = await computeReproducibilityStamp(profile, {}, rules);
+    const after = await computeReproducibilityStamp(profile, {}, changed);
+
+    expect(after.rules_hash).not.toBe(before.rules_hash);
+  });
+
+  it('parses a fingerprint back into its parts', async () => {
+    const stamp = await computeReproducibilityStamp(
+      { profile_name: 'runtime-full', version: '2.1.0' },
+      { 'pt.vocab.ar': '3.3.0', 'pt.brands.core': '1.0.0' },
+      rules
+    );
+
+    const { fingerprint, ...parts } = stamp;
+    expect(parseFingerprint(fingerprint)).toEqual(parts);
+  });
+
+  it('rejects malformed fingerprints', () => {
+    expect(() => parseFingerprint('runtime-lite')).toThrow('Invalid reproducibility fingerprint');
+    expect(() => parseFingerprint('runtime-lite@1.0.0;vocab.en;rules#abc')).toThrow('Invalid package "vocab.en"');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Reproducibility Fingerprint
+ * Stamps classification decisions with the profile, package versions and rule sets behind them
+ */
+import { computeChecksum } from './checksum';
+import type { ReproducibilityStamp, RuleSet } from './types';
+
+// Every registry package carries this prefix; fingerprints leave it out to stay short
+const PACKAGE_PREFIX = 'pt.';
+const RULES_HASH_LENGTH = 12;
+
+type RuleSource = Pick<RuleSet, 'filters' | 'scoring'>;
+
+/**
+ * Stamp for a profile with its resolved package versions and the registry rule sets it loads
+ */
+export async function computeReproducibilityStamp(
+  profile: { profile_name: string; version: string },
+  packages: Record<string, string>,
+  rules: { ar: RuleSource; en: RuleSource }
+): Promise<ReproducibilityStamp> {
+  const sortedPackages = Object.fromEntries(
+    Object.entries(packages).sort(([a], [b]) => a.localeCompare(b))
+  );
+
+  // Hash the registry rule files as parsed, so runtime-side optimizations do not change it
+  const ruleSets = (['ar', 'en'] as const).map(lang => ({ filters: rules[lang].filters, scoring: rules[lang].scoring }));
+  const digest = await computeChecksum(JSON.stringify(ruleSets));
+  const rulesHash = digest.slice(digest.indexOf(':') + 1, digest.indexOf(':') + 1 + RULES_HASH_LENGTH);
+
+  return {
+    profile_name: profile.profile_name,
+    profile_version: profile.version,
+    packages: sortedPackages,
+    rules_hash: rulesHash,
+    fingerprint: formatFingerprint(profile.profile_name, profile.version, sortedPackages, rulesHash)
+  };
+}
+
+/**
+ * Read a fingerprint back into its parts, e.g. to pin a replay to the recorded package versions
+ */
+export function parseFingerprint(fingerprint: string): Omit<ReproducibilityStamp, 'fingerprint'> {
+  const match = /^([^@;]+)@([^;]+);([^;]*);rules#([0-9a-f]+)$/.exec(fingerprint.trim());
+  if (!match) {
+    throw new Error(`Invalid reproducibility fingerprint: "${fingerprint}"`);
+  }
+
+  const [, profileName, profileVersion, packageList, rulesHash] = match;
+  const packages: Record<string, string> = {};
+  for (const entry of packageList.split(',').filter(Boolean)) {
+    const [name, version] = entry.split('=');
+    if (!name || !version) {
+      throw new Error(`Invalid package "${entry}" in reproducibility fingerprint`);
+    }
+    packages[PACKAGE_PREFIX + name] = version;
+  }
+
+  return { profile_name: profileName, profile_version: profileVersion, packages, rules_hash: rulesHash };
+}
+
+function formatFingerprint(
+  profileName: string,
+  profileVersion: string,
+  packages: Record<string, string>,
+  rulesHash: string
+): string {
+  const packageList = Object.entries(packages)
+    .map(([name, version]) => `${name.startsWith(PACKAGE_PREFIX) ? name.slice(PACKAGE_PREFIX.length) : name}=${version}`)
+    .join(',');
+  return `${profileName}@${profileVersion};${packageList};rules#${rulesHash}`;
+}
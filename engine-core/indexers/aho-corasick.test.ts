@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { AhoCorasick } from './aho-corasick';
+
+function build(patterns: string[]): AhoCorasick {
+  const automaton = new AhoCorasick();
+  patterns.forEach(pattern => automaton.add(pattern));
+  automaton.build();
+  return automaton;
+}
+
+describe('AhoCorasick', () => {
+  it('assigns pattern ids in insertion order and shares common prefixes', () => {
+    const automaton = new AhoCorasick();
+
+    expect(['he', 'she', 'his', 'hers'].map(pattern => automaton.add(pattern))).toEqual([0, 1, 2, 3]);
+    automaton.build();
+    // root + h, he, her, hers, hi, his + s, sh, she
+    expect(automaton.getStats()).toEqual({ states: 10, patterns: 4 });
+  });
+
+  it('reports overlapping matches through fail links, in order of their end position', () => {
+    const automaton = build(['he', 'she', 'his', 'hers']);
+
+    expect(automaton.search('ushers')).toEqual([
+      { pattern: 1, end: 4 },
+      { pattern: 0, end: 4 },
+      { pattern: 3, end: 6 }
+    ]);
+  });
+
+  it('counts end positions in UTF-16 units for Arabic text', () => {
+    const automaton = build(['عكاز']);
+
+    expect(automaton.search('بالعكاز')).toEqual([{ pattern: 0, end: 7 }]);
+  });
+
+  it('rejects patterns after build and searches before it', () => {
+    const unbuilt = new AhoCorasick();
+    unbuilt.add('walker');
+    expect(() => unbuilt.search('walker')).toThrow(/must be built/);
+
+    const built = build(['walker']);
+    expect(() => built.add('cane')).toThrow(/after the automaton has been built/);
+  });
+
+  it('finds the same matches after a serialization round trip', () => {
+    const automaton = build(['rom', 'chrome', 'ro']);
+    const loaded = AhoCorasick.deserialize(JSON.parse(JSON.stringify(automaton.serialize())));
+
+    expect(loaded.search('chrome rom')).toEqual(automaton.search('chrome rom'));
+    expect(loaded.getStats()).toEqual(automaton.getStats());
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Aho–Corasick Automaton for Multi-Pattern Matching
+ * Finds every occurrence of every pattern in a single pass over the text
+ */
+
+export interface AutomatonMatch {
+  /** Id returned by add() for the matched pattern */
+  pattern: number;
+  /** Index in the text just past the last matched character */
+  end: number;
+}
+
+export interface SerializedAutomaton {
+  version: string;
+  /** Per state, the outgoing edges as [character, target state] pairs */
+  transitions: Array<Array<[string, number]>>;
+  fail: number[];
+  /** Per state, ids of the patterns that end there, including those reached through fail links */
+  outputs: number[][];
+  patternCount: number;
+}
+
+export class AhoCorasick {
+  private transitions: Array<Map<string, number>> = [new Map()];
+  private fail: number[] = [0];
+  private outputs: number[][] = [[]];
+  private patternCount = 0;
+  private built = false;
+
+  /**
+   * Add a pattern and return its id; ids are assigned in insertion order
+   */
+  add(pattern: string): number {
+    if (this.built) {
+      throw new Error('Cannot add patterns after the automaton has been built');
+    }
+
+    let state = 0;
+    for (const char of pattern) {
+      let next = this.transitions[state].get(char);
+      if (next === undefined) {
+        next = this.transitions.length;
+        this.transitions.push(new Map());
+        this.fail.push(0);
+        this.outputs.push([]);
+        this.transitions[state].set(char, next);
+      }
+      state = next;
+    }
+
+    const id = this.patternCount++;
+    this.outputs[state].push(id);
+    return id;
+  }
+
+  /**
+   * Compute fail links breadth-first and merge the outputs of each state's fail chain
+   */
+  build(): void {
+    const queue: number[] = [];
+    for (const child of this.transitions[0].values()) {
+      this.fail[child] = 0;
+      queue.push(child);
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      for (const [char, child] of this.transitions[state]) {
+        let fallback = this.fail[state];
+        while (fallback !== 0 && !this.transitions[fallback].has(char)) {
+          fallback = this.fail[fallback];
+        }
+        const target = this.transitions[fallback].get(char);
+        this.fail[child] = target !== undefined && target !== child ? target : 0;
+        this.outputs[child] = [...this.outputs[child], ...this.outputs[this.fail[child]]];
+        queue.push(child);
+      }
+    }
+
+    this.built = true;
+  }
+
+  /**
+   * Report every pattern occurrence, overlapping ones included, in order of their end position
+   */
+  search(text: string): AutomatonMatch[] {
+    if (!this.built) {
+      throw new Error('Automaton must be built before searching');
+    }
+
+    const matches: AutomatonMatch[] = [];
+    let state = 0;
+    let end = 0;
+
+    for (const char of text) {
+      end += char.length;
+      while (state !== 0 && !this.transitions[state].has(char)) {
+        state = this.fail[state];
+      }
+      state = this.transitions[state].get(char) ?? 0;
+      for (const pattern of this.outputs[state]) {
+        matches.push({ pattern, end });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Serialize automaton for storage
+   */
+  serialize(): SerializedAutomaton {
+    return {
+      version: '1.0',
+      transitions: this.transitions.map(edges => Array.from(edges)),
+      fail: this.fail,
+      outputs: this.outputs,
+      patternCount: this.patternCount
+    };
+  }
+
+  /**
+   * Deserialize automaton from storage
+   */
+  static deserialize(data: SerializedAutomaton): AhoCorasick {
+    const automaton = new AhoCorasick();
+    automaton.transitions = data.transitions.map(edges => new Map(edges));
+    automaton.fail = data.fail;
+    automaton.outputs = data.outputs;
+    automaton.patternCount = data.patternCount;
+    automaton.built = true;
+    return automaton;
+  }
+
+  /**
+   * Get statistics
+   */
+  getStats() {
+    return {
+      states: this.transitions.length,
+      patterns: this.patternCount
+    };
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Binary Runtime Format
+ * Versioned, checksummed container of typed-array sections that load as views over one ArrayBuffer
+ *
+ * Layout: a 16-byte header (magic, format version, section count, payload length, CRC-32 of the payload),
+ * a section table of [offset, length] byte pairs, then the sections, each aligned to 8 bytes.
+ */
+import { ChecksumMismatchError } from '../checksum';
+
+export const BINARY_FORMAT_VERSION = 2;
+
+const HEADER_BYTES = 16;
+const SECTION_ALIGNMENT = 8;
+
+/** Sentinel for "no entry" in uint32 columns */
+export const NONE = 0xffffffff;
+
+export class BinaryWriter {
+  private sections: Uint8Array[] = [];
+  private stringIds: Map<string, number> = new Map();
+  private strings: string[] = [];
+
+  /**
+   * Intern a string in the shared string table and return its id
+   */
+  string(value: string): number {
+    let id = this.stringIds.get(value);
+    if (id === undefined) {
+      id = this.strings.length;
+      this.strings.push(value);
+      this.stringIds.set(value, id);
+    }
+    return id;
+  }
+
+  addUint8(values: ArrayLike<number>): number {
+    return this.addSection(Uint8Array.from(values));
+  }
+
+  addUint32(values: ArrayLike<number>): number {
+    return this.addSection(new Uint8Array(Uint32Array.from(values).buffer));
+  }
+
+  addFloat32(values: ArrayLike<number>): number {
+    return this.addSection(new Uint8Array(Float32Array.from(values).buffer));
+  }
+
+  addFloat64(values: ArrayLike<number>): number {
+    return this.addSection(new Uint8Array(Float64Array.from(values).buffer));
+  }
+
+  /**
+   * Write the header, section table, sections and the string table (always the last section)
+   */
+  finish(magic: string): ArrayBuffer {
+    this.addStringTable();
+
+    const tableBytes = this.sections.length * 8;
+    let offset = align(HEADER_BYTES + tableBytes);
+    const offsets = this.sections.map(section => {
+      const start = offset;
+      offset = align(offset + section.byteLength);
+      return start;
+    });
+
+    const buffer = new ArrayBuffer(offset);
+    const bytes = new Uint8Array(buffer);
+    const table = new Uint32Array(buffer, HEADER_BYTES, this.sections.length * 2);
+    this.sections.forEach((section, i) => {
+      table[i * 2] = offsets[i];
+      table[i * 2 + 1] = section.byteLength;
+      bytes.set(section, offsets[i]);
+    });
+
+    const view = new DataView(buffer);
+    view.setUint32(0, encodeMagic(magic), true);
+    view.setUint16(4, BINARY_FORMAT_VERSION, true);
+    view.setUint16(6, this.sections.length, true);
+    view.setUint32(8, buffer.byteLength - HEADER_BYTES, true);
+    view.setUint32(12, crc32(new Uint8Array(buffer, HEADER_BYTES)), true);
+    return buffer;
+  }
+
+  private addSection(bytes: Uint8Array): number {
+    this.sections.push(bytes);
+    return this.sections.length - 1;
+  }
+
+  private addStringTable(): void {
+    const encoder = new TextEncoder();
+    const encoded = this.strings.map(value => encoder.encode(value));
+    // [count, offsets[count + 1]], padded, then the UTF-8 bytes
+    const index = new Uint32Array(encoded.length + 2);
+    index[0] = encoded.length;
+    encoded.forEach((bytes, i) => { index[i + 2] = index[i + 1] + bytes.byteLength; });
+
+    const dataStart = align(index.byteLength);
+    const section = new Uint8Array(dataStart + index[encoded.length + 1]);
+    section.set(new Uint8Array(index.buffer), 0);
+    encoded.forEach((bytes, i) => section.set(bytes, dataStart + index[i + 1]));
+    this.addSection(section);
+  }
+}
+
+export class BinaryReader {
+  private buffer: ArrayBuffer;
+  private table: Uint32Array;
+  private stringOffsets: Uint32Array;
+  private stringBytes: Uint8Array;
+  private decoded: string[] = [];
+  private decoder = new TextDecoder();
+
+  /**
+   * Validate the header and checksum; sections are exposed as views, nothing is copied
+   */
+  constructor(buffer: ArrayBuffer, magic: string, label: string) {
+    if (buffer.byteLength < HEADER_BYTES) {
+      throw new Error(`${label} is too short to be a binary runtime file`);
+    }
+
+    const view = new DataView(buffer);
+    if (view.getUint32(0, true) !== encodeMagic(magic)) {
+      throw new Error(`${label} is not a ${magic} binary runtime file`);
+    }
+    const version = view.getUint16(4, true);
+    if (version !== BINARY_FORMAT_VERSION) {
+      throw new Error(`${label} uses binary format v${version}, expected v${BINARY_FORMAT_VERSION}; rebuild the runtime`);
+    }
+    if (view.getUint32(8, true) !== buffer.byteLength - HEADER_BYTES) {
+      throw new Error(`${label} is truncated`);
+    }
+    const expected = view.getUint32(12, true);
+    const actual = crc32(new Uint8Array(buffer, HEADER_BYTES));
+    if (actual !== expected) {
+      throw new ChecksumMismatchError(label, formatCrc(expected), formatCrc(actual));
+    }
+
+    this.buffer = buffer;
+    this.table = new Uint32Array(buffer, HEADER_BYTES, view.getUint16(6, true) * 2);
+
+    const strings = this.bytes(this.table.length / 2 - 1);
+    const count = new Uint32Array(buffer, strings.byteOffset, 1)[0];
+    this.stringOffsets = new Uint32Array(buffer, strings.byteOffset + 4, count + 1);
+    this.stringBytes = strings.subarray(align((count + 2) * 4));
+  }
+
+  uint8(section: number): Uint8Array {
+    return this.bytes(section);
+  }
+
+  uint32(section: number): Uint32Array {
+    const [offset, length] = this.entry(section);
+    return new Uint32Array(this.buffer, offset, length / 4);
+  }
+
+  float32(section: number): Float32Array {
+    const [offset, length] = this.entry(section);
+    return new Float32Array(this.buffer, offset, length / 4);
+  }
+
+  float64(section: number): Float64Array {
+    const [offset, length] = this.entry(section);
+    return new Float64Array(this.buffer, offset, length / 8);
+  }
+
+  /**
+   * Decode an interned string; each id is decoded once and shared by every reference
+   */
+  string(id: number): string {
+    return this.decoded[id] ??=
+      this.decoder.decode(this.stringBytes.subarray(this.stringOffsets[id], this.stringOffsets[id + 1]));
+  }
+
+  private bytes(section: number): Uint8Array {
+    const [offset, length] = this.entry(section);
+    return new Uint8Array(this.buffer, offset, length);
+  }
+
+  private entry(section: number): [number, number] {
+    return [this.table[section * 2], this.table[section * 2 + 1]];
+  }
+}
+
+function align(offset: number): number {
+  return Math.ceil(offset / SECTION_ALIGNMENT) * SECTION_ALIGNMENT;
+}
+
+function encodeMagic(magic: string): number {
+  if (magic.length !== 4) {
+    throw new Error(`Binary magic must be 4 characters, got "${magic}"`);
+  }
+  return new DataView(new TextEncoder().encode(magic).buffer).getUint32(0, true);
+}
+
+function formatCrc(value: number): string {
+  return `crc32:${value.toString(16).padStart(8, '0')}`;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
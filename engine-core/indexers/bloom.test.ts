@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { MedicalTermBloomFilter } from './bloom';
+
+const normalize = (text: string) => text.toLowerCase();
+const terms = ['Parallel Bars', 'wheelchair', 'TENS unit', 'upper limb robotic rehabilitation system', 'wheelchair'].map(term => ({ term }));
+
+describe('MedicalTermBloomFilter', () => {
+  const filter = MedicalTermBloomFilter.fromTerms(terms, 'en', normalize);
+
+  it('finds a term among the n-grams of longer item text', () => {
+    expect(filter.mightContainTerm('Adjustable parallel bars with side rails')).toBe(true);
+    expect(filter.mightContainTerm('Portable TENS unit, 2 channels')).toBe(true);
+  });
+
+  it('rejects item text none of whose n-grams is a term', () => {
+    expect(filter.mightContainTerm('Household refrigerator')).toBe(false);
+    expect(filter.mightContainTerm('bars parallel')).toBe(false);
+  });
+
+  it('matches terms longer than the longest probed n-gram by their leading tokens', () => {
+    expect(filter.mightContainTerm('Upper limb robotic rehabilitation system, clinical')).toBe(true);
+  });
+
+  it('is sized from the distinct term keys', () => {
+    expect(filter.getStats().itemCount).toBe(4);
+  });
+
+  it('screens the same way after a serialization round trip', () => {
+    const loaded = MedicalTermBloomFilter.deserializeTerms(filter.serialize(), 'en');
+
+    expect(loaded.mightContainTerm('adjustable parallel bars')).toBe(true);
+    expect(loaded.mightContainTerm('household refrigerator')).toBe(false);
+    expect(loaded.getStats()).toEqual(filter.getStats());
+  });
+});
@@ -2,6 +2,10 @@
  * Bloom Filter Implementation for Ultra-Fast Negative Lookups
  * Optimized for medical terminology with configurable false positive rates
  */
+import { MedicalTokenizer } from './tokens';
+
+// Longest token sequence stored in or probed against a term filter
+export const MAX_NGRAM_TOKENS = 4;
 
 export class BloomFilter {
   private bitArray: Uint8Array;
@@ -113,16 +117,22 @@ export class BloomFilter {
    * Deserialize bloom filter from storage
    */
   static deserialize(buffer: ArrayBuffer): BloomFilter {
+    const filter = new BloomFilter(1, 0.01); // Dummy values
+    filter.load(buffer);
+    return filter;
+  }
+
+  /**
+   * Replace this filter's state with a serialized one
+   */
+  protected load(buffer: ArrayBuffer): void {
     const header = new Uint32Array(buffer, 0, 4);
     const [size, hashFunctions, itemCount, bitArrayLength] = header;
     
-    const filter = new BloomFilter(1, 0.01); // Dummy values
-    filter.size = size;
-    filter.hashFunctions = hashFunctions;
-    filter.itemCount = itemCount;
-    filter.bitArray = new Uint8Array(buffer, 16, bitArrayLength);
-    
-    return filter;
+    this.size = size;
+    this.hashFunctions = hashFunctions;
+    this.itemCount = itemCount;
+    this.bitArray = new Uint8Array(buffer, 16, bitArrayLength);
   }
 
   /**
@@ -149,47 +159,74 @@ export class BloomFilter {
 
 /**
  * Medical Term Bloom Filter - Optimized for PT vocabulary
+ *
+ * Stores every vocabulary term as its token sequence, so item text is screened by
+ * probing each of its 1–4 token n-grams rather than the whole string.
  */
 export class MedicalTermBloomFilter extends BloomFilter {
   private language: 'ar' | 'en';
   private normalizer: (text: string) => string;
+  private tokenizer: MedicalTokenizer;
 
   constructor(expectedItems: number, language: 'ar' | 'en', normalizer: (text: string) => string) {
-    super(expectedItems, 0.005); // Lower false positive rate for medical terms
+    super(Math.max(expectedItems, 1), 0.005); // Lower false positive rate for medical terms
     this.language = language;
     this.normalizer = normalizer;
+    this.tokenizer = new MedicalTokenizer(language);
+  }
+
+  /**
+   * Build a filter sized from the distinct n-grams the terms actually produce
+   */
+  static fromTerms(
+    terms: Array<{term: string}>,
+    language: 'ar' | 'en',
+    normalizer: (text: string) => string
+  ): MedicalTermBloomFilter {
+    const probe = new MedicalTermBloomFilter(1, language, normalizer);
+    const keys = new Set(terms.map(({ term }) => probe.termKey(term)).filter(key => key !== ''));
+
+    const filter = new MedicalTermBloomFilter(keys.size, language, normalizer);
+    keys.forEach(key => filter.add(key));
+    return filter;
+  }
+
+  /**
+   * Restore a serialized term filter; probes expect text already normalized with the build-time rules
+   */
+  static deserializeTerms(buffer: ArrayBuffer, language: 'ar' | 'en'): MedicalTermBloomFilter {
+    const filter = new MedicalTermBloomFilter(1, language, text => text);
+    filter.load(buffer);
+    return filter;
   }
 
   /**
    * Add normalized medical term
    */
   addTerm(term: string): void {
-    const normalized = this.normalizer(term);
-    this.add(normalized);
-    
-    // Also add word variations for better coverage
-    const words = normalized.split(/\s+/);
-    words.forEach(word => {
-      if (word.length > 2) { // Skip short words
-        this.add(word);
-      }
-    });
+    const key = this.termKey(term);
+    if (key !== '') {
+      this.add(key);
+    }
   }
 
   /**
-   * Check if medical term might exist
+   * Check if any 1–4 token n-gram of the text might be a vocabulary term
    */
-  mightContainTerm(term: string): boolean {
-    const normalized = this.normalizer(term);
-    
-    // Check full term
-    if (this.mightContain(normalized)) {
-      return true;
+  mightContainTerm(text: string): boolean {
+    const tokens = this.tokenizer.tokenize(this.normalizer(text));
+
+    for (let start = 0; start < tokens.length; start++) {
+      let ngram = '';
+      for (let length = 1; length <= MAX_NGRAM_TOKENS && start + length <= tokens.length; length++) {
+        ngram = length === 1 ? tokens[start] : `${ngram} ${tokens[start + length - 1]}`;
+        if (this.mightContain(ngram)) {
+          return true;
+        }
+      }
     }
-    
-    // Check individual significant words
-    const words = normalized.split(/\s+/).filter(word => word.length > 2);
-    return words.some(word => this.mightContain(word));
+
+    return false;
   }
 
   /**
@@ -198,6 +235,14 @@ export class MedicalTermBloomFilter extends BloomFilter {
   addVocabulary(terms: Array<{term: string}>): void {
     terms.forEach(({ term }) => this.addTerm(term));
   }
+
+  /**
+   * Key stored for a term: its tokens, truncated to the longest n-gram that is ever probed.
+   * Text containing a longer term always contains its leading tokens, so truncation adds no false negatives.
+   */
+  private termKey(term: string): string {
+    return this.tokenizer.tokenize(this.normalizer(term)).slice(0, MAX_NGRAM_TOKENS).join(' ');
+  }
 }
 
 /**
@@ -216,8 +261,7 @@ export class PTBloomFilterBuilder {
         .map(line => JSON.parse(line))
         .filter(term => term.term);
 
-      const filter = new MedicalTermBloomFilter(terms.length * 2, language, normalizer);
-      filter.addVocabulary(terms);
+      const filter = MedicalTermBloomFilter.fromTerms(terms, language, normalizer);
       
       console.log(`Built ${language} bloom filter:`, filter.getStats());
       return filter;
@@ -237,7 +281,6 @@ export class PTBloomFilterBuilder {
     language: 'ar' | 'en',
     normalizer: (text: string) => string
   ): Promise<MedicalTermBloomFilter> {
-    let totalTerms = 0;
     const allTerms: Array<{term: string}> = [];
 
     // Load all shards
@@ -253,14 +296,12 @@ export class PTBloomFilterBuilder {
           ]);
         
         allTerms.push(...shardTerms);
-        totalTerms += shardTerms.length;
       } catch (error) {
         console.warn(`Failed to load shard ${shard}:`, error);
       }
     }
 
-    const filter = new MedicalTermBloomFilter(totalTerms, language, normalizer);
-    filter.addVocabulary(allTerms);
+    const filter = MedicalTermBloomFilter.fromTerms(allTerms, language, normalizer);
     
     console.log(`Built ${language} bloom filter from ${shards.length} shards:`, filter.getStats());
     return filter;
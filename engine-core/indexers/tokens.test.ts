@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { MedicalTokenizer, TokenIndex } from './tokens';
+
+const tokenizer = new MedicalTokenizer('en');
+const tokenize = (text: string) => tokenizer.tokenize(text);
+
+function buildIndex(): TokenIndex {
+  const index = new TokenIndex();
+  const terms: Array<[string, number, string]> = [
+    ['parallel bars', 25, 'gait_training'],
+    ['wall bars', 20, 'exercise'],
+    ['resistance band', 25, 'exercise'],
+    ['wheelchair', 40, 'mobility'],
+    ['tens unit', 35, 'electrotherapy']
+  ];
+  for (const [term, score, category] of terms) {
+    index.addTerm(term, term, score, category, category, tokenize);
+  }
+  index.finalizeIndex();
+  return index;
+}
+
+describe('TokenIndex binary format', () => {
+  it('round-trips BM25 rankings of multi-token terms unchanged', () => {
+    const index = buildIndex();
+    const loaded = TokenIndex.deserializeBinary(index.serializeBinary());
+
+    for (const query of ['parallel bars', 'bars', 'parallel', 'folding wheelchair', 'tens']) {
+      const expected = index.rankPartial(query, tokenize);
+      const actual = loaded.rankPartial(query, tokenize);
+      expect(actual.map(r => [r.term.term, r.bm25, r.relevance])).toEqual(expected.map(r => [r.term.term, r.bm25, r.relevance]));
+    }
+
+    const [best] = loaded.rankPartial('parallel bars', tokenize);
+    expect(best.term.term).toBe('parallel bars');
+    expect(best.bm25).toBeGreaterThan(0);
+    expect(best.relevance).toBe(1);
+  });
+
+  it('keeps term metadata and exact lookups', () => {
+    const loaded = TokenIndex.deserializeBinary(buildIndex().serializeBinary());
+
+    expect(loaded.searchExact('wheelchair', tokenize).map(term => [term.term, term.score, term.category]))
+      .toEqual([['wheelchair', 40, 'mobility']]);
+    expect(loaded.getStats()).toEqual(buildIndex().getStats());
+  });
+});
+
+describe('TokenIndex BM25 ranking', () => {
+  const index = new TokenIndex();
+  for (const term of ['tens unit', 'ultrasound unit', 'traction unit', 'goniometer set', 'weight set', 'cone set']) {
+    index.addTerm(term, term, 20, 'equipment', 'general', tokenize);
+  }
+  index.finalizeIndex();
+
+  it('ranks a partial match on a rare token above partial matches on a common one', () => {
+    const ranked = index.rankPartial('unit goniometer', tokenize);
+
+    expect(ranked[0].term.term).toBe('goniometer set');
+    for (const other of ranked.slice(1)) {
+      expect(other.term.term).toMatch(/ unit$/);
+      expect(other.bm25).toBeLessThan(ranked[0].bm25);
+    }
+  });
+
+  it('normalizes relevance to the score of a term whose tokens all match', () => {
+    const [full, ...partial] = index.rankPartial('tens unit', tokenize);
+
+    expect(full.term.term).toBe('tens unit');
+    expect(full.relevance).toBe(1);
+    for (const result of partial) {
+      expect(result.relevance).toBeGreaterThan(0);
+      expect(result.relevance).toBeLessThan(1);
+    }
+  });
+
+  it('caps the ranked results and keeps searchPartial in rank order', () => {
+    expect(index.rankPartial('unit set', tokenize, 2)).toHaveLength(2);
+    expect(index.searchPartial('unit goniometer', tokenize).map(term => term.term))
+      .toEqual(index.rankPartial('unit goniometer', tokenize, Infinity).map(result => result.term.term));
+    expect(index.rankPartial('refrigerator', tokenize)).toEqual([]);
+  });
+});
+
+describe('MedicalTokenizer', () => {
+  const arabic = new MedicalTokenizer('ar');
+
+  it('strips the Arabic article and the prepositions attached to it', () => {
+    expect(arabic.tokenize('العكاز بالعكاز والعكاز للعكاز')).toEqual(['عكاز', 'عكاز', 'عكاز', 'عكاز']);
+  });
+
+  it('keeps the prefix when fewer than three letters would remain', () => {
+    expect(arabic.tokenize('الطب')).toEqual(['الطب']);
+  });
+
+  it('leaves words without a prefix unchanged', () => {
+    expect(arabic.tokenize('عكاز مشاية')).toEqual(['عكاز', 'مشاية']);
+  });
+
+  it('does not split English words into smaller tokens', () => {
+    expect(tokenize('Chrome ROM')).toEqual(['chrome', 'rom']);
+  });
+});
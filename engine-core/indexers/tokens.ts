@@ -2,6 +2,7 @@
  * Token Index System for Ultra-Fast Medical Term Lookups
  * Pre-compiled token mapping with inverted indices
  */
+import { BinaryReader, BinaryWriter } from './binary';
 
 export interface TokenEntry {
   token: string;
@@ -21,11 +22,43 @@ export interface TermEntry {
   tf?: Map<string, number>; // Term Frequency per token
 }
 
+export interface RankedTerm {
+  term: TermEntry;
+  /** Raw BM25 score of the query against this term */
+  bm25: number;
+  /** BM25 score as a fraction of what the term scores when all of its tokens match (0–1) */
+  relevance: number;
+}
+
+// BM25 parameters: term-frequency saturation and term-length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const BINARY_MAGIC = 'PTTK';
+
+// Binary section ids, in write order; variable-length lists are stored as offsets + flat values
+const SECTION = {
+  meta: 0,
+  tokens: 1,
+  tokenIdf: 2,
+  postingOffsets: 3,
+  postings: 4,
+  terms: 5,
+  termScores: 6,
+  termTokenOffsets: 7,
+  termTokens: 8,
+  tfOffsets: 9,
+  tfTokens: 10,
+  tfValues: 11 // Normalized by term length, so stored as float64
+};
+
 export class TokenIndex {
   private tokenMap: Map<string, TokenEntry>;
   private termMap: Map<number, TermEntry>;
   private termIdCounter: number;
   private totalTerms: number;
+  private avgTermLength = 0;
+  private maxBm25: Map<number, number> = new Map(); // termId -> score when every token matches
 
   constructor() {
     this.tokenMap = new Map();
@@ -94,11 +127,12 @@ export class TokenIndex {
    * Finalize index by calculating IDF values
    */
   finalizeIndex(): void {
-    // Calculate IDF for each token
+    // Calculate BM25 IDF for each token; every term is one document
     for (const tokenEntry of this.tokenMap.values()) {
       const documentFreq = tokenEntry.termIds.size;
-      tokenEntry.idf = Math.log(this.totalTerms / documentFreq);
+      tokenEntry.idf = Math.log(1 + (this.totalTerms - documentFreq + 0.5) / (documentFreq + 0.5));
     }
+    this.computeBm25Bounds();
     
     console.log(`Finalized token index: ${this.tokenMap.size} unique tokens, ${this.totalTerms} terms`);
   }
@@ -173,22 +207,66 @@ export class TokenIndex {
   }
 
   /**
-   * Get terms that contain any of the query tokens
+   * Get terms that contain any of the query tokens, most relevant first
    */
   searchPartial(query: string, tokenizer: (text: string) => string[]): TermEntry[] {
-    const queryTokens = tokenizer(query);
-    const matches = new Set<number>();
-    
-    queryTokens.forEach(token => {
+    return this.rankPartial(query, tokenizer, Infinity).map(result => result.term);
+  }
+
+  /**
+   * Rank terms sharing tokens with the query by BM25, so rare tokens like "goniometer"
+   * outweigh common ones like "set" or "unit"
+   */
+  rankPartial(
+    query: string,
+    tokenizer: (text: string) => string[],
+    maxResults: number = 10
+  ): RankedTerm[] {
+    const scores = new Map<number, number>(); // termId -> BM25 score
+
+    for (const token of new Set(tokenizer(query))) {
       const tokenEntry = this.tokenMap.get(token);
-      if (tokenEntry) {
-        tokenEntry.termIds.forEach(termId => matches.add(termId));
-      }
-    });
+      if (!tokenEntry) continue;
+      tokenEntry.termIds.forEach(termId => {
+        const weight = this.bm25Weight(this.termMap.get(termId)!, token, tokenEntry.idf || 0);
+        scores.set(termId, (scores.get(termId) || 0) + weight);
+      });
+    }
 
-    return Array.from(matches)
-      .map(termId => this.termMap.get(termId)!)
-      .sort((a, b) => b.score - a.score);
+    return Array.from(scores.entries())
+      .map(([termId, bm25]) => {
+        const max = this.maxBm25.get(termId) || 0;
+        return { term: this.termMap.get(termId)!, bm25, relevance: max > 0 ? Math.min(bm25 / max, 1) : 0 };
+      })
+      .sort((a, b) => b.relevance - a.relevance || b.term.score - a.term.score)
+      .slice(0, maxResults);
+  }
+
+  /**
+   * BM25 contribution of one token to a term
+   */
+  private bm25Weight(termEntry: TermEntry, token: string, idf: number): number {
+    const length = termEntry.tokens.length;
+    const frequency = Math.round((termEntry.tf?.get(token) || 0) * length); // tf is stored normalized by length
+    const lengthNorm = 1 - BM25_B + BM25_B * (length / (this.avgTermLength || 1));
+    return idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+  }
+
+  /**
+   * Precompute average term length and each term's best possible score, used to normalize relevance
+   */
+  private computeBm25Bounds(): void {
+    const terms = Array.from(this.termMap.values());
+    this.avgTermLength = terms.reduce((sum, term) => sum + term.tokens.length, 0) / (terms.length || 1);
+
+    this.maxBm25.clear();
+    for (const term of terms) {
+      let max = 0;
+      for (const token of new Set(term.tokens)) {
+        max += this.bm25Weight(term, token, this.tokenMap.get(token)?.idf || 0);
+      }
+      this.maxBm25.set(term.id, max);
+    }
   }
 
   /**
@@ -269,10 +347,124 @@ export class TokenIndex {
 
     index.termIdCounter = data.termIdCounter;
     index.totalTerms = data.totalTerms;
+    index.computeBm25Bounds();
     
     return index;
   }
 
+  /**
+   * Serialize index to the binary runtime format
+   */
+  serializeBinary(): ArrayBuffer {
+    const writer = new BinaryWriter();
+
+    const tokens: number[] = [];
+    const tokenIdf: number[] = [];
+    const postingOffsets = [0];
+    const postings: number[] = [];
+    for (const entry of this.tokenMap.values()) {
+      tokens.push(writer.string(entry.token), entry.frequency);
+      tokenIdf.push(entry.idf ?? NaN);
+      for (const termId of entry.termIds) {
+        postings.push(termId);
+      }
+      postingOffsets.push(postings.length);
+    }
+
+    const terms: number[] = [];
+    const termScores: number[] = [];
+    const termTokenOffsets = [0];
+    const termTokens: number[] = [];
+    const tfOffsets = [0];
+    const tfTokens: number[] = [];
+    const tfValues: number[] = [];
+    for (const entry of this.termMap.values()) {
+      terms.push(
+        entry.id,
+        writer.string(entry.term),
+        writer.string(entry.normalizedTerm),
+        writer.string(entry.category),
+        writer.string(entry.pt_domain)
+      );
+      termScores.push(entry.score);
+      termTokens.push(...entry.tokens.map(token => writer.string(token)));
+      termTokenOffsets.push(termTokens.length);
+      for (const [token, frequency] of entry.tf ?? []) {
+        tfTokens.push(writer.string(token));
+        tfValues.push(frequency);
+      }
+      tfOffsets.push(tfTokens.length);
+    }
+
+    writer.addUint32([this.termIdCounter, this.totalTerms]);
+    writer.addUint32(tokens);
+    writer.addFloat64(tokenIdf);
+    writer.addUint32(postingOffsets);
+    writer.addUint32(postings);
+    writer.addUint32(terms);
+    writer.addFloat64(termScores);
+    writer.addUint32(termTokenOffsets);
+    writer.addUint32(termTokens);
+    writer.addUint32(tfOffsets);
+    writer.addUint32(tfTokens);
+    writer.addFloat64(tfValues);
+    return writer.finish(BINARY_MAGIC);
+  }
+
+  /**
+   * Deserialize index from the binary runtime format
+   */
+  static deserializeBinary(buffer: ArrayBuffer): TokenIndex {
+    const reader = new BinaryReader(buffer, BINARY_MAGIC, 'token index');
+    const index = new TokenIndex();
+
+    const tokens = reader.uint32(SECTION.tokens);
+    const tokenIdf = reader.float64(SECTION.tokenIdf);
+    const postingOffsets = reader.uint32(SECTION.postingOffsets);
+    const postings = reader.uint32(SECTION.postings);
+    for (let i = 0; i < tokenIdf.length; i++) {
+      const token = reader.string(tokens[i * 2]);
+      index.tokenMap.set(token, {
+        token,
+        termIds: new Set(postings.subarray(postingOffsets[i], postingOffsets[i + 1])),
+        frequency: tokens[i * 2 + 1],
+        ...(Number.isNaN(tokenIdf[i]) ? {} : { idf: tokenIdf[i] })
+      });
+    }
+
+    const terms = reader.uint32(SECTION.terms);
+    const termScores = reader.float64(SECTION.termScores);
+    const termTokenOffsets = reader.uint32(SECTION.termTokenOffsets);
+    const termTokens = reader.uint32(SECTION.termTokens);
+    const tfOffsets = reader.uint32(SECTION.tfOffsets);
+    const tfTokens = reader.uint32(SECTION.tfTokens);
+    const tfValues = reader.float64(SECTION.tfValues);
+    for (let i = 0; i < termScores.length; i++) {
+      const base = i * 5;
+      const entryTf = new Map<string, number>();
+      for (let j = tfOffsets[i]; j < tfOffsets[i + 1]; j++) {
+        entryTf.set(reader.string(tfTokens[j]), tfValues[j]);
+      }
+      index.termMap.set(terms[base], {
+        id: terms[base],
+        term: reader.string(terms[base + 1]),
+        normalizedTerm: reader.string(terms[base + 2]),
+        tokens: Array.from(termTokens.subarray(termTokenOffsets[i], termTokenOffsets[i + 1]), id => reader.string(id)),
+        score: termScores[i],
+        category: reader.string(terms[base + 3]),
+        pt_domain: reader.string(terms[base + 4]),
+        tf: entryTf
+      });
+    }
+
+    const [termIdCounter, totalTerms] = reader.uint32(SECTION.meta);
+    index.termIdCounter = termIdCounter;
+    index.totalTerms = totalTerms;
+    index.computeBm25Bounds();
+
+    return index;
+  }
+
   /**
    * Get index statistics
    */
@@ -290,11 +482,18 @@ export class TokenIndex {
     };
   }
 
-  private estimateMemoryUsage(): string {
+  /**
+   * Estimated memory usage in bytes
+   */
+  getMemoryUsage(): number {
     // Rough estimate
     const tokenMapSize = this.tokenMap.size * 50; // 50 bytes per token entry
     const termMapSize = this.totalTerms * 200; // 200 bytes per term entry
-    const totalBytes = tokenMapSize + termMapSize;
+    return tokenMapSize + termMapSize;
+  }
+
+  private estimateMemoryUsage(): string {
+    const totalBytes = this.getMemoryUsage();
     
     if (totalBytes > 1024 * 1024) {
       return `${(totalBytes / (1024 * 1024)).toFixed(2)} MB`;
@@ -306,6 +505,9 @@ export class TokenIndex {
   }
 }
 
+// Longest first: conjunction/preposition + article, then the article alone
+const ARABIC_ARTICLE_PREFIXES = ['وبال', 'وكال', 'وال', 'بال', 'كال', 'فال', 'ولل', 'لل', 'ال'];
+
 /**
  * Medical Tokenizer - Specialized for medical terminology
  */
@@ -341,7 +543,20 @@ export class MedicalTokenizer {
     return text
       .replace(/[^\u0600-\u06FF\s]/g, ' ') // Keep only Arabic characters
       .split(/\s+/)
-      .filter(token => token.length > 0);
+      .filter(token => token.length > 0)
+      .map(token => this.stripArabicPrefix(token));
+  }
+
+  /**
+   * Strip the definite article and prepositions attached to it, so "بالعكاز" and "العكاز" both become "عكاز"
+   */
+  private stripArabicPrefix(token: string): string {
+    for (const prefix of ARABIC_ARTICLE_PREFIXES) {
+      if (token.startsWith(prefix) && token.length - prefix.length >= 3) {
+        return token.slice(prefix.length);
+      }
+    }
+    return token;
   }
 
   private tokenizeEnglish(text: string): string[] {
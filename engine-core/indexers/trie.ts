@@ -2,6 +2,13 @@
  * Compressed Trie (Radix Tree) for Ultra-Fast Prefix Matching
  * Optimized for medical terminology with memory compression
  */
+import type { EditCosts } from '../edit-distance';
+import { BinaryReader, BinaryWriter, NONE } from './binary';
+
+const BINARY_MAGIC = 'PTTR';
+
+// Binary section ids, in write order
+const SECTION = { meta: 0, nodes: 1, valueStrings: 2, valueNumbers: 3 };
 
 interface TrieNode {
   key: string;
@@ -10,7 +17,7 @@ interface TrieNode {
   isEndOfWord: boolean;
 }
 
-interface TrieValue {
+export interface TrieValue {
   term: string;
   score: number;
   category: string;
@@ -113,11 +120,17 @@ export class CompressedTrie {
   }
 
   /**
-   * Find best matching terms using fuzzy matching
+   * Find best matching terms using fuzzy matching.
+   * With edit costs, maxDistance is a weighted budget, so cheap spelling variants fit several times over.
    */
-  fuzzySearch(query: string, maxDistance: number = 2, maxResults: number = 5): TrieValue[] {
+  fuzzySearch(query: string, maxDistance: number = 2, maxResults: number = 5, costs?: EditCosts): TrieValue[] {
     const results: Array<{value: TrieValue, distance: number}> = [];
-    this.fuzzySearchRecursive(this.root, '', query, 0, maxDistance, results, maxResults);
+    if (costs) {
+      const queryChars = Array.from(query);
+      this.weightedSearchRecursive(this.root, costs.firstRow(queryChars), queryChars, costs, maxDistance, results);
+    } else {
+      this.fuzzySearchRecursive(this.root, '', query, 0, maxDistance, results, maxResults);
+    }
     
     return results
       .sort((a, b) => {
@@ -251,6 +264,34 @@ export class CompressedTrie {
     }
   }
 
+  /**
+   * Weighted fuzzy search helper: extends the edit-distance row one character at a time
+   * down each branch and prunes once every cell exceeds the budget
+   */
+  private weightedSearchRecursive(
+    node: TrieNode,
+    row: number[],
+    query: string[],
+    costs: EditCosts,
+    maxDistance: number,
+    results: Array<{value: TrieValue, distance: number}>
+  ): void {
+    if (node.isEndOfWord && node.value && row[query.length] <= maxDistance) {
+      results.push({ value: node.value, distance: row[query.length] });
+    }
+
+    for (const childNode of node.children.values()) {
+      let childRow = row;
+      for (const char of childNode.key) {
+        childRow = costs.nextRow(childRow, char, query);
+        if (Math.min(...childRow) > maxDistance) break;
+      }
+      if (Math.min(...childRow) <= maxDistance) {
+        this.weightedSearchRecursive(childNode, childRow, query, costs, maxDistance, results);
+      }
+    }
+  }
+
   /**
    * Get common prefix of two strings
    */
@@ -345,6 +386,83 @@ export class CompressedTrie {
     return node;
   }
 
+  /**
+   * Serialize trie to the binary runtime format: nodes in preorder as
+   * [key, child count, value index, end-of-word] rows, values as string-id and number columns
+   */
+  serializeBinary(): ArrayBuffer {
+    const writer = new BinaryWriter();
+    const nodes: number[] = [];
+    const valueStrings: number[] = [];
+    const valueNumbers: number[] = [];
+
+    const visit = (node: TrieNode) => {
+      let valueIndex = NONE;
+      if (node.value) {
+        valueIndex = valueNumbers.length / 2;
+        const { term, category, pt_domain, score, frequency } = node.value;
+        valueStrings.push(writer.string(term), writer.string(category), writer.string(pt_domain));
+        valueNumbers.push(score, frequency ?? NaN);
+      }
+      nodes.push(writer.string(node.key), node.children.size, valueIndex, node.isEndOfWord ? 1 : 0);
+      for (const child of node.children.values()) {
+        visit(child);
+      }
+    };
+    visit(this.root);
+
+    writer.addUint32([this.nodeCount, this.termCount]);
+    writer.addUint32(nodes);
+    writer.addUint32(valueStrings);
+    writer.addFloat64(valueNumbers);
+    return writer.finish(BINARY_MAGIC);
+  }
+
+  /**
+   * Deserialize trie from the binary runtime format
+   */
+  static deserializeBinary(buffer: ArrayBuffer): CompressedTrie {
+    const reader = new BinaryReader(buffer, BINARY_MAGIC, 'trie');
+    const [nodeCount, termCount] = reader.uint32(SECTION.meta);
+    const nodes = reader.uint32(SECTION.nodes);
+    const valueStrings = reader.uint32(SECTION.valueStrings);
+    const valueNumbers = reader.float64(SECTION.valueNumbers);
+
+    let row = 0;
+    const readNode = (): TrieNode => {
+      const base = row++ * 4;
+      const valueIndex = nodes[base + 2];
+      const node: TrieNode = {
+        key: reader.string(nodes[base]),
+        children: new Map(),
+        isEndOfWord: nodes[base + 3] === 1
+      };
+
+      if (valueIndex !== NONE) {
+        const frequency = valueNumbers[valueIndex * 2 + 1];
+        node.value = {
+          term: reader.string(valueStrings[valueIndex * 3]),
+          score: valueNumbers[valueIndex * 2],
+          category: reader.string(valueStrings[valueIndex * 3 + 1]),
+          pt_domain: reader.string(valueStrings[valueIndex * 3 + 2]),
+          ...(Number.isNaN(frequency) ? {} : { frequency })
+        };
+      }
+
+      for (let i = nodes[base + 1]; i > 0; i--) {
+        const child = readNode();
+        node.children.set(child.key, child);
+      }
+      return node;
+    };
+
+    const trie = new CompressedTrie();
+    trie.root = readNode();
+    trie.nodeCount = nodeCount;
+    trie.termCount = termCount;
+    return trie;
+  }
+
   /**
    * Get memory usage statistics
    */
@@ -353,10 +471,18 @@ export class CompressedTrie {
       nodeCount: this.nodeCount,
       termCount: this.termCount,
       avgBranchingFactor: this.calculateAvgBranching(),
-      memoryEstimate: this.estimateMemoryUsage()
+      memoryEstimate: this.getMemoryUsage()
     };
   }
 
+  /**
+   * Estimated memory usage in bytes
+   */
+  getMemoryUsage(): number {
+    // Rough estimate: each node ~100 bytes (key + value + children map)
+    return this.nodeCount * 100;
+  }
+
   private calculateAvgBranching(): number {
     let totalChildren = 0;
     let nodeCount = 0;
@@ -372,9 +498,4 @@ export class CompressedTrie {
     traverse(this.root);
     return nodeCount > 0 ? totalChildren / nodeCount : 0;
   }
-
-  private estimateMemoryUsage(): number {
-    // Rough estimate: each node ~100 bytes (key + value + children map)
-    return this.nodeCount * 100;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+/**
+ * Memory Budget
+ * Accounts classifier memory against `RuntimeConfig.max_memory_mb` and records staged downgrades
+ */
+
+/** Downgrades in the order they are applied; each runs only while usage is still over budget */
+export const DEGRADATION_STAGES = ['drop_fuzzy_indices', 'evict_shards', 'refuse_new_shards'] as const;
+
+export type DegradationStage = typeof DEGRADATION_STAGES[number];
+
+/** Estimated bytes per component */
+export interface MemoryBreakdown {
+  bloom: number;
+  trie: number;
+  tokens: number;
+  shards: number;
+  explanations: number;
+}
+
+export interface Downgrade {
+  stage: DegradationStage;
+  used_bytes: number; // Usage that triggered the stage
+  budget_bytes: number;
+}
+
+// Rough estimate: an explanation step object with its label and source strings
+const EXPLANATION_STEP_BYTES = 200;
+
+export class MemoryAccountant {
+  readonly budgetBytes: number;
+  private explanationSteps = 0;
+  private downgrades: Downgrade[] = [];
+
+  /**
+   * No budget (undefined or 0) means nothing is ever downgraded
+   */
+  constructor(maxMemoryMb?: number) {
+    this.budgetBytes = maxMemoryMb ? maxMemoryMb * 1024 * 1024 : Infinity;
+  }
+
+  /**
+   * Count explanation steps held by results that have not been handed back yet
+   */
+  retainExplanations(steps: number): void {
+    this.explanationSteps += steps;
+  }
+
+  releaseExplanations(steps: number): void {
+    this.explanationSteps = Math.max(0, this.explanationSteps - steps);
+  }
+
+  explanationBytes(): number {
+    return this.explanationSteps * EXPLANATION_STEP_BYTES;
+  }
+
+  /**
+   * Memory held by indices, shards and the explanations of results not handed back yet
+   */
+  total(breakdown: MemoryBreakdown): number {
+    return breakdown.bloom + breakdown.trie + breakdown.tokens + breakdown.shards + breakdown.explanations;
+  }
+
+  isOverBudget(breakdown: MemoryBreakdown): boolean {
+    return this.total(breakdown) > this.budgetBytes;
+  }
+
+  isDegraded(stage: DegradationStage): boolean {
+    return this.downgrades.some(downgrade => downgrade.stage === stage);
+  }
+
+  /**
+   * Record a stage the first time it is applied; stages stay in effect until the classifier is re-initialized
+   */
+  degrade(stage: DegradationStage, breakdown: MemoryBreakdown): void {
+    if (this.isDegraded(stage)) return;
+    const usedBytes = this.total(breakdown);
+    this.downgrades.push({ stage, used_bytes: usedBytes, budget_bytes: this.budgetBytes });
+    console.warn(`⚠️ Memory budget exceeded (${formatBytes(usedBytes)} of ${formatBytes(this.budgetBytes)}): ${stage.replace(/_/g, ' ')}`);
+  }
+
+  report(breakdown: MemoryBreakdown) {
+    return {
+      budget_mb: Number.isFinite(this.budgetBytes) ? this.budgetBytes / (1024 * 1024) : null,
+      used_mb: Number((this.total(breakdown) / (1024 * 1024)).toFixed(2)),
+      breakdown,
+      downgrades: [...this.downgrades]
+    };
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes > 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  }
+  return `${(bytes / 1024).toFixed(2)} KB`;
+}
@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import { describe, expect, it } from 'vitest';
+import { createNormalizer } from './normalizer';
+
+function rules(language: 'ar' | 'en') {
+  return JSON.parse(fs.readFileSync(`registry/pt.normalization.${language}/1.0.0/rules.json`, 'utf-8'));
+}
+
+describe('createNormalizer', () => {
+  const english = createNormalizer(rules('en'));
+
+  it.each(['rehabilitation', 'physiotherapy', 'orthopedic', 'occupational', 'adapter'])(
+    'leaves %s intact although a word map key occurs inside it',
+    word => {
+      expect(english(word)).toBe(word);
+    }
+  );
+
+  it('expands abbreviations that stand as whole words', () => {
+    expect(english('Treadmill Rehab')).toBe('treadmill rehabilitation');
+    expect(english('PT, ortho & neuro')).toBe('physiotherapy, orthopedic and neurological');
+  });
+
+  it('maps plurals only as whole words', () => {
+    expect(english('Wheelchairs and crutches')).toBe('wheelchair and crutch');
+    expect(english('embraces')).toBe('embraces');
+  });
+
+  it('applies character maps inside words', () => {
+    expect(english('Café-Physio')).toBe('cafe physiotherapy');
+  });
+
+  it('does not treat rule switches as character maps', () => {
+    expect(english('method')).toBe('method');
+  });
+
+  it('normalizes Arabic letters inside words', () => {
+    expect(createNormalizer(rules('ar'))('عُكّاز  أطفال')).toBe('عكاز اطفال');
+  });
+});
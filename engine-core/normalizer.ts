@@ -0,0 +1,63 @@
+/**
+ * Text Normalizer
+ * Applies a normalization package's rules in their processing order; shared by the classifiers and the runtime compiler
+ */
+import type { NormalizationRules } from './types';
+
+// Steps mapping whole words, e.g. "rehab" -> "rehabilitation"; every other map replaces characters
+const WORD_MAP_STEPS = new Set(['medical_abbreviations', 'plural_normalization', 'brand_normalization']);
+
+/**
+ * Build the normalizer for one language's rules. Output is lowercased and trimmed.
+ */
+export function createNormalizer(rules: NormalizationRules): (text: string) => string {
+  const steps = (rules.processing_order || []).map(step => compileStep(step, rules[step]));
+
+  return (text: string) => {
+    let normalized = text.toLowerCase();
+    for (const step of steps) {
+      normalized = step(normalized);
+    }
+    return normalized.trim();
+  };
+}
+
+function compileStep(name: string, rule: any): (text: string) => string {
+  if (typeof rule !== 'object' || rule === null) {
+    return text => text;
+  }
+  if (rule.pattern) {
+    const pattern = new RegExp(rule.pattern, 'g');
+    return text => text.replace(pattern, rule.replacement);
+  }
+  if ('enabled' in rule) {
+    // A switch such as case_folding; text is already lowercased
+    return text => text;
+  }
+
+  const map = Object.entries(rule).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[0] !== '');
+  if (map.length === 0) {
+    return text => text;
+  }
+
+  if (WORD_MAP_STEPS.has(name)) {
+    // Longest first, so a word is never cut short by a shorter key; a key only matches between non-word characters
+    const words = new Map(map);
+    const alternatives = map.map(([from]) => from).sort((a, b) => b.length - a.length).map(escapeRegExp);
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}\\p{M}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}\\p{M}])`, 'gu');
+    return text => text.replace(pattern, word => words.get(word)!);
+  }
+
+  // Character maps are literal strings, applied one after another
+  return text => {
+    let normalized = text;
+    for (const [from, to] of map) {
+      normalized = normalized.split(from).join(to);
+    }
+    return normalized;
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,89 @@
+/**
+ * Registry Sources
+ * Pluggable backends that PackageComposer reads registry packages and profiles from
+ */
+import type { RegistrySource } from './types';
+
+/**
+ * Reads registry files from a web server (the default browser setup).
+ * Web servers cannot list directories, so versions come from `registry/index.json`
+ * (generated by scripts/build_registry.ts)
+ */
+export class HttpRegistrySource implements RegistrySource {
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+  private index: Promise<Record<string, string[]>> | null = null;
+
+  constructor(baseUrl: string = '/pt', fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.fetchImpl = fetchImpl;
+  }
+
+  async readText(path: string): Promise<string> {
+    const url = `${this.baseUrl}/${path.replace(/^\/+/, '')}`;
+    const response = await this.fetchImpl(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url}: ${response.statusText}`);
+    }
+    return await response.text();
+  }
+
+  async listVersions(packageName: string): Promise<string[]> {
+    if (!this.index) {
+      this.index = this.readText('registry/index.json').then(text => JSON.parse(text).packages || {});
+      this.index.catch(() => { this.index = null; });
+    }
+    return (await this.index)[packageName] || [];
+  }
+}
+
+/**
+ * Serves registry files from memory - useful for tests and for bundling a registry into an app
+ */
+export class MemoryRegistrySource implements RegistrySource {
+  private files: Map<string, string> = new Map();
+
+  constructor(files: Record<string, unknown> = {}) {
+    for (const [path, content] of Object.entries(files)) {
+      this.set(path, content);
+    }
+  }
+
+  /**
+   * Add or replace a file. Non-string content is serialized (arrays as JSONL for `.jsonl` paths)
+   */
+  set(path: string, content: unknown): void {
+    let text: string;
+    if (typeof content === 'string') {
+      text = content;
+    } else if (path.endsWith('.jsonl') && Array.isArray(content)) {
+      text = content.map(entry => JSON.stringify(entry)).join('\n');
+    } else {
+      text = JSON.stringify(content);
+    }
+    this.files.set(this.key(path), text);
+  }
+
+  async readText(path: string): Promise<string> {
+    const text = this.files.get(this.key(path));
+    if (text === undefined) {
+      throw new Error(`Failed to load ${path}: not found in memory registry`);
+    }
+    return text;
+  }
+
+  async listVersions(packageName: string): Promise<string[]> {
+    const prefix = `registry/${packageName}/`;
+    const versions = new Set<string>();
+    for (const key of this.files.keys()) {
+      if (key.startsWith(prefix)) {
+        versions.add(key.slice(prefix.length).split('/')[0]);
+      }
+    }
+    return Array.from(versions);
+  }
+
+  private key(path: string): string {
+    return path.replace(/^\/+/, '');
+  }
+}
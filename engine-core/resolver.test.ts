@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { PackageResolver } from './resolver';
+import type { PTProfile, RegistrySource } from './types';
+
+/** An in-memory registry: `name@version` → dependencies */
+function registry(packages: Record<string, string[]>): RegistrySource {
+  return {
+    async listVersions(name) {
+      return Object.keys(packages).filter(key => key.startsWith(`${name}@`)).map(key => key.split('@')[1]);
+    },
+    async readText(path) {
+      const [, name, version] = path.split('/');
+      const dependencies = packages[`${name}@${version}`];
+      if (!dependencies) throw new Error(`Not found: ${path}`);
+      return JSON.stringify({ name, version, dependencies });
+    }
+  };
+}
+
+function profile(packages: PTProfile['packages']): PTProfile {
+  return { profile_name: 'test', description: '', version: '1.0.0', target_environments: [], packages, runtime_config: {} as PTProfile['runtime_config'], features: {} };
+}
+
+describe('PackageResolver', () => {
+  it('resolves ranges to the highest match and orders dependencies first', async () => {
+    const source = registry({
+      'pt.taxonomy.core@1.0.0': [],
+      'pt.taxonomy.core@1.1.0': [],
+      'pt.taxonomy.core@2.0.0': [],
+      'pt.vocab.ar@3.2.0': ['pt.taxonomy.core/^1.0.0'],
+      'pt.vocab.ar@3.3.0': ['pt.taxonomy.core/^1.0.0']
+    });
+
+    const resolved = await new PackageResolver(source).resolve(profile({ 'pt.vocab.ar': '^3.0.0' }));
+
+    expect(resolved.map(pkg => `${pkg.name}@${pkg.version}`)).toEqual(['pt.taxonomy.core@1.1.0', 'pt.vocab.ar@3.3.0']);
+  });
+
+  it('narrows an already picked version when a dependency found later constrains it', async () => {
+    const source = registry({
+      'pt.taxonomy.core@1.1.0': [],
+      'pt.taxonomy.core@2.0.0': [],
+      'pt.rules.ar@1.2.0': ['pt.taxonomy.core/~1.1.0']
+    });
+
+    const resolved = await new PackageResolver(source).resolve(profile({ 'pt.taxonomy.core': '*', 'pt.rules.ar': '1.2.0' }));
+
+    expect(resolved.find(pkg => pkg.name === 'pt.taxonomy.core')?.version).toBe('1.1.0');
+  });
+
+  it('reports unsatisfiable and conflicting requirements', async () => {
+    const source = registry({
+      'pt.taxonomy.core@1.1.0': [],
+      'pt.taxonomy.core@2.0.0': [],
+      'pt.rules.ar@1.2.0': ['pt.taxonomy.core/^2.0.0']
+    });
+    const resolver = () => new PackageResolver(source);
+
+    await expect(resolver().resolve(profile({ 'pt.taxonomy.core': '^3.0.0' }))).rejects.toThrow(/No version of pt.taxonomy.core satisfies "\^3.0.0"/);
+    await expect(resolver().resolve(profile({ 'pt.taxonomy.core': '^1.0.0', 'pt.rules.ar': '1.2.0' })))
+      .rejects.toThrow(/Conflicting version requirements for pt.taxonomy.core/);
+  });
+
+  it('skips optional packages missing from the registry', async () => {
+    const source = registry({ 'pt.taxonomy.core@1.1.0': [] });
+
+    const resolved = await new PackageResolver(source).resolve(profile({
+      'pt.taxonomy.core': '^1.0.0',
+      'pt.brands.core': { version: '^1.0.0', optional: true }
+    }));
+
+    expect(resolved.map(pkg => pkg.name)).toEqual(['pt.taxonomy.core']);
+  });
+
+  it('rejects circular dependencies', async () => {
+    const source = registry({ 'a@1.0.0': ['b/1.0.0'], 'b@1.0.0': ['a/1.0.0'] });
+
+    await expect(new PackageResolver(source).resolve(profile({ a: '1.0.0' }))).rejects.toThrow(/Circular package dependency/);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Package Resolver
+ * Resolves profile version ranges against the registry and orders packages by dependency
+ */
+import type { PackageManifest, PTProfile, RegistrySource, ResolvedPackage } from './types';
+import { compareVersions, isValidRange, isValidVersion, maxSatisfying, satisfies } from './semver';
+
+const MAX_RESOLUTION_PASSES = 50;
+
+interface Constraint {
+  range: string;
+  requiredBy: string; // 'profile' or 'name@version' of the dependent package
+}
+
+export class PackageResolver {
+  private source: RegistrySource;
+  private versionCache: Map<string, string[]> = new Map();
+  private manifestCache: Map<string, PackageManifest> = new Map();
+
+  constructor(source: RegistrySource) {
+    this.source = source;
+  }
+
+  /**
+   * Resolve every profile package and its transitive dependencies.
+   * Returns packages in load order: each package comes after everything it depends on.
+   */
+  async resolve(profile: PTProfile): Promise<ResolvedPackage[]> {
+    const constraints = new Map<string, Constraint[]>();
+    const optional = new Set<string>();
+
+    for (const [name, ref] of Object.entries(profile.packages)) {
+      const range = typeof ref === 'string' ? ref : ref.version;
+      this.addConstraint(constraints, name, { range, requiredBy: 'profile' });
+      if (typeof ref !== 'string' && ref.optional) {
+        optional.add(name);
+      }
+    }
+
+    // Re-resolve until a pass introduces no new constraints: a dependency found late
+    // may narrow the version of a package that was already picked
+    const resolved = new Map<string, ResolvedPackage>();
+    let changed = true;
+    let passes = 0;
+    while (changed) {
+      changed = false;
+      if (++passes > MAX_RESOLUTION_PASSES) {
+        throw new Error(`Package resolution did not settle after ${MAX_RESOLUTION_PASSES} passes; check for mutually incompatible dependencies`);
+      }
+
+      for (const [name, packageConstraints] of Array.from(constraints.entries())) {
+        const available = await this.getVersions(name);
+        if (available.length === 0) {
+          if (optional.has(name) && packageConstraints.every(c => c.requiredBy === 'profile')) {
+            continue;
+          }
+          throw new Error(
+            `Package ${name} is not in the registry (required by ${this.describeConstraints(packageConstraints)})`
+          );
+        }
+
+        const version = this.pickVersion(name, available, packageConstraints);
+        if (resolved.get(name)?.version === version) continue;
+
+        const manifest = await this.getManifest(name, version);
+        const dependencies: string[] = [];
+        for (const dependency of manifest.dependencies || []) {
+          const { name: depName, range } = this.parseDependency(dependency, `${name}@${version}`);
+          dependencies.push(depName);
+          if (this.addConstraint(constraints, depName, { range, requiredBy: `${name}@${version}` })) {
+            changed = true;
+          }
+        }
+
+        resolved.set(name, {
+          name,
+          version,
+          requested: packageConstraints[0].range,
+          manifest,
+          dependencies
+        });
+        changed = true;
+      }
+
+      // Drop constraints contributed by versions that are no longer selected
+      for (const [name, packageConstraints] of constraints) {
+        const kept = packageConstraints.filter(c => {
+          if (c.requiredBy === 'profile') return true;
+          const [dependent, version] = c.requiredBy.split('@');
+          return resolved.get(dependent)?.version === version;
+        });
+        if (kept.length === 0) {
+          constraints.delete(name);
+          resolved.delete(name);
+        } else {
+          constraints.set(name, kept);
+        }
+      }
+    }
+
+    return this.topologicalOrder(resolved);
+  }
+
+  /**
+   * Split a manifest dependency like `pt.vocab.ar/3.3.0` or `pt.vocab.ar/^3.0.0` into name and range
+   */
+  parseDependency(dependency: string, dependent: string): { name: string; range: string } {
+    const separator = dependency.indexOf('/');
+    const name = separator >= 0 ? dependency.slice(0, separator) : dependency;
+    const range = separator >= 0 ? dependency.slice(separator + 1) : '*';
+
+    if (!name || !isValidRange(range)) {
+      throw new Error(`Invalid dependency "${dependency}" declared by ${dependent}`);
+    }
+
+    return { name, range };
+  }
+
+  private pickVersion(name: string, available: string[], constraints: Constraint[]): string {
+    for (const constraint of constraints) {
+      if (!isValidRange(constraint.range)) {
+        throw new Error(`Invalid version range "${constraint.range}" for ${name} (required by ${constraint.requiredBy})`);
+      }
+    }
+
+    const candidates = available
+      .filter(isValidVersion)
+      .filter(version => constraints.every(c => satisfies(version, c.range)))
+      .sort(compareVersions);
+
+    if (candidates.length > 0) {
+      return candidates[candidates.length - 1];
+    }
+
+    // Explain which constraint cannot be met on its own, otherwise report the conflict
+    for (const constraint of constraints) {
+      if (maxSatisfying(available, constraint.range) === null) {
+        throw new Error(
+          `No version of ${name} satisfies "${constraint.range}" (required by ${constraint.requiredBy}); ` +
+          `available: ${available.join(', ')}`
+        );
+      }
+    }
+
+    throw new Error(
+      `Conflicting version requirements for ${name}: ${this.describeConstraints(constraints)}; ` +
+      `available: ${available.join(', ')}`
+    );
+  }
+
+  private topologicalOrder(resolved: Map<string, ResolvedPackage>): ResolvedPackage[] {
+    const ordered: ResolvedPackage[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (name: string, path: string[]) => {
+      const current = state.get(name);
+      if (current === 'done') return;
+      if (current === 'visiting') {
+        throw new Error(`Circular package dependency: ${[...path, name].join(' → ')}`);
+      }
+
+      const pkg = resolved.get(name)!;
+      state.set(name, 'visiting');
+      for (const dependency of pkg.dependencies) {
+        visit(dependency, [...path, name]);
+      }
+      state.set(name, 'done');
+      ordered.push(pkg);
+    };
+
+    // Visit in name order so the load order is stable across runs
+    for (const name of Array.from(resolved.keys()).sort()) {
+      visit(name, []);
+    }
+
+    return ordered;
+  }
+
+  private addConstraint(constraints: Map<string, Constraint[]>, name: string, constraint: Constraint): boolean {
+    const existing = constraints.get(name) || [];
+    if (existing.some(c => c.range === constraint.range && c.requiredBy === constraint.requiredBy)) {
+      return false;
+    }
+    constraints.set(name, [...existing, constraint]);
+    return true;
+  }
+
+  private describeConstraints(constraints: Constraint[]): string {
+    return constraints.map(c => `"${c.range}" from ${c.requiredBy}`).join(', ');
+  }
+
+  private async getVersions(name: string): Promise<string[]> {
+    if (!this.versionCache.has(name)) {
+      this.versionCache.set(name, await this.source.listVersions(name));
+    }
+    return this.versionCache.get(name)!;
+  }
+
+  private async getManifest(name: string, version: string): Promise<PackageManifest> {
+    const key = `${name}@${version}`;
+    if (!this.manifestCache.has(key)) {
+      const manifest = JSON.parse(await this.source.readText(`registry/${name}/${version}/manifest.json`));
+      if (manifest.name !== name || manifest.version !== version) {
+        throw new Error(
+          `Manifest mismatch at registry/${name}/${version}: declares ${manifest.name}@${manifest.version}`
+        );
+      }
+      this.manifestCache.set(key, manifest);
+    }
+    return this.manifestCache.get(key)!;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Runtime Sources
+ * Backends that the ultra-fast classifier and lazy loader read compiled runtime files from
+ */
+import type { RuntimeSource } from './types';
+
+/**
+ * Reads runtime files over HTTP (the default browser setup)
+ */
+export class HttpRuntimeSource implements RuntimeSource {
+  private fetchImpl: typeof fetch;
+
+  constructor(fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {
+    this.fetchImpl = fetchImpl;
+  }
+
+  async readBuffer(path: string): Promise<ArrayBuffer> {
+    const response = await this.fetchImpl(path);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${path}: HTTP ${response.status}`);
+    }
+    return await response.arrayBuffer();
+  }
+}
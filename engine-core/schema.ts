@@ -0,0 +1,320 @@
+/**
+ * Registry Schema Validation
+ * Structural checks for registry content against the interfaces in types.ts
+ *
+ * Each validator returns a list of human-readable issues; an empty list means the value is valid.
+ */
+
+type Validator = (value: any) => string[];
+
+const MANIFEST_TYPES = ['taxonomy', 'normalization', 'vocabulary', 'rules', 'brands', 'integration'];
+const FILE_FORMATS = ['json', 'jsonl', 'csv', 'jsonl_shards'];
+const NUPCO_RELEVANCE = ['high', 'medium', 'exclude'];
+const MATCH_MODES = ['token', 'substring'];
+
+export function validateManifest(value: any): string[] {
+  const issues = requireObject(value, 'manifest');
+  if (issues.length > 0) return issues;
+
+  issues.push(
+    ...checkString(value, 'name'),
+    ...checkString(value, 'version'),
+    ...checkString(value, 'description'),
+    ...checkEnum(value, 'type', MANIFEST_TYPES),
+    ...checkString(value, 'schema_version'),
+    ...checkString(value, 'created_at'),
+    ...checkStringArray(value, 'dependencies'),
+    ...checkRecord(value, 'metadata', () => [])
+  );
+
+  issues.push(...checkRecord(value, 'files', spec => {
+    if (!isObject(spec)) return ['must be an object'];
+    return [
+      ...checkString(spec, 'description'),
+      ...checkEnum(spec, 'format', FILE_FORMATS),
+      ...checkString(spec, 'encoding'),
+      ...checkOptional(spec, 'checksum', checkString),
+      ...checkOptional(spec, 'shard_checksums', (v, k) => checkRecord(v, k, stringValue))
+    ];
+  }));
+
+  return issues;
+}
+
+export function validateTaxonomy(value: any): string[] {
+  const issues = requireObject(value, 'taxonomy');
+  if (issues.length > 0) return issues;
+
+  issues.push(...checkArray(value, 'l1_categories', (l1, i) => {
+    const prefix = `l1_categories[${i}]`;
+    const l1Issues = requireObject(l1, prefix);
+    if (l1Issues.length > 0) return l1Issues;
+    return [
+      ...checkString(l1, 'id'),
+      ...checkString(l1, 'l1_en'),
+      ...checkString(l1, 'l1_ar'),
+      ...checkArray(l1, 'l2_categories', (l2, j) => {
+        const l2Issues = requireObject(l2, `l2_categories[${j}]`);
+        if (l2Issues.length > 0) return l2Issues;
+        return [
+          ...checkString(l2, 'id'),
+          ...checkString(l2, 'l2_en'),
+          ...checkString(l2, 'l2_ar'),
+          ...checkStringArray(l2, 'body_regions'),
+          ...checkStringArray(l2, 'pt_domains')
+        ].map(issue => `l2_categories[${j}].${issue}`);
+      })
+    ].map(issue => `${prefix}.${issue}`);
+  }));
+
+  if (isObject(value.metadata)) {
+    issues.push(...[
+      ...checkString(value.metadata, 'version'),
+      ...checkNumber(value.metadata, 'total_l1'),
+      ...checkNumber(value.metadata, 'total_l2'),
+      ...checkStringArray(value.metadata, 'supported_domains'),
+      ...checkStringArray(value.metadata, 'supported_regions')
+    ].map(issue => `metadata.${issue}`));
+  } else {
+    issues.push('`metadata` must be an object');
+  }
+
+  return issues;
+}
+
+export function validateNormalizationRules(value: any): string[] {
+  const issues = requireObject(value, 'normalization rules');
+  if (issues.length > 0) return issues;
+
+  issues.push(...checkStringArray(value, 'processing_order'));
+  for (const step of Array.isArray(value.processing_order) ? value.processing_order : []) {
+    if (typeof step === 'string' && !(step in value)) {
+      issues.push(`processing_order references undefined step "${step}"`);
+    }
+  }
+  return issues;
+}
+
+export function validateEditCosts(value: any): string[] {
+  const issues = requireObject(value, 'edit costs');
+  if (issues.length > 0) return issues;
+
+  issues.push(
+    ...checkNumber(value, 'default_cost'),
+    ...checkArray(value, 'substitutions', (entry, i) => {
+      const prefix = `substitutions[${i}]`;
+      const entryIssues = requireObject(entry, prefix);
+      if (entryIssues.length > 0) return entryIssues;
+      const pairValid = Array.isArray(entry.pair) && entry.pair.length === 2 &&
+        entry.pair.every((char: unknown) => typeof char === 'string' && [...char].length === 1);
+      return [
+        ...(pairValid ? [] : ['`pair` must be two single characters']),
+        ...checkNumber(entry, 'cost')
+      ].map(issue => `${prefix}.${issue}`);
+    }),
+    ...checkRecord(value, 'indels', numberValue)
+  );
+  return issues;
+}
+
+export function validateVocabTerm(value: any): string[] {
+  const issues = requireObject(value, 'vocabulary term');
+  if (issues.length > 0) return issues;
+
+  return [
+    ...checkString(value, 'term'),
+    ...checkNumber(value, 'score'),
+    ...checkString(value, 'category'),
+    ...checkString(value, 'pt_domain'),
+    ...checkOptional(value, 'match', (v, k) => checkEnum(v, k, MATCH_MODES))
+  ];
+}
+
+export function validateSynonymEntry(value: any): string[] {
+  const issues = requireObject(value, 'synonym entry');
+  if (issues.length > 0) return issues;
+
+  return [
+    ...checkString(value, 'canonical'),
+    ...checkStringArray(value, 'synonyms'),
+    ...checkNumber(value, 'score'),
+    ...checkOptional(value, 'match', (v, k) => checkEnum(v, k, MATCH_MODES))
+  ];
+}
+
+export function validateRuleFilters(value: any): string[] {
+  const issues = requireObject(value, 'rule filters');
+  if (issues.length > 0) return issues;
+
+  return [
+    ...checkRecord(value, 'hard_blockers', filterTermArrayValue),
+    ...checkRecord(value, 'soft_demotions', filterTermArrayValue),
+    ...checkRecord(value, 'pt_specific_boosts', filterTermArrayValue),
+    ...(isObject(value.contextual_rules) ? [] : ['`contextual_rules` must be an object'])
+  ];
+}
+
+export function validateRuleScoring(value: any): string[] {
+  const issues = requireObject(value, 'rule scoring');
+  if (issues.length > 0) return issues;
+
+  issues.push(
+    ...checkRecord(value, 'base_weights', numberValue),
+    ...checkRecord(value, 'category_multipliers', numberValue),
+    ...checkRecord(value, 'contextual_boosts', rule => !isObject(rule)
+      ? ['must be an object']
+      : [...checkStringArray(rule, 'keywords'), ...checkNumber(rule, 'boost_factor')]),
+    ...checkRecord(value, 'penalty_rules', rule => !isObject(rule)
+      ? ['must be an object']
+      : [...checkStringArray(rule, 'keywords'), ...checkNumber(rule, 'penalty_factor')])
+  );
+
+  if (isObject(value.thresholds)) {
+    issues.push(...['high_confidence', 'medium_confidence', 'low_confidence', 'rejection_threshold']
+      .flatMap(key => checkNumber(value.thresholds, key))
+      .map(issue => `thresholds.${issue}`));
+
+    const { high_confidence, medium_confidence, low_confidence } = value.thresholds;
+    if (high_confidence < medium_confidence || medium_confidence < low_confidence) {
+      issues.push('thresholds must satisfy high_confidence >= medium_confidence >= low_confidence');
+    }
+  } else {
+    issues.push('`thresholds` must be an object');
+  }
+
+  return issues;
+}
+
+export function validateBrand(value: any): string[] {
+  const issues = requireObject(value, 'brand');
+  if (issues.length > 0) return issues;
+
+  return [
+    ...checkString(value, 'brand'),
+    ...checkStringArray(value, 'categories'),
+    ...checkNumber(value, 'reputation_score'),
+    ...checkString(value, 'country'),
+    ...checkBoolean(value, 'pt_focus'),
+    ...checkOptional(value, 'match', (v, k) => checkEnum(v, k, MATCH_MODES))
+  ];
+}
+
+export function validateNupcoCodes(value: any): string[] {
+  const issues = requireObject(value, 'NUPCO code rules');
+  if (issues.length > 0) return issues;
+
+  issues.push(...checkRecord(value, 'prefix_mapping', mapping => !isObject(mapping)
+    ? ['must be an object']
+    : [
+        ...checkString(mapping, 'category'),
+        ...checkEnum(mapping, 'pt_relevance', NUPCO_RELEVANCE),
+        ...checkString(mapping, 'description')
+      ]));
+
+  if (isObject(value.classification_rules)) {
+    issues.push(...['high_pt_relevance', 'medium_pt_relevance', 'excluded_categories', 'requires_manual_review']
+      .flatMap(key => checkStringArray(value.classification_rules, key))
+      .map(issue => `classification_rules.${issue}`));
+  } else {
+    issues.push('`classification_rules` must be an object');
+  }
+
+  return issues;
+}
+
+export function validateGoldenRecord(value: any): string[] {
+  const issues = requireObject(value, 'golden record');
+  if (issues.length > 0) return issues;
+
+  return [
+    ...checkString(value, 'nupco_code'),
+    ...checkString(value, 'item_name'),
+    ...checkNumber(value, 'pt_confidence'),
+    ...checkString(value, 'category'),
+    ...checkBoolean(value, 'verified')
+  ];
+}
+
+/**
+ * Pick the validator for a registry file by package type and file name, or null if the file has no known schema
+ */
+export function getFileValidator(packageType: string, fileName: string): Validator | null {
+  switch (`${packageType}:${fileName}`) {
+    case 'taxonomy:categories.json': return validateTaxonomy;
+    case 'normalization:rules.json': return validateNormalizationRules;
+    case 'normalization:edit_costs.json': return validateEditCosts;
+    case 'vocabulary:include.jsonl': return validateVocabTerm;
+    case 'vocabulary:synonyms_shards/': return validateSynonymEntry;
+    case 'rules:filters.json': return validateRuleFilters;
+    case 'rules:scoring.json': return validateRuleScoring;
+    case 'brands:brands.jsonl': return validateBrand;
+    case 'integration:code_prefix_rules.json': return validateNupcoCodes;
+    case 'integration:golden_records.jsonl': return validateGoldenRecord;
+    default: return null;
+  }
+}
+
+// Field checks
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireObject(value: unknown, label: string): string[] {
+  return isObject(value) ? [] : [`${label} must be an object`];
+}
+
+function checkString(obj: any, key: string): string[] {
+  return typeof obj[key] === 'string' && obj[key].trim() !== '' ? [] : [`\`${key}\` must be a non-empty string`];
+}
+
+function checkNumber(obj: any, key: string): string[] {
+  return typeof obj[key] === 'number' && Number.isFinite(obj[key]) ? [] : [`\`${key}\` must be a number`];
+}
+
+function checkBoolean(obj: any, key: string): string[] {
+  return typeof obj[key] === 'boolean' ? [] : [`\`${key}\` must be a boolean`];
+}
+
+function checkEnum(obj: any, key: string, allowed: string[]): string[] {
+  return allowed.includes(obj[key]) ? [] : [`\`${key}\` must be one of ${allowed.join(', ')}`];
+}
+
+function checkStringArray(obj: any, key: string): string[] {
+  const value = obj[key];
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+    ? []
+    : [`\`${key}\` must be an array of strings`];
+}
+
+function checkArray(obj: any, key: string, check: (item: any, index: number) => string[]): string[] {
+  if (!Array.isArray(obj[key])) return [`\`${key}\` must be an array`];
+  return obj[key].flatMap(check);
+}
+
+function checkRecord(obj: any, key: string, check: (item: any, entryKey: string) => string[]): string[] {
+  if (!isObject(obj[key])) return [`\`${key}\` must be an object`];
+  return Object.entries(obj[key]).flatMap(([entryKey, item]) =>
+    check(item, entryKey).map(issue => `${key}["${entryKey}"] ${issue}`)
+  );
+}
+
+function checkOptional(obj: any, key: string, check: (obj: any, key: string) => string[]): string[] {
+  return obj[key] === undefined ? [] : check(obj, key);
+}
+
+function stringValue(value: unknown): string[] {
+  return typeof value === 'string' ? [] : ['must be a string'];
+}
+
+function numberValue(value: unknown): string[] {
+  return typeof value === 'number' && Number.isFinite(value) ? [] : ['must be a number'];
+}
+
+function filterTermArrayValue(value: unknown): string[] {
+  const isFilterTerm = (item: any) => typeof item === 'string' ||
+    (isObject(item) && typeof item.term === 'string' && (item.match === undefined || MATCH_MODES.includes(item.match)));
+  return Array.isArray(value) && value.every(isFilterTerm)
+    ? []
+    : ['must be an array of terms or { term, match } objects'];
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { compareVersions, isValidRange, maxSatisfying, parseVersion, satisfies } from './semver';
+
+describe('semver', () => {
+  it('parses versions and rejects partial ones', () => {
+    expect(parseVersion('v1.2.3-beta.1+build')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: ['beta', '1'] });
+    expect(parseVersion('1.2')).toBeNull();
+  });
+
+  it('orders prereleases before their release', () => {
+    const sorted = ['1.0.0', '1.0.0-beta.2', '1.0.0-alpha', '0.9.9', '1.0.0-beta.10'].sort(compareVersions);
+    expect(sorted).toEqual(['0.9.9', '1.0.0-alpha', '1.0.0-beta.2', '1.0.0-beta.10', '1.0.0']);
+  });
+
+  it.each([
+    ['1.2.0', '1.2.0', true],
+    ['1.2.1', '1.2.0', false],
+    ['3.9.0', '*', true],
+    ['1.5.0', '1.x', true],
+    ['2.0.0', '1.x', false],
+    ['1.2.9', '1.2', true],
+    ['1.9.0', '^1.2.0', true],
+    ['2.0.0', '^1.2.0', false],
+    ['0.2.5', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['1.2.9', '~1.2.0', true],
+    ['1.3.0', '~1.2.0', false],
+    ['1.5.0', '>=1.0.0 <2.0.0', true],
+    ['2.0.0', '>=1.0.0 <2.0.0', false],
+    ['3.1.0', '^1.0.0 || ^3.0.0', true],
+    ['2.1.0', '^1.0.0 || ^3.0.0', false]
+  ])('%s satisfies %s: %s', (version, range, expected) => {
+    expect(satisfies(version, range)).toBe(expected);
+  });
+
+  it('matches prereleases only when the range names one of the same release', () => {
+    expect(satisfies('2.0.0-rc.1', '^1.0.0 || >=2.0.0-rc.0')).toBe(true);
+    expect(satisfies('2.0.0-rc.1', '>=1.0.0')).toBe(false);
+  });
+
+  it('picks the highest satisfying version', () => {
+    expect(maxSatisfying(['3.1.0', '3.3.0', '4.0.0', '3.2.5'], '^3.1.0')).toBe('3.3.0');
+    expect(maxSatisfying(['1.0.0'], '^2.0.0')).toBeNull();
+  });
+
+  it('validates ranges', () => {
+    expect(isValidRange('>=1.0.0 <2.0.0 || 3.x')).toBe(true);
+    expect(isValidRange('^banana')).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Minimal Semantic Versioning Support
+ * Version parsing and range matching for registry package resolution
+ *
+ * Supported range syntax: exact (`1.2.0`), wildcards (`*`, `1.x`, `1.2`),
+ * caret (`^1.2.0`), tilde (`~1.2.0`), comparators (`>=1.0.0 <2.0.0`) and `||` alternatives.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Comparator = { op: '<' | '<=' | '>' | '>=' | '='; version: SemVer };
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a full `major.minor.patch[-prerelease]` version, or return null if invalid
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions: negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareVersions(a: string | SemVer, b: string | SemVer): number {
+  const va = typeof a === 'string' ? parseVersion(a) : a;
+  const vb = typeof b === 'string' ? parseVersion(b) : b;
+  if (!va || !vb) {
+    throw new Error(`Cannot compare invalid versions: ${String(a)} / ${String(b)}`);
+  }
+
+  if (va.major !== vb.major) return va.major - vb.major;
+  if (va.minor !== vb.minor) return va.minor - vb.minor;
+  if (va.patch !== vb.patch) return va.patch - vb.patch;
+
+  // A release sorts after any of its prereleases
+  if (va.prerelease.length === 0 || vb.prerelease.length === 0) {
+    return vb.prerelease.length - va.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(va.prerelease.length, vb.prerelease.length); i++) {
+    const pa = va.prerelease[i];
+    const pb = vb.prerelease[i];
+    if (pa === undefined) return -1;
+    if (pb === undefined) return 1;
+    if (pa === pb) continue;
+
+    const na = Number(pa);
+    const nb = Number(pb);
+    if (!isNaN(na) && !isNaN(nb)) return na - nb;
+    return pa < pb ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Check whether a version satisfies a range expression
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+
+  return parseRange(range).some(comparators => {
+    // Prereleases only match ranges that explicitly mention a prerelease of the same release
+    if (parsed.prerelease.length > 0) {
+      const allowed = comparators.some(c =>
+        c.version.prerelease.length > 0 &&
+        c.version.major === parsed.major &&
+        c.version.minor === parsed.minor &&
+        c.version.patch === parsed.patch
+      );
+      if (!allowed) return false;
+    }
+    return comparators.every(c => testComparator(parsed, c));
+  });
+}
+
+/**
+ * Pick the highest version that satisfies the range, or null if none does
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  const matching = versions.filter(v => satisfies(v, range));
+  if (matching.length === 0) return null;
+  return matching.sort(compareVersions)[matching.length - 1];
+}
+
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function testComparator(version: SemVer, comparator: Comparator): boolean {
+  const cmp = compareVersions(version, comparator.version);
+  switch (comparator.op) {
+    case '<': return cmp < 0;
+    case '<=': return cmp <= 0;
+    case '>': return cmp > 0;
+    case '>=': return cmp >= 0;
+    case '=': return cmp === 0;
+  }
+}
+
+/**
+ * Parse a range into a list of alternatives, each a list of comparators that must all hold
+ */
+function parseRange(range: string): Comparator[][] {
+  const alternatives = range.trim() === '' ? ['*'] : range.split('||');
+
+  return alternatives.map(alternative => {
+    const parts = alternative.trim().split(/\s+/).filter(Boolean);
+    if (parts.length === 0) parts.push('*');
+    return parts.flatMap(part => parseComparator(part, range));
+  });
+}
+
+function parseComparator(part: string, range: string): Comparator[] {
+  const match = /^(\^|~|>=|<=|>|<|=)?v?(.*)$/.exec(part)!;
+  const op = match[1] || '';
+  const [major, minor, patch, prerelease] = parsePartial(match[2], range);
+
+  if (major === null) {
+    // Wildcard matches everything
+    return op === '<' || op === '>' ? [{ op: '<', version: version(0, 0, 0) }] : [];
+  }
+
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+
+  switch (op) {
+    case '^': {
+      let upper: SemVer;
+      if (major > 0 || minor === null) upper = version(major + 1, 0, 0);
+      else if (minor > 0 || patch === null) upper = version(0, minor + 1, 0);
+      else upper = version(0, 0, patch + 1);
+      return [{ op: '>=', version: lower }, { op: '<', version: upper }];
+    }
+    case '~': {
+      const upper = minor === null ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+      return [{ op: '>=', version: lower }, { op: '<', version: upper }];
+    }
+    case '>':
+    case '<=': {
+      // Partial versions compare against the whole release line ("<=1.2" means "<1.3.0")
+      if (minor === null || patch === null) {
+        const next = minor === null ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+        return [{ op: op === '>' ? '>=' : '<', version: next }];
+      }
+      return [{ op, version: lower }];
+    }
+    case '>=':
+    case '<':
+      return [{ op, version: lower }];
+    default: {
+      if (minor === null) return [{ op: '>=', version: lower }, { op: '<', version: version(major + 1, 0, 0) }];
+      if (patch === null) return [{ op: '>=', version: lower }, { op: '<', version: version(major, minor + 1, 0) }];
+      return [{ op: '=', version: lower }];
+    }
+  }
+}
+
+function parsePartial(text: string, range: string): [number | null, number | null, number | null, string[]] {
+  const [core, prerelease] = text.split('-', 2);
+  const pieces = core.split('.');
+  if (pieces.length > 3) {
+    throw new Error(`Invalid version range: "${range}"`);
+  }
+
+  const numbers = [0, 1, 2].map(i => {
+    const piece = pieces[i];
+    if (piece === undefined || piece === '' || piece === '*' || piece.toLowerCase() === 'x') return null;
+    if (!/^\d+$/.test(piece)) {
+      throw new Error(`Invalid version range: "${range}"`);
+    }
+    return Number(piece);
+  });
+
+  // Anything after a wildcard is also a wildcard ("1.x.3" behaves like "1.x")
+  for (let i = 1; i < 3; i++) {
+    if (numbers[i - 1] === null) numbers[i] = null;
+  }
+
+  return [numbers[0], numbers[1], numbers[2], prerelease ? prerelease.split('.') : []];
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
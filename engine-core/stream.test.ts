@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { chunked } from './stream';
+
+describe('chunked', () => {
+  it('groups items into chunks, with a shorter last chunk', async () => {
+    const chunks: number[][] = [];
+    for await (const chunk of chunked([1, 2, 3, 4, 5], 2)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('pulls only as many items as the next chunk needs', async () => {
+    let pulled = 0;
+    async function* source() {
+      for (let i = 0; i < 100; i++) {
+        pulled++;
+        yield i;
+      }
+    }
+
+    const stream = chunked(source(), 10);
+    await stream.next();
+    expect(pulled).toBe(10);
+
+    await stream.next();
+    expect(pulled).toBe(20);
+    await stream.return(undefined);
+  });
+
+  it('rejects chunk sizes below one', async () => {
+    await expect(chunked([1], 0).next()).rejects.toThrow('Chunk size must be at least 1, got 0');
+  });
+});
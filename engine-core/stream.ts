@@ -0,0 +1,33 @@
+/**
+ * Streaming Helpers
+ * Chunking and scheduling shared by the streaming classifyStream APIs
+ */
+
+/**
+ * Group items from an array, generator or async source (e.g. rows parsed from a file) into chunks,
+ * pulling only as many items as the next chunk needs
+ */
+export async function* chunked<T>(items: Iterable<T> | AsyncIterable<T>, size: number): AsyncGenerator<T[]> {
+  if (!(size >= 1)) {
+    throw new Error(`Chunk size must be at least 1, got ${size}`);
+  }
+
+  let chunk: T[] = [];
+  for await (const item of items) {
+    chunk.push(item);
+    if (chunk.length >= size) {
+      yield chunk;
+      chunk = [];
+    }
+  }
+  if (chunk.length > 0) {
+    yield chunk;
+  }
+}
+
+/**
+ * Let pending timers, I/O and rendering run between chunks
+ */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
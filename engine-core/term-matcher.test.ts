@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { TermAutomaton, TermMatcher } from './term-matcher';
+
+describe('TermMatcher', () => {
+  const matcher = new TermMatcher();
+
+  it('does not match a term inside a longer word', () => {
+    const prepared = matcher.prepare('chrome plated walker', 'en');
+
+    expect(matcher.matches(prepared, 'rom')).toBe(false);
+    expect(matcher.matches(prepared, 'walker')).toBe(true);
+    expect(matcher.matches(matcher.prepare('rom goniometer', 'en'), 'rom')).toBe(true);
+  });
+
+  it('matches multi-word terms only as a whole token sequence', () => {
+    const prepared = matcher.prepare('parallel bars, adjustable', 'en');
+
+    expect(matcher.matches(prepared, 'Parallel Bars')).toBe(true);
+    expect(matcher.matches(prepared, 'bars adjustable')).toBe(true);
+    expect(matcher.matches(prepared, 'parallel adjustable')).toBe(false);
+  });
+
+  it('matches inside words when the term opts into substring matching', () => {
+    const prepared = matcher.prepare('chrome plated walker', 'en');
+
+    expect(matcher.matches(prepared, 'rom', 'substring')).toBe(true);
+    expect(matcher.matchesFilter(prepared, { term: 'rom', match: 'substring' })).toBe(true);
+    expect(matcher.matchesFilter(prepared, 'rom')).toBe(false);
+  });
+
+  it('matches Arabic terms after stripping the article and attached prepositions', () => {
+    const prepared = matcher.prepare('المشي بالعكاز', 'ar');
+
+    expect(matcher.matches(prepared, 'عكاز')).toBe(true);
+    expect(matcher.matches(prepared, 'العكاز')).toBe(true);
+    expect(matcher.matches(prepared, 'كاز')).toBe(false);
+  });
+
+  it('never matches terms made only of stop words or single characters', () => {
+    expect(matcher.matches(matcher.prepare('the walker', 'en'), 'the')).toBe(false);
+  });
+});
+
+describe('TermAutomaton', () => {
+  const matcher = new TermMatcher();
+
+  function automaton(): TermAutomaton {
+    const terms = new TermAutomaton('en');
+    terms.add('vocabulary', 'rom', { concept: 'rom', score: 20 });
+    terms.add('vocabulary', 'walker', { concept: 'walker', score: 30 });
+    terms.add('blocker', 'scan', { category: 'imaging' }, 'substring');
+    terms.addFilter('boost', { term: 'rehab', match: 'substring' }, { rule: 'rehab', boost_factor: 1.2 });
+    return terms.build();
+  }
+
+  it('finds token terms on token boundaries and substring terms anywhere, in the order they were added', () => {
+    const found = automaton().find(matcher.prepare('chrome walker for prerehab ctscanner', 'en'));
+
+    expect(found.map(entry => [entry.kind, entry.term])).toEqual([
+      ['vocabulary', 'walker'],
+      ['blocker', 'scan'],
+      ['boost', 'rehab']
+    ]);
+  });
+
+  it('tells whether a substring term of a kind occurs in the raw text', () => {
+    const terms = automaton();
+
+    expect(terms.containsSubstringTerm('blocker', 'ctscanner')).toBe(true);
+    expect(terms.containsSubstringTerm('vocabulary', 'ctscanner')).toBe(false);
+    expect(terms.containsSubstringTerm('vocabulary', 'chrome walker')).toBe(false);
+  });
+
+  it('agrees with the sequential matcher after a serialization round trip', () => {
+    const loaded = TermAutomaton.deserialize(JSON.parse(JSON.stringify(automaton().serialize())));
+
+    for (const text of ['rom exercise', 'chrome walker', 'scanner']) {
+      const prepared = matcher.prepare(text, 'en');
+      const expected = ['rom', 'walker'].filter(term => matcher.matches(prepared, term))
+        .concat(['scan', 'rehab'].filter(term => matcher.matches(prepared, term, 'substring')));
+      expect(loaded.find(prepared).map(entry => entry.term)).toEqual(expected);
+    }
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Token-Boundary Term Matching
+ * Matches vocabulary, rule and brand terms on whole tokens instead of raw substrings
+ */
+import { MedicalTokenizer } from './indexers/tokens';
+import { AhoCorasick, type SerializedAutomaton } from './indexers/aho-corasick';
+import type { BrandData, FilterTerm, MatchMode, RuleSet, VocabularyData } from './types';
+
+export interface PreparedText {
+  text: string;
+  language: 'ar' | 'en';
+  /** Tokens joined by single spaces and padded, so a phrase lookup is one `includes` call */
+  tokenString: string;
+}
+
+export type TermKind = 'vocabulary' | 'blocker' | 'boost' | 'brand';
+
+export interface TermEntry<T = any> {
+  kind: TermKind;
+  term: string;
+  mode: MatchMode;
+  /** Stage-specific payload, e.g. the vocabulary score or the blocker category */
+  data: T;
+}
+
+/** Payload of a vocabulary entry; synonyms share the concept of their canonical term */
+export interface VocabularyTermData {
+  concept: string;
+  score: number;
+  category?: string;
+  pt_domain?: string;
+}
+
+export interface BlockerTermData {
+  category: string;
+}
+
+export interface BoostTermData {
+  rule: string;
+  boost_factor: number;
+}
+
+export interface SerializedTermAutomaton {
+  language: 'ar' | 'en';
+  entries: TermEntry[];
+  /** Entry index of each pattern in the token automaton */
+  tokenPatterns: number[];
+  substringPatterns: number[];
+  token: SerializedAutomaton;
+  substring: SerializedAutomaton;
+}
+
+export class TermMatcher {
+  private tokenizers: Record<'ar' | 'en', MedicalTokenizer> = {
+    ar: new MedicalTokenizer('ar'),
+    en: new MedicalTokenizer('en')
+  };
+  private termCache: Map<string, string> = new Map();
+
+  /**
+   * Tokenize normalized text once so it can be matched against many terms
+   */
+  prepare(text: string, language: 'ar' | 'en'): PreparedText {
+    return { text, language, tokenString: this.toTokenString(text, language) };
+  }
+
+  /**
+   * Whether a term occurs in the text as a whole token sequence, or anywhere when it opts into substring matching
+   */
+  matches(prepared: PreparedText, term: string, mode: MatchMode = 'token'): boolean {
+    if (mode === 'substring') {
+      return prepared.text.includes(term.toLowerCase());
+    }
+
+    const key = `${prepared.language}:${term}`;
+    let tokenString = this.termCache.get(key);
+    if (tokenString === undefined) {
+      tokenString = this.toTokenString(term.toLowerCase(), prepared.language);
+      this.termCache.set(key, tokenString);
+    }
+
+    // Terms made only of stop words or single characters cannot match on token boundaries
+    return tokenString.trim() !== '' && prepared.tokenString.includes(tokenString);
+  }
+
+  /**
+   * Match a rule filter entry, which is either a plain term or a term with its own match mode
+   */
+  matchesFilter(prepared: PreparedText, entry: FilterTerm): boolean {
+    return typeof entry === 'string'
+      ? this.matches(prepared, entry)
+      : this.matches(prepared, entry.term, entry.match);
+  }
+
+  private toTokenString(text: string, language: 'ar' | 'en'): string {
+    return ` ${this.tokenizers[language].tokenize(text).join(' ')} `;
+  }
+}
+
+/**
+ * Every vocabulary, blocker, boost and brand term of one language, matched in a single pass.
+ * Token-mode terms are searched in the padded token string so they keep token-boundary semantics;
+ * substring-mode terms are searched in the raw text.
+ */
+export class TermAutomaton {
+  private language: 'ar' | 'en';
+  private tokenizer: MedicalTokenizer;
+  private entries: TermEntry[] = [];
+  private tokenPatterns: number[] = [];
+  private substringPatterns: number[] = [];
+  private token = new AhoCorasick();
+  private substring = new AhoCorasick();
+
+  constructor(language: 'ar' | 'en') {
+    this.language = language;
+    this.tokenizer = new MedicalTokenizer(language);
+  }
+
+  add(kind: TermKind, term: string, data: unknown, mode: MatchMode = 'token'): void {
+    const index = this.entries.length;
+    this.entries.push({ kind, term, mode, data });
+
+    if (mode === 'substring') {
+      this.substring.add(term.toLowerCase());
+      this.substringPatterns.push(index);
+      return;
+    }
+
+    // Terms made only of stop words or single characters cannot match on token boundaries
+    const tokens = this.tokenizer.tokenize(term.toLowerCase());
+    if (tokens.length > 0) {
+      this.token.add(` ${tokens.join(' ')} `);
+      this.tokenPatterns.push(index);
+    }
+  }
+
+  addFilter(kind: TermKind, entry: FilterTerm, data: unknown): void {
+    if (typeof entry === 'string') {
+      this.add(kind, entry, data);
+    } else {
+      this.add(kind, entry.term, data, entry.match);
+    }
+  }
+
+  build(): this {
+    this.token.build();
+    this.substring.build();
+    return this;
+  }
+
+  /**
+   * Distinct entries found in the text, in the order they were added
+   */
+  find(prepared: PreparedText): TermEntry[] {
+    const found = new Set<number>();
+    for (const match of this.token.search(prepared.tokenString)) {
+      found.add(this.tokenPatterns[match.pattern]);
+    }
+    for (const match of this.substring.search(prepared.text)) {
+      found.add(this.substringPatterns[match.pattern]);
+    }
+    return Array.from(found).sort((a, b) => a - b).map(index => this.entries[index]);
+  }
+
+  /**
+   * Whether a substring-mode entry of the kind occurs in the raw text
+   */
+  containsSubstringTerm(kind: TermKind, text: string): boolean {
+    return this.substring.search(text).some(match => this.entries[this.substringPatterns[match.pattern]].kind === kind);
+  }
+
+  serialize(): SerializedTermAutomaton {
+    return {
+      language: this.language,
+      entries: this.entries,
+      tokenPatterns: this.tokenPatterns,
+      substringPatterns: this.substringPatterns,
+      token: this.token.serialize(),
+      substring: this.substring.serialize()
+    };
+  }
+
+  static deserialize(data: SerializedTermAutomaton): TermAutomaton {
+    const automaton = new TermAutomaton(data.language);
+    automaton.entries = data.entries;
+    automaton.tokenPatterns = data.tokenPatterns;
+    automaton.substringPatterns = data.substringPatterns;
+    automaton.token = AhoCorasick.deserialize(data.token);
+    automaton.substring = AhoCorasick.deserialize(data.substring);
+    return automaton;
+  }
+
+  getStats() {
+    return {
+      entries: this.entries.length,
+      token: this.token.getStats(),
+      substring: this.substring.getStats()
+    };
+  }
+}
+
+/**
+ * Build the automaton for one language from vocabulary, rules and brands.
+ * Entries keep declaration order, so the first hit of each kind is the one a sequential scan would find.
+ */
+export function buildTermAutomaton(
+  language: 'ar' | 'en',
+  vocabulary: VocabularyData,
+  rules: {
+    filters: Pick<RuleSet['filters'], 'hard_blockers'>;
+    scoring: Pick<RuleSet['scoring'], 'contextual_boosts'>;
+  },
+  brands: BrandData[] = []
+): TermAutomaton {
+  const automaton = new TermAutomaton(language);
+
+  for (const term of vocabulary.include) {
+    const data: VocabularyTermData = { concept: term.term, score: term.score, category: term.category, pt_domain: term.pt_domain };
+    automaton.add('vocabulary', term.term, data, term.match);
+  }
+  for (const entries of Object.values(vocabulary.shards)) {
+    for (const entry of entries) {
+      const data: VocabularyTermData = { concept: entry.canonical, score: entry.score };
+      for (const variant of [entry.canonical, ...(entry.synonyms || [])]) {
+        automaton.add('vocabulary', variant, data, entry.match);
+      }
+    }
+  }
+
+  for (const [category, terms] of Object.entries(rules.filters.hard_blockers || {})) {
+    const data: BlockerTermData = { category };
+    terms.forEach(term => automaton.addFilter('blocker', term, data));
+  }
+
+  for (const [rule, boost] of Object.entries(rules.scoring.contextual_boosts || {})) {
+    const data: BoostTermData = { rule, boost_factor: boost.boost_factor };
+    boost.keywords.forEach(keyword => automaton.add('boost', keyword, data));
+  }
+
+  for (const brand of brands) {
+    automaton.add('brand', brand.brand, brand, brand.match);
+  }
+
+  return automaton.build();
+}
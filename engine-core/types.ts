@@ -1,7 +1,6 @@
 /**
  * Type definitions for the modular PT classification system
  */
-
 export interface PackageManifest {
   name: string;
   version: string;
@@ -18,7 +17,10 @@ export interface FileSpec {
   description: string;
   format: 'json' | 'jsonl' | 'csv' | 'jsonl_shards';
   encoding: string;
+  /** `sha256:<hex>` of the file content, written by scripts/build_registry.ts */
   checksum?: string;
+  /** Per-shard checksums for `jsonl_shards` directories, keyed by shard file name */
+  shard_checksums?: Record<string, string>;
 }
 
 export interface PTProfile {
@@ -26,22 +28,46 @@ export interface PTProfile {
   description: string;
   version: string;
   target_environments: string[];
-  packages: Record<string, string | ShardedPackageRef>;
+  /** Package name → semver range (or exact version), optionally with shard selection */
+  packages: Record<string, string | PackageRef>;
   runtime_config: RuntimeConfig;
   features: Record<string, boolean>;
 }
 
-export interface ShardedPackageRef {
+export interface PackageRef {
   version: string;
+  shards?: string[];
+  /** Optional packages are skipped instead of failing resolution when absent from the registry */
+  optional?: boolean;
+}
+
+export interface ShardedPackageRef extends PackageRef {
   shards: string[];
 }
 
+export interface ResolvedPackage {
+  name: string;
+  version: string;
+  /** Range requested by the profile, or by the first dependent that pulled the package in */
+  requested: string;
+  manifest: PackageManifest;
+  /** Names of resolved packages this one depends on */
+  dependencies: string[];
+}
+
 export interface RuntimeConfig {
   max_memory_mb: number;
   enable_caching: boolean;
   shard_loading: 'lazy' | 'eager';
   compression: 'gzip' | 'lz4' | 'none';
   indexing?: 'full' | 'partial' | 'none';
+  /**
+   * How vocabulary hits combine into a score: `best` (default) keeps only the top term,
+   * `accumulate` also adds further distinct terms with diminishing weight
+   */
+  vocabulary_scoring?: 'best' | 'accumulate';
+  /** Weight multiplier applied per rank in `accumulate` mode (default 0.5: 100%, 50%, 25%, ...) */
+  evidence_decay?: number;
 }
 
 export interface ComposedEngine {
@@ -61,6 +87,10 @@ export interface ComposedEngine {
   brands?: BrandData[] | null;
   nupco?: NupcoData | null;
   config: RuntimeConfig;
+  /** Resolved version of every loaded package, for attributing explanation steps */
+  packages?: Record<string, string>;
+  /** Profile, package versions and rule-set hash this engine was composed from */
+  reproducibility?: ReproducibilityStamp;
 }
 
 export interface TaxonomyData {
@@ -94,29 +124,50 @@ export interface NormalizationRules {
   [key: string]: any;
 }
 
+/**
+ * Weighted edit-distance costs for fuzzy matching, shipped as `edit_costs.json` in a normalization package.
+ * Substitutions are symmetric; characters without an entry cost `default_cost` to substitute, insert or delete.
+ */
+export interface EditCostTable {
+  default_cost: number;
+  substitutions: Array<{ pair: [string, string]; cost: number; note?: string }>;
+  indels: Record<string, number>;
+}
+
 export interface VocabularyData {
   include: VocabTerm[];
   shards: Record<string, SynonymEntry[]>;
 }
 
+/**
+ * How a term is found in item text. `token` (the default) matches whole tokens only;
+ * `substring` matches anywhere, for stems such as "laparoscop" that should hit every inflection.
+ */
+export type MatchMode = 'token' | 'substring';
+
+/** Rule filter entry: a plain term matched on token boundaries, or a term with its own match mode */
+export type FilterTerm = string | { term: string; match?: MatchMode };
+
 export interface VocabTerm {
   term: string;
   score: number;
   category: string;
   pt_domain: string;
+  match?: MatchMode;
 }
 
 export interface SynonymEntry {
   canonical: string;
   synonyms: string[];
   score: number;
+  match?: MatchMode;
 }
 
 export interface RuleSet {
   filters: {
-    hard_blockers: Record<string, string[]>;
-    soft_demotions: Record<string, string[]>;
-    pt_specific_boosts: Record<string, string[]>;
+    hard_blockers: Record<string, FilterTerm[]>;
+    soft_demotions: Record<string, FilterTerm[]>;
+    pt_specific_boosts: Record<string, FilterTerm[]>;
     contextual_rules: any;
   };
   scoring: {
@@ -149,6 +200,7 @@ export interface BrandData {
   reputation_score: number;
   country: string;
   pt_focus: boolean;
+  match?: MatchMode;
 }
 
 export interface NupcoData {
@@ -186,12 +238,165 @@ export interface Item {
   code?: string;
 }
 
+// Explanations
+export type ExplanationStage =
+  | 'prefilter'
+  | 'blocker'
+  | 'demotion'
+  | 'nupco'
+  | 'vocabulary'
+  | 'fuzzy'
+  | 'context'
+  | 'brand'
+  | 'market'
+  | 'signal'
+  | 'threshold';
+
+/**
+ * One step behind a classification decision. Every classifier reports its reasoning as a list of
+ * these so the explain view and exports can render any engine's results the same way.
+ */
+export interface ExplanationStep {
+  stage: ExplanationStage;
+  /** Short human-readable description */
+  label: string;
+  /** Term, keyword or brand that triggered the step */
+  term?: string;
+  /** Registry package the term or rule came from, e.g. `pt.vocab.en` */
+  package?: string;
+  version?: string;
+  /** Rule within its package, e.g. `hard_blockers.surgical_equipment` */
+  rule_id?: string;
+  /** Points this step added to or removed from the score */
+  score_delta: number;
+}
+
+/** `mixed` means the item text contains both Arabic and Latin-script words, e.g. bilingual NUPCO descriptions */
+export type DetectedLanguage = 'ar' | 'en' | 'mixed';
+
 export interface ClassificationResult {
   item_id: string;
   is_pt: boolean;
   confidence: number;
   category: string | null;
   pt_domain: string | null;
-  explanation: string[];
-  language_detected: 'ar' | 'en';
-}
\ No newline at end of file
+  explanation: ExplanationStep[];
+  language_detected: DetectedLanguage;
+  /** Compact reproducibility fingerprint of the engine that made the decision */
+  fingerprint?: string;
+}
+
+// Reproducibility
+/**
+ * What a classification decision depends on besides the item itself. Build timestamps are
+ * deliberately left out, so rebuilding the same inputs yields the same stamp.
+ */
+export interface ReproducibilityStamp {
+  profile_name: string;
+  profile_version: string;
+  /** Package name → resolved version, sorted by name */
+  packages: Record<string, string>;
+  /** Short SHA-256 of the Arabic and English rule sets (filters and scoring) */
+  rules_hash: string;
+  /** All of the above in one string, e.g. `runtime-lite@1.0.0;rules.ar=1.2.0,...;rules#3fa1c2d4e5b6` */
+  fingerprint: string;
+}
+
+// Registry access
+export interface RegistrySource {
+  /**
+   * Read a registry file as text. Paths are relative to the registry root,
+   * e.g. `registry/pt.vocab.ar/3.3.0/include.jsonl` or `profiles/runtime-lite.ptlock.json`
+   */
+  readText(path: string): Promise<string>;
+
+  /**
+   * List the versions available for a package under `registry/<name>/`
+   */
+  listVersions(packageName: string): Promise<string[]>;
+}
+
+// Runtime artifact access
+/**
+ * Where compiled runtime files are read from: a web server by default, the filesystem in Node.
+ * Paths are as the classifier builds them, e.g. `/pt/runtime/lite/runtime.meta.json`
+ */
+export interface RuntimeSource {
+  readBuffer(path: string): Promise<ArrayBuffer>;
+}
+
+// Runtime shard access
+/**
+ * On-demand access to the synonym shards of a runtime built with `shard_loading: 'lazy'`.
+ * Shard contents are the flattened vocabulary terms of that shard.
+ */
+export interface ShardLoader {
+  initialize(): Promise<void>;
+
+  /**
+   * Shards holding terms that share a token with the text (whitespace-separated tokens)
+   */
+  getSuggestedShards(text: string, language: 'ar' | 'en'): string[];
+
+  /**
+   * Terms of a shard that is already in memory, without loading it
+   */
+  peekShard(language: 'ar' | 'en', shard: string): VocabTerm[] | undefined;
+
+  getShard(language: 'ar' | 'en', shard: string): Promise<VocabTerm[]>;
+
+  preloadShards(language: 'ar' | 'en', shards: string[]): Promise<void>;
+
+  /**
+   * Drop a shard from memory; evict listeners are notified as for any other eviction
+   */
+  evictShard(language: 'ar' | 'en', shard: string): void;
+
+  /**
+   * Estimated bytes of shard data held in memory
+   */
+  getMemoryUsage(): number;
+
+  /**
+   * Register a callback for shards dropped from memory, so derived indices can be released too
+   */
+  onEvict(listener: (language: 'ar' | 'en', shard: string) => void): void;
+}
+
+// Streaming classification
+export interface ClassifyStreamOptions {
+  /** Items classified and yielded together; defaults to 1000 */
+  chunkSize?: number;
+  /** Stops the stream before the next chunk; the generator throws the signal's reason */
+  signal?: AbortSignal;
+}
+
+// Platform loaders
+/**
+ * Surface shared by the browser (adapters/browser) and Node (adapters/node) loaders, so services can use either.
+ * The browser loader classifies single items synchronously while the Node loader answers from worker threads;
+ * await `classify` to handle both.
+ */
+export interface PTLoader<TResult> {
+  initialize(profileType?: 'lite' | 'full'): Promise<void>;
+
+  classify(item: Item): TResult | Promise<TResult>;
+
+  /**
+   * Results keep the input order
+   */
+  classifyBatch(
+    items: Item[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<TResult[]>;
+
+  classifyStream(
+    items: Iterable<Item> | AsyncIterable<Item>,
+    options?: ClassifyStreamOptions
+  ): AsyncGenerator<TResult[]>;
+
+  /**
+   * Release what the loader holds; initialize again before classifying
+   */
+  terminate(): void;
+}
@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { RuntimeCompiler } from '../scripts/build_runtime';
+import { FileSystemRuntimeSource } from '../adapters/node/runtime-source';
+import { zlibGzip } from '../adapters/node/compression';
+import { UltraFastClassifier } from './ultra-fast-classifier';
+import { TermAutomaton, type SerializedTermAutomaton } from './term-matcher';
+import { lz4Compress, lz4Decompress } from './compression';
+import { computeChecksum } from './checksum';
+
+describe('UltraFastClassifier', () => {
+  const outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'pt-runtime-'));
+  let runtimePath: string;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await new RuntimeCompiler('.', outputPath).buildRuntime('full');
+    runtimePath = path.join(outputPath, 'full');
+  }, 120_000);
+
+  afterAll(() => fs.rmSync(outputPath, { recursive: true, force: true }));
+
+  async function classifier(): Promise<UltraFastClassifier> {
+    const instance = new UltraFastClassifier({ source: new FileSystemRuntimeSource(), gzip: zlibGzip });
+    await instance.initialize(runtimePath);
+    return instance;
+  }
+
+  it('classifies English items, whose normalization map has regex metacharacter keys', async () => {
+    const result = (await classifier()).classify({ id: '1', name: 'Wheelchair' });
+
+    expect(result.language).toBe('en');
+    expect(result.matched_terms).toContain('wheelchair');
+    expect(result.is_pt).toBe(true);
+  });
+
+  it.each([
+    ['کرسي متحرک', 'كرسي متحرك'],
+    ['عکاز', 'عكاز'],
+    ['عكاذ', 'عكاز']
+  ])('matches the misspelling %s that the bloom filter rejects through the fuzzy trie', async (name, term) => {
+    const result = (await classifier()).classify({ id: '1', name });
+
+    expect(result.matched_terms).toContain(term);
+    expect(result.confidence).toBeGreaterThan(0);
+    expect(result.explanation.map(step => step.stage)).toContain('fuzzy');
+  });
+
+  it('still short-circuits items with no exact or fuzzy PT term', async () => {
+    const result = (await classifier()).classify({ id: '1', name: 'ثلاجة منزلية' });
+
+    expect(result.confidence).toBe(0);
+    expect(result.explanation.map(step => step.stage)).toEqual(['prefilter']);
+  });
+
+  it('counts cache hits apart from the prefilter and stage statistics', async () => {
+    const instance = await classifier();
+    const items = [
+      { id: '1', name: 'عکاز' },
+      { id: '2', name: 'ثلاجة منزلية' },
+      { id: '3', name: 'عکاز' },
+      { id: '4', name: 'ثلاجة منزلية' }
+    ];
+
+    await instance.classifyBatch(items, 2);
+    const stats = instance.getStats()!;
+
+    expect(stats.prefilter).toEqual({ screened: 2, short_circuited: 1, passed: 1 });
+    expect(stats.classified).toEqual({ scored: 2, from_cache: 2 });
+    expect(console.log).toHaveBeenCalledWith('  Bloom prefilter: 1 short-circuited, 1 sent on');
+    expect(console.log).toHaveBeenCalledWith('  Cache: 2 answered without scoring');
+  });
+
+  describe('classifyStream', () => {
+    function counted(count: number) {
+      const source = {
+        pulled: 0,
+        async *items() {
+          for (let i = 0; i < count; i++) {
+            source.pulled++;
+            yield { id: String(i), name: 'Wheelchair' };
+          }
+        }
+      };
+      return source;
+    }
+
+    it('pulls items one chunk ahead of the consumer', async () => {
+      const instance = await classifier();
+      const source = counted(10);
+      const stream = instance.classifyStream(source.items(), { chunkSize: 3 });
+
+      const first = await stream.next();
+      expect(first.value).toHaveLength(3);
+      expect(source.pulled).toBe(3);
+
+      await stream.return(undefined);
+      expect(source.pulled).toBe(3);
+    });
+
+    it('stops with the abort reason before pulling the next chunk', async () => {
+      const instance = await classifier();
+      const source = counted(10);
+      const controller = new AbortController();
+      const chunks: string[][] = [];
+
+      await expect(async () => {
+        for await (const chunk of instance.classifyStream(source.items(), { chunkSize: 3, signal: controller.signal })) {
+          chunks.push(chunk.map(result => result.item_id));
+          controller.abort(new Error('export cancelled'));
+        }
+      }).rejects.toThrow('export cancelled');
+
+      expect(chunks).toEqual([['0', '1', '2']]);
+      expect(source.pulled).toBe(3);
+    });
+
+    it('classifies nothing when the signal is already aborted', async () => {
+      const instance = await classifier();
+      const source = counted(10);
+
+      const stream = instance.classifyStream(source.items(), { chunkSize: 3, signal: AbortSignal.abort() });
+
+      await expect(stream.next()).rejects.toThrow();
+      expect(instance.getStats()!.prefilter.screened).toBe(0);
+    });
+  });
+
+  describe('substring vocabulary terms', () => {
+    // The registry has no substring terms yet, so add one to a copy of the English automaton
+    async function substringClassifier(): Promise<UltraFastClassifier> {
+      const substringPath = path.join(outputPath, 'full-substring');
+      fs.cpSync(runtimePath, substringPath, { recursive: true });
+      const matcherFile = 'runtime.match.en.json.lz4';
+      const serialized: SerializedTermAutomaton = JSON.parse(
+        new TextDecoder().decode(lz4Decompress(fs.readFileSync(path.join(substringPath, matcherFile))))
+      );
+      const automaton = new TermAutomaton('en');
+      serialized.entries.forEach(entry => automaton.add(entry.kind, entry.term, entry.data, entry.mode));
+      automaton.add('vocabulary', 'flexbar', { concept: 'flexbar', score: 40, category: 'exercise' }, 'substring');
+      const stored = lz4Compress(new TextEncoder().encode(JSON.stringify(automaton.build().serialize())));
+      fs.writeFileSync(path.join(substringPath, matcherFile), stored);
+
+      const metaPath = path.join(substringPath, 'runtime.meta.json');
+      const meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+      meta.checksums[matcherFile] = await computeChecksum(stored);
+      fs.writeFileSync(metaPath, JSON.stringify(meta));
+
+      const instance = new UltraFastClassifier({ source: new FileSystemRuntimeSource(), gzip: zlibGzip });
+      await instance.initialize(substringPath);
+      return instance;
+    }
+
+    it('sends items on when a substring term occurs inside a word the bloom filter does not hold', async () => {
+      const result = (await substringClassifier()).classify({ id: '1', name: 'Superflexbarpro' });
+
+      expect(result.explanation.map(step => step.stage)).not.toContain('prefilter');
+      expect(result.matched_terms).toContain('flexbar');
+      expect(result.confidence).toBeGreaterThan(0);
+    });
+
+    it('keeps short-circuiting items without any term', async () => {
+      const instance = await substringClassifier();
+
+      await instance.classifyBatch([{ id: '1', name: 'Superflexbarpro' }, { id: '2', name: 'Household refrigerator' }], 2);
+
+      expect(instance.getStats()!.prefilter).toEqual({ screened: 2, short_circuited: 1, passed: 1 });
+    });
+  });
+
+  describe('memory budget', () => {
+    // A budget just above the indices' own footprint, which a batch's explanations alone would exceed
+    async function tightBudgetClassifier(): Promise<UltraFastClassifier> {
+      const budgetPath = path.join(outputPath, 'full-budget');
+      fs.cpSync(runtimePath, budgetPath, { recursive: true });
+      const metaPath = path.join(budgetPath, 'runtime.meta.json');
+      const meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+      meta.config.max_memory_mb = 0.02;
+      fs.writeFileSync(metaPath, JSON.stringify(meta));
+
+      const instance = new UltraFastClassifier({ source: new FileSystemRuntimeSource(), gzip: zlibGzip, cacheSize: 1 });
+      await instance.initialize(budgetPath);
+      return instance;
+    }
+
+    const items = Array.from({ length: 300 }, (_, i) => ({ id: String(i), name: `کرسي متحرک ${i}` }));
+
+    it('degrades once the explanations held during a batch exceed the budget on their own', async () => {
+      const instance = await tightBudgetClassifier();
+      expect(instance.getStats()!.memory.downgrades).toEqual([]);
+      let explanationBytes = 0;
+
+      await instance.classifyBatch(items, 50, () => {
+        explanationBytes = Math.max(explanationBytes, instance.getStats()!.memory.breakdown.explanations);
+      });
+
+      const { budget_mb, downgrades, breakdown } = instance.getStats()!.memory;
+      expect(explanationBytes).toBeGreaterThan(budget_mb! * 1024 * 1024);
+      expect(downgrades.map(downgrade => downgrade.stage)).toContain('drop_fuzzy_indices');
+      expect(downgrades[0].used_bytes).toBeGreaterThan(downgrades[0].budget_bytes);
+      // Released with the results
+      expect(breakdown.explanations).toBe(0);
+    });
+
+    it('counts each explanation held during a batch once', async () => {
+      const instance = await tightBudgetClassifier();
+      const reported: number[] = [];
+
+      const results = await instance.classifyBatch(items, 50, () => {
+        reported.push(instance.getStats()!.memory.breakdown.explanations);
+      });
+
+      const stepBytes = reported[0] / results.slice(0, 50).reduce((sum, r) => sum + r.explanation.length, 0);
+      reported.forEach((bytes, chunk) => {
+        const held = results.slice(0, (chunk + 1) * 50).reduce((sum, r) => sum + r.explanation.length, 0);
+        expect(bytes).toBe(held * stepBytes);
+      });
+    });
+  });
+});
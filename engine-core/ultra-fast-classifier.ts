@@ -2,9 +2,29 @@
  * Ultra-Fast Zero-Copy Classification Engine
  * Memory-optimized classifier with pre-compiled indices for maximum performance
  */
-import { BloomFilter, MedicalTermBloomFilter } from './indexers/bloom';
-import { CompressedTrie } from './indexers/trie';
-import { TokenIndex, MedicalTokenizer } from './indexers/tokens';
+import { MedicalTermBloomFilter } from './indexers/bloom';
+import { CompressedTrie, type TrieValue } from './indexers/trie';
+import { TokenIndex, MedicalTokenizer, type RankedTerm } from './indexers/tokens';
+import { ChecksumMismatchError, computeChecksum, verifyChecksum } from './checksum';
+import { EditCosts } from './edit-distance';
+import { createNormalizer } from './normalizer';
+import { roundScoreDelta } from './explanation';
+import { ArtifactCodec, streamGzip, type GzipBackend } from './compression';
+import { ClassificationCache, type ClassificationCacheStore } from './classification-cache';
+import { getPerformanceMonitor } from './performance-monitor';
+import { HttpRuntimeSource } from './runtime-source';
+import { MemoryAccountant, type MemoryBreakdown } from './memory-budget';
+import { chunked, yieldToEventLoop } from './stream';
+import {
+  TermAutomaton,
+  TermMatcher,
+  type BlockerTermData,
+  type BoostTermData,
+  type PreparedText,
+  type TermEntry,
+  type VocabularyTermData
+} from './term-matcher';
+import type { BrandData, ClassifyStreamOptions, ExplanationStep, RuntimeSource, ShardLoader, VocabTerm } from './types';
 
 interface RuntimeData {
   metadata: any;
@@ -15,13 +35,13 @@ interface RuntimeData {
   vocabularies: {
     ar: {
       bloom: MedicalTermBloomFilter;
-      trie: CompressedTrie;
+      trie: CompressedTrie | null; // Null once fuzzy indices are dropped under the memory budget
       tokens: TokenIndex;
       meta: any;
     };
     en: {
       bloom: MedicalTermBloomFilter;
-      trie: CompressedTrie;
+      trie: CompressedTrie | null; // Null once fuzzy indices are dropped under the memory budget
       tokens: TokenIndex;
       meta: any;
     };
@@ -30,18 +50,46 @@ interface RuntimeData {
     ar: any;
     en: any;
   };
+  matchers: {
+    ar: TermAutomaton;
+    en: TermAutomaton;
+  };
+  /** Weighted fuzzy matching costs, for languages whose normalization package ships them */
+  editCosts: {
+    ar: EditCosts | null;
+    en: EditCosts | null;
+  };
   brands?: any;
   nupco?: any;
 }
 
-interface ClassificationInput {
+/** Trie and token index over the terms of one lazily loaded synonym shard */
+interface ShardIndex {
+  trie: CompressedTrie | null;
+  tokens: TokenIndex;
+}
+
+export interface UltraFastOptions {
+  /** Where runtime files are read from; defaults to HTTP, Node callers may pass `FileSystemRuntimeSource` */
+  source?: RuntimeSource;
+  /** gzip implementation for gzip-compressed runtimes; Node callers may pass `zlibGzip` */
+  gzip?: GzipBackend;
+  /** Source of synonym shards for runtimes built with `shard_loading: 'lazy'` */
+  shardLoader?: ShardLoader;
+  /** Durable store behind the result cache of runtimes built with `enable_caching`; memory only without one */
+  cacheStore?: ClassificationCacheStore;
+  /** Results the cache keeps in memory; defaults to 5000 */
+  cacheSize?: number;
+}
+
+export interface ClassificationInput {
   id: string;
   name: string;
   description?: string;
   code?: string;
 }
 
-interface FastClassificationResult {
+export interface FastClassificationResult {
   item_id: string;
   is_pt: boolean;
   confidence: number;
@@ -50,15 +98,38 @@ interface FastClassificationResult {
   language: 'ar' | 'en';
   processing_time_ms: number;
   matched_terms: string[];
-  explanation: string[];
+  explanation: ExplanationStep[];
+  /** Reproducibility fingerprint recorded by the runtime compiler; null for runtimes built without one */
+  fingerprint: string | null;
 }
 
 export class UltraFastClassifier {
   private runtime: RuntimeData | null = null;
   private tokenizers: Map<string, MedicalTokenizer> = new Map();
   private normalizers: Map<string, (text: string) => string> = new Map();
+  private checksums: Record<string, string> = {};
+  private codec = new ArtifactCodec();
+  private runtimeSource: RuntimeSource;
+  private gzipBackend: GzipBackend;
+  private shardLoader: ShardLoader | null;
+  private shardIndices: Map<string, ShardIndex> = new Map(); // `${language}-${shard}` -> index
+  private lazyShards = false;
+  private shardStats = { routed: 0, on_demand: 0, refused: 0 };
+  private memory = new MemoryAccountant();
+  private matcher = new TermMatcher();
+  private prefilterStats = { screened: 0, short_circuited: 0 };
+  private cacheHits = 0; // Answered from the cache, so never screened
+  private cache: ClassificationCache;
+  private cacheEnabled = false;
   private isInitialized = false;
 
+  constructor(options: UltraFastOptions = {}) {
+    this.cache = new ClassificationCache({ maxEntries: options.cacheSize, store: options.cacheStore });
+    this.runtimeSource = options.source ?? new HttpRuntimeSource();
+    this.gzipBackend = options.gzip ?? streamGzip;
+    this.shardLoader = options.shardLoader ?? null;
+  }
+
   /**
    * Initialize classifier with pre-compiled runtime data
    */
@@ -67,8 +138,13 @@ export class UltraFastClassifier {
     console.log('🚀 Initializing Ultra-Fast PT Classifier...');
 
     try {
-      // Load runtime metadata
+      // Load runtime metadata; its checksums cover every other runtime file
+      // and its config names the codec the other files are compressed with
+      this.checksums = {};
+      this.codec = new ArtifactCodec();
       const metadata = await this.loadJson(`${runtimePath}/runtime.meta.json`);
+      this.checksums = metadata.checksums || {};
+      this.codec = new ArtifactCodec(metadata.config?.compression, this.gzipBackend);
       
       // Load normalizers
       const normalizers = await this.loadNormalizers(runtimePath);
@@ -79,13 +155,19 @@ export class UltraFastClassifier {
       // Load rules
       const rules = await this.loadRules(runtimePath);
       
+      // Load term automata
+      const matchers = await this.loadMatchers(runtimePath);
+      
+      // Load weighted edit costs for fuzzy matching
+      const editCosts = await this.loadEditCosts(runtimePath);
+      
       // Load optional components
       const brands = metadata.features.brand_intelligence 
-        ? await this.loadJson(`${runtimePath}/runtime.brands.json`).catch(() => null)
+        ? await this.loadJson(`${runtimePath}/runtime.brands.json`).catch(this.optionalFile)
         : null;
         
       const nupco = metadata.features.nupco_integration
-        ? await this.loadJson(`${runtimePath}/runtime.nupco.json`).catch(() => null)
+        ? await this.loadJson(`${runtimePath}/runtime.nupco.json`).catch(this.optionalFile)
         : null;
 
       this.runtime = {
@@ -93,6 +175,8 @@ export class UltraFastClassifier {
         normalizers,
         vocabularies,
         rules,
+        matchers,
+        editCosts,
         brands,
         nupco
       };
@@ -102,8 +186,29 @@ export class UltraFastClassifier {
       this.tokenizers.set('en', new MedicalTokenizer('en'));
 
       // Create normalizer functions
-      this.normalizers.set('ar', this.createNormalizer(normalizers.ar));
-      this.normalizers.set('en', this.createNormalizer(normalizers.en));
+      this.normalizers.set('ar', createNormalizer(normalizers.ar));
+      this.normalizers.set('en', createNormalizer(normalizers.en));
+
+      // Lazy runtimes index only core terms; synonym shards come through the shard loader
+      this.lazyShards = metadata.config?.shard_loading === 'lazy';
+      this.shardIndices.clear();
+      if (this.lazyShards && this.shardLoader) {
+        await this.shardLoader.initialize();
+        this.shardLoader.onEvict((language, shard) => this.shardIndices.delete(`${language}-${shard}`));
+      } else if (this.lazyShards) {
+        console.warn('⚠️ Lazy runtime without a shard loader: synonym shards will not be used');
+      }
+
+      // Hold loaded indices and shards to the profile's memory budget
+      this.memory = new MemoryAccountant(metadata.config?.max_memory_mb);
+      this.enforceMemoryBudget();
+
+      // Cached results belong to the runtime that produced them; runtimes built without a
+      // fingerprint are identified by their metadata, which includes every file checksum
+      this.cacheEnabled = !!metadata.config?.enable_caching;
+      if (this.cacheEnabled) {
+        await this.cache.open(metadata.reproducibility?.fingerprint ?? await computeChecksum(JSON.stringify(metadata)));
+      }
 
       this.isInitialized = true;
       
@@ -118,7 +223,10 @@ export class UltraFastClassifier {
   }
 
   /**
-   * Classify single item with maximum performance
+   * Classify single item with maximum performance.
+   * On lazy runtimes, shards the item needs that are not in memory yet start loading for later items;
+   * classifyBatch fetches them before scoring instead. On runtimes built with `enable_caching`,
+   * items already seen under the same runtime are answered from the classification cache.
    */
   classify(input: ClassificationInput): FastClassificationResult {
     if (!this.isInitialized || !this.runtime) {
@@ -126,12 +234,48 @@ export class UltraFastClassifier {
     }
 
     const startTime = performance.now();
-    const text = `${input.name} ${input.description || ''}`.toLowerCase().trim();
-    
-    // Fast language detection
-    const language = this.detectLanguage(text);
-    const vocab = this.runtime.vocabularies[language];
-    const rules = this.runtime.rules[language];
+    const { language, normalizedText } = this.prepareInput(input);
+    if (!this.cacheEnabled) {
+      return this.score(input, language, normalizedText, startTime);
+    }
+
+    // Items repeated across suppliers and uploads reuse the decision made under this runtime
+    const cacheKey = ClassificationCache.key(language, normalizedText, input.code);
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      this.cacheHits++;
+      getPerformanceMonitor().recordCacheHit();
+      return {
+        ...cached,
+        item_id: input.id,
+        processing_time_ms: performance.now() - startTime,
+        matched_terms: [...cached.matched_terms],
+        explanation: [...cached.explanation]
+      };
+    }
+    getPerformanceMonitor().recordCacheMiss();
+
+    const unroutedBefore = this.shardStats.on_demand + this.shardStats.refused;
+    const result = this.score(input, language, normalizedText, startTime);
+    // A result scored without a shard the item routes to would go stale once that shard loads
+    if (this.shardStats.on_demand + this.shardStats.refused === unroutedBefore) {
+      this.cache.set(cacheKey, result);
+    }
+    return result;
+  }
+
+  /**
+   * Run the classification stages on prepared text
+   */
+  private score(
+    input: ClassificationInput,
+    language: 'ar' | 'en',
+    normalizedText: string,
+    startTime: number
+  ): FastClassificationResult {
+    const runtime = this.runtime!;
+    const vocab = runtime.vocabularies[language];
+    const rules = runtime.rules[language];
     
     // Initialize result
     const result: FastClassificationResult = {
@@ -143,67 +287,118 @@ export class UltraFastClassifier {
       language,
       processing_time_ms: 0,
       matched_terms: [],
-      explanation: []
+      explanation: [],
+      fingerprint: runtime.metadata.reproducibility?.fingerprint ?? null
     };
 
     // Stage 1: Ultra-fast negative filtering with bloom filter
-    const normalizer = this.normalizers.get(language)!;
-    const normalizedText = normalizer(text);
-    
-    if (!vocab.bloom.mightContainTerm(normalizedText)) {
+    this.prefilterStats.screened++;
+    const editCosts = runtime.editCosts[language] ?? undefined;
+    const coreFuzzyMatches = this.prefilterMiss(normalizedText, language);
+    if (coreFuzzyMatches?.length === 0) {
+      this.prefilterStats.short_circuited++;
       result.processing_time_ms = performance.now() - startTime;
-      result.explanation.push('Bloom filter: No PT terms detected');
+      result.explanation.push({
+        stage: 'prefilter',
+        label: 'Bloom filter found no PT terms',
+        ...this.source(`pt.vocab.${language}`),
+        score_delta: 0
+      });
       return result; // Definitely not PT, confidence = 0
     }
 
     // Stage 2: Hard blocker check (optimized with pre-compiled patterns)
-    if (this.checkBlockers(normalizedText, rules)) {
+    const prepared = this.matcher.prepare(normalizedText, language);
+    const hits = runtime.matchers[language].find(prepared);
+    const blocker = this.checkBlockers(prepared, hits);
+    if (blocker) {
       result.processing_time_ms = performance.now() - startTime;
-      result.explanation.push('Blocked by exclusion rules');
+      result.explanation.push(blocker);
       return result;
     }
 
     // Stage 3: NUPCO code analysis (if available and code provided)
     let nupcoScore = 0;
-    if (this.runtime.nupco && input.code) {
+    if (runtime.nupco && input.code) {
       const nupcoResult = this.analyzeNupcoCode(input.code);
       nupcoScore = nupcoResult.score;
       result.confidence += nupcoScore;
       if (nupcoResult.category) {
         result.category = nupcoResult.category;
       }
-      result.explanation.push(`NUPCO: ${nupcoScore}`);
+      result.explanation.push(nupcoResult.step);
     }
 
-    // Stage 4: Token-based fast matching
+    // Core indices plus those of the synonym shards this item routes to
     const tokenizer = this.tokenizers.get(language)!;
-    const tokenMatches = vocab.tokens.search(normalizedText, (text) => tokenizer.tokenize(text), 5);
+    const indices: ShardIndex[] = [vocab, ...this.routeToShards(normalizedText, language)];
+
+    // Stage 4: Token-based fast matching, ranked by BM25 so rare tokens carry a partial match
+    const tokenMatches = indices.flatMap(index =>
+      index.tokens.rankPartial(normalizedText, (text) => tokenizer.tokenize(text), Infinity)
+    );
     
     let maxTokenScore = 0;
-    let bestTokenMatch = null;
+    let bestTokenMatch: RankedTerm | null = null;
     
     for (const match of tokenMatches) {
-      if (match.score > maxTokenScore) {
-        maxTokenScore = match.score;
-        bestTokenMatch = match.term;
+      // Relevance scales the term's rule points by how much of the term the item matched
+      const points = match.relevance * match.term.score;
+      if (points > maxTokenScore) {
+        maxTokenScore = points;
+        bestTokenMatch = match;
       }
     }
     
-    result.confidence += maxTokenScore;
-    if (bestTokenMatch) {
-      result.matched_terms.push(bestTokenMatch.term);
-      result.category = result.category || bestTokenMatch.category;
-      result.pt_domain = result.pt_domain || bestTokenMatch.pt_domain;
+    // Substring-mode terms occur inside longer tokens, which the token index cannot rank
+    let bestSubstringHit: TermEntry<VocabularyTermData> | null = null;
+    for (const hit of hits) {
+      if (hit.kind === 'vocabulary' && hit.mode === 'substring' && hit.data.score > (bestSubstringHit?.data.score ?? maxTokenScore)) {
+        bestSubstringHit = hit;
+      }
+    }
+
+    if (bestSubstringHit) {
+      const { term, data } = bestSubstringHit;
+      result.confidence += data.score;
+      result.matched_terms.push(term);
+      result.category = result.category || data.category || null;
+      result.pt_domain = result.pt_domain || data.pt_domain || null;
+      result.explanation.push({
+        stage: 'vocabulary',
+        label: `Substring match "${term}"`,
+        term,
+        ...this.source(`pt.vocab.${language}`),
+        score_delta: data.score
+      });
+    } else if (bestTokenMatch) {
+      result.confidence += maxTokenScore;
+      const { term, relevance } = bestTokenMatch;
+      result.matched_terms.push(term.term);
+      result.category = result.category || term.category;
+      result.pt_domain = result.pt_domain || term.pt_domain;
+      result.explanation.push({
+        stage: 'vocabulary',
+        label: relevance < 1
+          ? `Token match "${term.term}" (relevance ${relevance.toFixed(2)})`
+          : `Token match "${term.term}"`,
+        term: term.term,
+        ...this.source(`pt.vocab.${language}`),
+        score_delta: maxTokenScore
+      });
     }
-    result.explanation.push(`Tokens: ${maxTokenScore.toFixed(1)}`);
 
     // Stage 5: Trie-based prefix matching (fallback for fuzzy matches)
-    const trieMatches = vocab.trie.fuzzySearch(normalizedText, 1, 3);
+    const trieMatches = indices.flatMap(index => index === vocab && coreFuzzyMatches
+      ? coreFuzzyMatches
+      : index.trie?.fuzzySearch(normalizedText, 1, 3, editCosts) ?? []);
     let maxTrieScore = 0;
+    let bestTrieTerm: string | null = null;
     
     for (const match of trieMatches) {
       if (match.score > maxTrieScore) {
         maxTrieScore = match.score;
+        bestTrieTerm = match.term;
         if (!result.matched_terms.includes(match.term)) {
           result.matched_terms.push(match.term);
         }
@@ -212,28 +407,51 @@ export class UltraFastClassifier {
       }
     }
     
-    result.confidence += maxTrieScore * 0.8; // Slight penalty for fuzzy matches
-    result.explanation.push(`Trie: ${(maxTrieScore * 0.8).toFixed(1)}`);
+    const fuzzyScore = roundScoreDelta(maxTrieScore * 0.8); // Slight penalty for fuzzy matches
+    result.confidence += fuzzyScore;
+
+    // Exact vocabulary hits found by the term automaton
+    for (const hit of hits) {
+      if (hit.kind === 'vocabulary' && !result.matched_terms.includes(hit.term)) {
+        result.matched_terms.push(hit.term);
+      }
+    }
+    if (bestTrieTerm) {
+      result.explanation.push({
+        stage: 'fuzzy',
+        label: editCosts ? `Weighted fuzzy trie match "${bestTrieTerm}"` : `Fuzzy trie match "${bestTrieTerm}"`,
+        term: bestTrieTerm,
+        ...this.source(`pt.vocab.${language}`),
+        score_delta: fuzzyScore
+      });
+    }
 
     // Stage 6: Contextual scoring boosts
-    const contextBoost = this.applyContextualBoosts(normalizedText, rules);
-    result.confidence += contextBoost;
-    if (contextBoost > 0) {
-      result.explanation.push(`Context: +${contextBoost.toFixed(1)}`);
+    const contextSteps = this.applyContextualBoosts(prepared, hits);
+    for (const step of contextSteps) {
+      result.confidence += step.score_delta;
+      result.explanation.push(step);
     }
 
     // Stage 7: Brand intelligence (if available)
-    if (this.runtime.brands) {
-      const brandBoost = this.analyzeBrands(normalizedText);
-      result.confidence += brandBoost;
-      if (brandBoost > 0) {
-        result.explanation.push(`Brand: +${brandBoost.toFixed(1)}`);
+    if (runtime.brands) {
+      const brandStep = this.analyzeBrands(hits);
+      if (brandStep) {
+        result.confidence += brandStep.score_delta;
+        result.explanation.push(brandStep);
       }
     }
 
     // Stage 8: Final determination
     const threshold = rules.scoring.thresholds.high_confidence || 45;
     result.is_pt = result.confidence >= threshold;
+    result.explanation.push({
+      stage: 'threshold',
+      label: `Confidence ${Math.round(result.confidence)} ${result.is_pt ? 'meets' : 'is below'} threshold ${threshold}`,
+      ...this.source(`pt.rules.${language}`),
+      rule_id: 'thresholds.high_confidence',
+      score_delta: 0
+    });
     result.confidence = Math.min(Math.max(result.confidence, 0), 100);
     
     result.processing_time_ms = performance.now() - startTime;
@@ -242,7 +460,8 @@ export class UltraFastClassifier {
   }
 
   /**
-   * Batch classify multiple items with optimized processing
+   * Batch classify multiple items with optimized processing; results are collected in memory,
+   * use classifyStream for large extracts
    */
   async classifyBatch(
     items: ClassificationInput[],
@@ -256,67 +475,294 @@ export class UltraFastClassifier {
     const results: FastClassificationResult[] = [];
     const total = items.length;
     let processed = 0;
+    let batches = 0;
+    let retainedSteps = 0;
+    let streamedSteps = 0; // Steps of the chunk classifyStream still counts until the next one is requested
+    const shortCircuitedBefore = this.prefilterStats.short_circuited;
+    const screenedBefore = this.prefilterStats.screened;
+    const cacheHitsBefore = this.cacheHits;
 
     console.log(`🔄 Processing ${total} items in batches of ${batchSize}...`);
     const overallStart = performance.now();
+    let batchStart = overallStart;
 
-    for (let i = 0; i < items.length; i += batchSize) {
-      const batch = items.slice(i, i + batchSize);
-      const batchStart = performance.now();
-      
-      // Process batch
-      for (const item of batch) {
-        const result = this.classify(item);
-        results.push(result);
-        processed++;
+    try {
+      for await (const batch of this.classifyStream(items, { chunkSize: batchSize })) {
+        results.push(...batch);
+        processed += batch.length;
+        
+        // Explanations stay in memory until the results are returned; take over counting
+        // the previous chunk, which the stream released when this one was requested
+        this.memory.retainExplanations(streamedSteps);
+        retainedSteps += streamedSteps;
+        streamedSteps = batch.reduce((sum, result) => sum + result.explanation.length, 0);
         
-        if (onProgress && processed % 100 === 0) {
-          onProgress(processed, total);
+        onProgress?.(processed, total);
+        
+        const batchTime = performance.now() - batchStart;
+        const itemsPerSecond = (batch.length / batchTime) * 1000;
+        
+        if (batches++ % 5 === 0) { // Log every 5 batches
+          console.log(`  Processed ${processed}/${total} (${itemsPerSecond.toFixed(0)} items/sec)`);
         }
+        batchStart = performance.now();
       }
-      
-      const batchTime = performance.now() - batchStart;
-      const itemsPerSecond = (batch.length / batchTime) * 1000;
-      
-      if (i % (batchSize * 5) === 0) { // Log every 5 batches
-        console.log(`  Processed ${processed}/${total} (${itemsPerSecond.toFixed(0)} items/sec)`);
-      }
-      
-      // Yield control periodically to prevent blocking
-      if (i % (batchSize * 2) === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
-      }
+    } finally {
+      this.memory.releaseExplanations(retainedSteps);
     }
 
     const overallTime = performance.now() - overallStart;
     const overallRate = (total / overallTime) * 1000;
     
     console.log(`✅ Batch processing complete: ${overallRate.toFixed(0)} items/second average`);
+    const shortCircuited = this.prefilterStats.short_circuited - shortCircuitedBefore;
+    const screened = this.prefilterStats.screened - screenedBefore;
+    console.log(`  Bloom prefilter: ${shortCircuited} short-circuited, ${screened - shortCircuited} sent on`);
+    if (this.cacheEnabled) {
+      console.log(`  Cache: ${this.cacheHits - cacheHitsBefore} answered without scoring`);
+    }
     
     return results;
   }
 
+  /**
+   * Classify items as a stream of result chunks. Items are pulled from the source one chunk at a time
+   * and the next chunk is not classified until the consumer asks for it, so rows can be piped to an
+   * exporter without holding every result. Aborting the signal stops before the next chunk.
+   */
+  async *classifyStream(
+    items: Iterable<ClassificationInput> | AsyncIterable<ClassificationInput>,
+    options: ClassifyStreamOptions = {}
+  ): AsyncGenerator<FastClassificationResult[]> {
+    if (!this.isInitialized) {
+      throw new Error('Classifier not initialized');
+    }
+    const { chunkSize = 1000, signal } = options;
+
+    for await (const chunk of chunked(items, chunkSize)) {
+      signal?.throwIfAborted();
+      
+      // Fetch the synonym shards this chunk routes to, and results stored by earlier runs, before scoring it
+      await Promise.all([this.prefetchShards(chunk), this.loadCachedResults(chunk)]);
+      signal?.throwIfAborted();
+      
+      const results = chunk.map(item => this.classify(item));
+      await this.cache.flush();
+      
+      // Count the chunk's explanations in the memory report while the consumer holds them
+      const steps = results.reduce((sum, result) => sum + result.explanation.length, 0);
+      this.memory.retainExplanations(steps);
+      this.enforceMemoryBudget();
+      try {
+        yield results;
+      } finally {
+        this.memory.releaseExplanations(steps);
+      }
+      
+      // Yield control between chunks to prevent blocking; stop before pulling more items
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+    }
+  }
+
+  /**
+   * Indices of the loaded shards an item routes to; routed shards not in memory yet start loading,
+   * unless the memory budget refuses new shards
+   */
+  private routeToShards(normalizedText: string, language: 'ar' | 'en'): ShardIndex[] {
+    if (!this.lazyShards || !this.shardLoader) return [];
+
+    const tokens = this.tokenizers.get(language)!.tokenize(normalizedText);
+    const indices: ShardIndex[] = [];
+    const refuseNew = this.memory.isDegraded('refuse_new_shards');
+    for (const shard of this.shardLoader.getSuggestedShards(tokens.join(' '), language)) {
+      this.shardStats.routed++;
+      const key = `${language}-${shard}`;
+      let index = this.shardIndices.get(key);
+      if (index) {
+        // Re-insert so map order stays least recently used first for budget eviction
+        this.shardIndices.delete(key);
+        this.shardIndices.set(key, index);
+      } else if (refuseNew) {
+        this.shardStats.refused++;
+        continue;
+      } else {
+        const terms = this.shardLoader.peekShard(language, shard);
+        if (terms) {
+          index = this.buildShardIndex(terms, language);
+          this.shardIndices.set(key, index);
+          this.enforceMemoryBudget();
+        } else {
+          this.shardStats.on_demand++;
+          this.shardLoader.getShard(language, shard).catch(error =>
+            console.warn(`Could not load shard ${key}:`, error.message)
+          );
+          continue;
+        }
+      }
+      indices.push(index);
+    }
+    return indices;
+  }
+
+  private async loadCachedResults(items: ClassificationInput[]): Promise<void> {
+    if (!this.cacheEnabled) return;
+    await this.cache.load(items.map(item => {
+      const { language, normalizedText } = this.prepareInput(item);
+      return ClassificationCache.key(language, normalizedText, item.code);
+    }));
+  }
+
+  /**
+   * Fuzzy matches of the core vocabulary for text the bloom filter rejects, or null when it passes.
+   * The filter only holds exact terms, so a misspelling is ruled out only when the fuzzy trie finds nothing either.
+   * It holds token keys only, so terms that opt into substring matching are looked up in the automaton instead.
+   */
+  private prefilterMiss(normalizedText: string, language: 'ar' | 'en'): TrieValue[] | null {
+    const vocab = this.runtime!.vocabularies[language];
+    if (vocab.bloom.mightContainTerm(normalizedText)) return null;
+    if (this.runtime!.matchers[language].containsSubstringTerm('vocabulary', normalizedText)) return null;
+    return vocab.trie?.fuzzySearch(normalizedText, 1, 3, this.runtime!.editCosts[language] ?? undefined) ?? [];
+  }
+
+  /**
+   * Load every shard the items route to, skipping items the prefilter will reject anyway
+   */
+  private async prefetchShards(items: ClassificationInput[]): Promise<void> {
+    if (!this.lazyShards || !this.shardLoader || !this.runtime) return;
+    if (this.memory.isDegraded('refuse_new_shards')) return;
+
+    const needed = { ar: new Set<string>(), en: new Set<string>() };
+    for (const item of items) {
+      const { language, normalizedText } = this.prepareInput(item);
+      if (this.prefilterMiss(normalizedText, language)?.length === 0) continue;
+
+      const tokens = this.tokenizers.get(language)!.tokenize(normalizedText);
+      for (const shard of this.shardLoader.getSuggestedShards(tokens.join(' '), language)) {
+        needed[language].add(shard);
+      }
+    }
+
+    await Promise.all((['ar', 'en'] as const).map(language =>
+      this.shardLoader!.preloadShards(language, Array.from(needed[language]))
+    ));
+  }
+
+  /**
+   * Index a shard's terms with the same normalization and tokenization as the core vocabulary
+   */
+  private buildShardIndex(terms: VocabTerm[], language: 'ar' | 'en'): ShardIndex {
+    const normalizer = this.normalizers.get(language)!;
+    const tokenizer = this.tokenizers.get(language)!;
+    const trie = this.memory.isDegraded('drop_fuzzy_indices') ? null : new CompressedTrie();
+    const tokens = new TokenIndex();
+
+    for (const term of terms) {
+      const normalized = normalizer(term.term);
+      const value = { term: term.term, score: term.score, category: term.category, pt_domain: term.pt_domain };
+      trie?.insert(normalized, value);
+      tokens.addTerm(term.term, normalized, term.score, term.category, term.pt_domain, (text) => tokenizer.tokenize(text));
+    }
+    tokens.finalizeIndex();
+
+    return { trie, tokens };
+  }
+
+  /**
+   * Degrade in stages while estimated memory is over `max_memory_mb`: drop the fuzzy tries,
+   * then evict shards least recently used first, then stop loading new shards
+   */
+  private enforceMemoryBudget(): void {
+    if (!this.runtime || !this.memory.isOverBudget(this.measureMemory())) return;
+
+    if (!this.memory.isDegraded('drop_fuzzy_indices')) {
+      this.memory.degrade('drop_fuzzy_indices', this.measureMemory());
+      this.runtime.vocabularies.ar.trie = null;
+      this.runtime.vocabularies.en.trie = null;
+      for (const index of this.shardIndices.values()) {
+        index.trie = null;
+      }
+      if (!this.memory.isOverBudget(this.measureMemory())) return;
+    }
+
+    if (!this.lazyShards || !this.shardLoader) return;
+
+    if (this.shardIndices.size > 0) {
+      this.memory.degrade('evict_shards', this.measureMemory());
+      for (const key of Array.from(this.shardIndices.keys())) {
+        if (!this.memory.isOverBudget(this.measureMemory())) return;
+        const [language, shard] = [key.slice(0, 2) as 'ar' | 'en', key.slice(3)];
+        this.shardIndices.delete(key);
+        this.shardLoader.evictShard(language, shard);
+      }
+    }
+
+    if (this.memory.isOverBudget(this.measureMemory())) {
+      this.memory.degrade('refuse_new_shards', this.measureMemory());
+    }
+  }
+
+  /**
+   * Estimated bytes held by the loaded indices, shards and retained explanations
+   */
+  private measureMemory(): MemoryBreakdown {
+    const breakdown: MemoryBreakdown = {
+      bloom: 0,
+      trie: 0,
+      tokens: 0,
+      shards: this.lazyShards ? this.shardLoader?.getMemoryUsage() ?? 0 : 0,
+      explanations: this.memory.explanationBytes()
+    };
+
+    for (const vocab of Object.values(this.runtime?.vocabularies ?? {})) {
+      breakdown.bloom += vocab.bloom.getMemoryUsage();
+      breakdown.trie += vocab.trie?.getMemoryUsage() ?? 0;
+      breakdown.tokens += vocab.tokens.getMemoryUsage();
+    }
+    for (const index of this.shardIndices.values()) {
+      breakdown.shards += (index.trie?.getMemoryUsage() ?? 0) + index.tokens.getMemoryUsage();
+    }
+    return breakdown;
+  }
+
   // Private helper methods
   private async loadJson(path: string): Promise<any> {
-    const response = await fetch(path);
-    if (!response.ok) {
-      throw new Error(`Failed to load ${path}: ${response.statusText}`);
-    }
-    return await response.json();
+    return JSON.parse(new TextDecoder().decode(await this.loadBuffer(path)));
   }
 
+  /**
+   * Read a runtime file under its stored (possibly compressed) name, verify it, and decompress it
+   */
   private async loadBuffer(path: string): Promise<ArrayBuffer> {
-    const response = await fetch(path);
-    if (!response.ok) {
-      throw new Error(`Failed to load ${path}: ${response.statusText}`);
-    }
-    return await response.arrayBuffer();
+    const storedPath = this.codec.storedName(path);
+    const stored = await this.runtimeSource.readBuffer(storedPath);
+    await this.verify(storedPath, stored);
+    if (storedPath === path) return stored;
+
+    // Binary views need a buffer that starts at the data, so copy only when given a slice
+    const data = await this.codec.decompress(new Uint8Array(stored));
+    return data.byteOffset === 0 && data.byteLength === data.buffer.byteLength
+      ? data.buffer as ArrayBuffer
+      : data.slice().buffer;
+  }
+
+  private async verify(path: string, data: string | ArrayBuffer): Promise<void> {
+    const fileName = path.split('/').pop()!;
+    await verifyChecksum(path, data, this.checksums[fileName]);
+  }
+
+  /**
+   * Missing optional files are tolerated, corrupted ones are not
+   */
+  private optionalFile(error: unknown): null {
+    if (error instanceof ChecksumMismatchError) throw error;
+    return null;
   }
 
   private async loadNormalizers(runtimePath: string): Promise<any> {
     return {
-      ar: await this.loadJson(`${runtimePath}/runtime.rules.ar.json`),
-      en: await this.loadJson(`${runtimePath}/runtime.rules.en.json`)
+      ar: await this.loadJson(`${runtimePath}/runtime.normalize.ar.json`),
+      en: await this.loadJson(`${runtimePath}/runtime.normalize.en.json`)
     };
   }
 
@@ -330,15 +776,15 @@ export class UltraFastClassifier {
         
         // Load bloom filter
         const bloomBuffer = await this.loadBuffer(`${runtimePath}/runtime.vocab.${lang}.bloom.bin`);
-        const bloom = BloomFilter.deserialize(bloomBuffer);
+        const bloom = MedicalTermBloomFilter.deserializeTerms(bloomBuffer, lang as 'ar' | 'en');
         
         // Load trie
-        const trieData = await this.loadJson(`${runtimePath}/runtime.vocab.${lang}.trie.json`);
-        const trie = CompressedTrie.deserialize(trieData);
+        const trieBuffer = await this.loadBuffer(`${runtimePath}/runtime.vocab.${lang}.trie.bin`);
+        const trie = CompressedTrie.deserializeBinary(trieBuffer);
         
         // Load token index
-        const tokenData = await this.loadJson(`${runtimePath}/runtime.vocab.${lang}.tokens.json`);
-        const tokens = TokenIndex.deserialize(tokenData);
+        const tokenBuffer = await this.loadBuffer(`${runtimePath}/runtime.vocab.${lang}.tokens.bin`);
+        const tokens = TokenIndex.deserializeBinary(tokenBuffer);
         
         vocabularies[lang] = {
           bloom,
@@ -350,6 +796,7 @@ export class UltraFastClassifier {
         console.log(`  ✅ ${lang} vocabulary loaded: ${meta.total_terms} terms`);
         
       } catch (error) {
+        if (error instanceof ChecksumMismatchError) throw error;
         console.warn(`Warning: Could not load ${lang} vocabulary:`, error.message);
         // Create empty indices as fallback
         vocabularies[lang] = {
@@ -364,6 +811,21 @@ export class UltraFastClassifier {
     return vocabularies;
   }
 
+  private async loadMatchers(runtimePath: string): Promise<RuntimeData['matchers']> {
+    return {
+      ar: TermAutomaton.deserialize(await this.loadJson(`${runtimePath}/runtime.match.ar.json`)),
+      en: TermAutomaton.deserialize(await this.loadJson(`${runtimePath}/runtime.match.en.json`))
+    };
+  }
+
+  private async loadEditCosts(runtimePath: string): Promise<RuntimeData['editCosts']> {
+    const load = async (lang: 'ar' | 'en') => {
+      const table = await this.loadJson(`${runtimePath}/runtime.editcosts.${lang}.json`).catch(this.optionalFile);
+      return table ? new EditCosts(table) : null;
+    };
+    return { ar: await load('ar'), en: await load('en') };
+  }
+
   private async loadRules(runtimePath: string): Promise<any> {
     return {
       ar: await this.loadJson(`${runtimePath}/runtime.rules.ar.json`),
@@ -371,78 +833,104 @@ export class UltraFastClassifier {
     };
   }
 
+  /**
+   * Language and normalized text of an item's name and description
+   */
+  private prepareInput(input: ClassificationInput): { language: 'ar' | 'en'; normalizedText: string } {
+    const text = `${input.name} ${input.description || ''}`.toLowerCase().trim();
+    const language = this.detectLanguage(text);
+    return { language, normalizedText: this.normalizers.get(language)!(text) };
+  }
+
   private detectLanguage(text: string): 'ar' | 'en' {
     return /[\u0600-\u06FF]/.test(text) ? 'ar' : 'en';
   }
 
-  private createNormalizer(rules: any): (text: string) => string {
-    return (text: string) => {
-      let normalized = text.toLowerCase();
-      
-      for (const step of rules.processing_order || []) {
-        const rule = rules[step];
-        if (typeof rule === 'object' && rule.pattern) {
-          normalized = normalized.replace(new RegExp(rule.pattern, 'g'), rule.replacement);
-        } else if (typeof rule === 'object') {
-          for (const [from, to] of Object.entries(rule)) {
-            normalized = normalized.replace(new RegExp(from, 'g'), to as string);
-          }
-        }
-      }
-      
-      return normalized.trim();
-    };
-  }
+  private checkBlockers(text: PreparedText, hits: TermEntry[]): ExplanationStep | null {
+    const blocker = hits.find(hit => hit.kind === 'blocker') as TermEntry<BlockerTermData> | undefined;
+    if (!blocker) return null;
 
-  private checkBlockers(text: string, rules: any): boolean {
-    const blockers = rules.filters.compiled_blockers || [];
-    return blockers.some((blocker: string) => text.includes(blocker.toLowerCase()));
+    return {
+      stage: 'blocker',
+      label: `Blocked by exclusion rule "${blocker.term}"`,
+      term: blocker.term,
+      ...this.source(`pt.rules.${text.language}`),
+      rule_id: `hard_blockers.${blocker.data.category}`,
+      score_delta: 0
+    };
   }
 
-  private analyzeNupcoCode(code: string): { score: number; category?: string } {
-    if (!this.runtime?.nupco) return { score: 0 };
-    
+  private analyzeNupcoCode(code: string): { score: number; category?: string; step: ExplanationStep } {
     const prefix = code.substring(0, 2);
-    const rule = this.runtime.nupco.prefix_rules[prefix];
+    const rule = this.runtime?.nupco?.prefix_rules[prefix];
+    const step = (score: number, label: string): ExplanationStep => ({
+      stage: 'nupco',
+      label,
+      ...this.source('pt.nupco.core'),
+      rule_id: rule ? `prefix_mapping.${prefix}` : undefined,
+      score_delta: score
+    });
     
-    if (!rule) return { score: 0 };
+    if (!rule) return { score: 0, step: step(0, `No NUPCO rule for code prefix ${prefix}`) };
     
+    const label = `NUPCO prefix ${prefix} (${rule.pt_relevance} relevance)`;
     switch (rule.pt_relevance) {
-      case 'high': return { score: 30, category: rule.category };
-      case 'medium': return { score: 15, category: rule.category };
-      case 'exclude': return { score: -50 };
-      default: return { score: 0 };
+      case 'high': return { score: 30, category: rule.category, step: step(30, label) };
+      case 'medium': return { score: 15, category: rule.category, step: step(15, label) };
+      case 'exclude': return { score: -50, step: step(-50, label) };
+      default: return { score: 0, step: step(0, label) };
     }
   }
 
-  private applyContextualBoosts(text: string, rules: any): number {
-    const boosts = rules.scoring.contextual_boosts || {};
-    let totalBoost = 0;
+  private applyContextualBoosts(text: PreparedText, hits: TermEntry[]): ExplanationStep[] {
+    const steps: ExplanationStep[] = [];
+    const applied = new Set<string>();
     
-    for (const [name, boost] of Object.entries(boosts)) {
-      const boostRule = boost as any;
-      for (const keyword of boostRule.keywords || []) {
-        if (text.includes(keyword.toLowerCase())) {
-          totalBoost += (boostRule.boost_factor - 1) * 20;
-          break;
-        }
-      }
+    // Each rule boosts once, for its first keyword found
+    for (const { kind, term, data } of hits as TermEntry<BoostTermData>[]) {
+      if (kind !== 'boost' || applied.has(data.rule)) continue;
+      applied.add(data.rule);
+      steps.push({
+        stage: 'context',
+        label: `Contextual boost "${term}"`,
+        term,
+        ...this.source(`pt.rules.${text.language}`),
+        rule_id: `contextual_boosts.${data.rule}`,
+        score_delta: roundScoreDelta((data.boost_factor - 1) * 20)
+      });
     }
     
-    return totalBoost;
+    return steps;
   }
 
-  private analyzeBrands(text: string): number {
-    if (!this.runtime?.brands) return 0;
+  private analyzeBrands(hits: TermEntry[]): ExplanationStep | null {
+    if (!this.runtime?.brands) return null;
     
-    const brands = this.runtime.brands.brands || [];
-    for (const brand of brands) {
-      if (text.includes(brand.brand.toLowerCase())) {
-        return brand.pt_focus ? brand.reputation_score * 0.15 : 0;
-      }
-    }
+    const brand = hits.find(hit => hit.kind === 'brand')?.data as BrandData | undefined;
+    if (!brand) return null;
     
-    return 0;
+    return {
+      stage: 'brand',
+      label: brand.pt_focus ? `PT-focused brand ${brand.brand}` : `Brand ${brand.brand} is not PT-focused`,
+      term: brand.brand,
+      ...this.source('pt.brands.core'),
+      rule_id: brand.brand,
+      score_delta: brand.pt_focus ? roundScoreDelta(brand.reputation_score * 0.15) : 0
+    };
+  }
+
+  /**
+   * Package name and the version recorded in runtime metadata at build time
+   */
+  private source(packageName: string): Pick<ExplanationStep, 'package' | 'version'> {
+    return { package: packageName, version: this.runtime?.metadata.packages?.[packageName] };
+  }
+
+  /**
+   * Drop every cached result, in memory and in the cache store
+   */
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
   }
 
   /**
@@ -459,6 +947,20 @@ export class UltraFastClassifier {
         en: this.runtime.vocabularies.en.meta
       },
       estimated_memory: this.runtime.metadata.estimated_memory,
+      reproducibility: this.runtime.metadata.reproducibility ?? null,
+      prefilter: {
+        ...this.prefilterStats,
+        passed: this.prefilterStats.screened - this.prefilterStats.short_circuited
+      },
+      classified: {
+        scored: this.prefilterStats.screened,
+        from_cache: this.cacheHits
+      },
+      shards: this.lazyShards
+        ? { ...this.shardStats, indexed: Array.from(this.shardIndices.keys()) }
+        : null,
+      memory: this.memory.report(this.measureMemory()),
+      cache: this.cacheEnabled ? this.cache.getStats() : null,
       initialization_complete: this.isInitialized
     };
   }
@@ -0,0 +1,105 @@
+/**
+ * Registry Builder
+ * Generates registry metadata that web-hosted registries cannot compute on the fly
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { compareVersions, isValidVersion } from '../engine-core/semver';
+import { computeChecksum } from '../engine-core/checksum';
+import type { PackageManifest } from '../engine-core/types';
+
+export class RegistryBuilder {
+  private registryPath: string;
+
+  constructor(sourcePath: string = '.') {
+    this.registryPath = path.join(sourcePath, 'registry');
+  }
+
+  /**
+   * Write registry/index.json listing the available versions of every package,
+   * used by HttpRegistrySource to resolve version ranges
+   */
+  async buildIndex(): Promise<Record<string, string[]>> {
+    console.log('🗂️ Building registry index...');
+
+    const packages: Record<string, string[]> = {};
+    const entries = await fs.promises.readdir(this.registryPath, { withFileTypes: true });
+
+    for (const entry of entries.filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+      const versionEntries = await fs.promises.readdir(path.join(this.registryPath, entry.name), { withFileTypes: true });
+      const versions = versionEntries
+        .filter(v => v.isDirectory() && isValidVersion(v.name))
+        .map(v => v.name)
+        .sort(compareVersions);
+
+      if (versions.length > 0) {
+        packages[entry.name] = versions;
+      }
+    }
+
+    await fs.promises.writeFile(
+      path.join(this.registryPath, 'index.json'),
+      JSON.stringify({ packages }, null, 2) + '\n'
+    );
+
+    console.log(`  ✅ Indexed ${Object.keys(packages).length} packages`);
+    return packages;
+  }
+
+  /**
+   * Compute SHA-256 checksums for every file listed in each package manifest.
+   * Shard directories get one checksum per shard file.
+   */
+  async writeChecksums(packages: Record<string, string[]>): Promise<void> {
+    console.log('🔐 Writing package checksums...');
+
+    for (const [name, versions] of Object.entries(packages)) {
+      for (const version of versions) {
+        const packageDir = path.join(this.registryPath, name, version);
+        const manifestPath = path.join(packageDir, 'manifest.json');
+        const manifest: PackageManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'));
+
+        for (const [file, spec] of Object.entries(manifest.files || {})) {
+          const filePath = path.join(packageDir, file);
+
+          if (spec.format === 'jsonl_shards') {
+            const shardFiles = fs.existsSync(filePath)
+              ? (await fs.promises.readdir(filePath)).filter(shard => shard.endsWith('.jsonl')).sort()
+              : [];
+            spec.shard_checksums = {};
+            for (const shard of shardFiles) {
+              spec.shard_checksums[shard] = await computeChecksum(await fs.promises.readFile(path.join(filePath, shard)));
+            }
+            delete spec.checksum;
+          } else if (fs.existsSync(filePath)) {
+            spec.checksum = await computeChecksum(await fs.promises.readFile(filePath));
+          } else {
+            console.warn(`  Warning: ${name}@${version} declares missing file ${file}`);
+            delete spec.checksum;
+          }
+        }
+
+        await fs.promises.writeFile(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+      }
+    }
+
+    console.log('  ✅ Checksums updated');
+  }
+
+  /**
+   * Regenerate all registry metadata
+   */
+  async build(): Promise<void> {
+    const packages = await this.buildIndex();
+    await this.writeChecksums(packages);
+  }
+}
+
+// CLI interface
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const builder = new RegistryBuilder(process.argv[2] || '.');
+
+  builder.build()
+    .then(() => console.log('🎉 Registry build completed!'))
+    .catch(console.error);
+}
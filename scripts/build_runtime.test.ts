@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { RuntimeCompiler } from './build_runtime';
+
+function readTree(dir: string): Record<string, Buffer> {
+  return Object.fromEntries(fs.readdirSync(dir).sort().map(file => [file, fs.readFileSync(path.join(dir, file))]));
+}
+
+describe('RuntimeCompiler', () => {
+  const outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'pt-runtime-'));
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubEnv('SOURCE_DATE_EPOCH', '');
+    await new RuntimeCompiler('.', path.join(outputPath, 'first')).buildRuntime('lite');
+    await new RuntimeCompiler('.', path.join(outputPath, 'second')).buildRuntime('lite');
+  }, 120_000);
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(outputPath, { recursive: true, force: true });
+  });
+
+  it('writes byte-identical runtimes when built twice from the same inputs', () => {
+    const first = readTree(path.join(outputPath, 'first', 'lite'));
+    const second = readTree(path.join(outputPath, 'second', 'lite'));
+
+    expect(Object.keys(second)).toEqual(Object.keys(first));
+    for (const [file, data] of Object.entries(first)) {
+      expect(second[file].equals(data), file).toBe(true);
+    }
+  });
+
+  it('records the time of the last commit touching the profile or its packages', () => {
+    const meta = JSON.parse(fs.readFileSync(path.join(outputPath, 'first', 'lite', 'runtime.meta.json'), 'utf-8'));
+    const inputs = ['profiles/runtime-lite.ptlock.json', ...Object.entries(meta.packages).map(([name, version]) => `registry/${name}/${version}`)];
+    const seconds = execFileSync('git', ['log', '-1', '--format=%ct', '--', ...inputs], { encoding: 'utf-8' }).trim();
+
+    expect(meta.build_timestamp).toBe(new Date(Number(seconds) * 1000).toISOString());
+  });
+
+  it('records SOURCE_DATE_EPOCH when set', async () => {
+    vi.stubEnv('SOURCE_DATE_EPOCH', '1700000000');
+    await new RuntimeCompiler('.', path.join(outputPath, 'epoch')).buildRuntime('lite');
+
+    const meta = JSON.parse(fs.readFileSync(path.join(outputPath, 'epoch', 'lite', 'runtime.meta.json'), 'utf-8'));
+    expect(meta.build_timestamp).toBe('2023-11-14T22:13:20.000Z');
+  }, 120_000);
+});
@@ -4,20 +4,44 @@
  */
 import * as fs from 'fs';
 import * as path from 'path';
+import { execFileSync } from 'child_process';
 import { BloomFilter, MedicalTermBloomFilter } from '../engine-core/indexers/bloom';
 import { CompressedTrie } from '../engine-core/indexers/trie';
 import { TokenIndex, MedicalTokenizer } from '../engine-core/indexers/tokens';
+import { PackageResolver } from '../engine-core/resolver';
+import { FileSystemRegistrySource } from '../adapters/node/registry-source';
+import { computeChecksum } from '../engine-core/checksum';
+import { buildTermAutomaton } from '../engine-core/term-matcher';
+import { validateEditCosts } from '../engine-core/schema';
+import { createNormalizer } from '../engine-core/normalizer';
+import { ArtifactCodec, isCompressible } from '../engine-core/compression';
+import { zlibGzip } from '../adapters/node/compression';
+import { computeReproducibilityStamp } from '../engine-core/fingerprint';
+import type { PTProfile } from '../engine-core/types';
 
 interface RuntimeProfile {
   profile_name: string;
+  version: string;
   packages: Record<string, string | any>;
   runtime_config: any;
   features: Record<string, boolean>;
 }
 
+/** Size and load time of an index in its JSON and binary layouts */
+export interface FormatComparison {
+  json_bytes: number;
+  binary_bytes: number;
+  size_ratio: number;
+  json_load_ms: number;
+  binary_load_ms: number;
+}
+
 export class RuntimeCompiler {
   private sourcePath: string;
   private outputPath: string;
+  private resolvedVersions: Map<string, string> = new Map();
+  private buildTime: string | undefined;
+  private binaryFormats: Record<string, Record<string, FormatComparison>> = {};
 
   constructor(sourcePath: string = './pt', outputPath: string = './pt/runtime') {
     this.sourcePath = sourcePath;
@@ -35,6 +59,14 @@ export class RuntimeCompiler {
       const profile = await this.loadProfile(profileName);
       const runtimeDir = path.join(this.outputPath, profileName);
       
+      // Resolve profile version ranges to concrete registry versions
+      const resolved = await new PackageResolver(new FileSystemRegistrySource(this.sourcePath))
+        .resolve(profile as PTProfile);
+      this.resolvedVersions = new Map(resolved.map(pkg => [pkg.name, pkg.version]));
+      this.buildTime = this.inputTimestamp(profileName);
+      this.binaryFormats = {};
+      console.log(`  📦 Resolved ${resolved.map(pkg => `${pkg.name}@${pkg.version}`).join(', ')}`);
+      
       // Ensure output directory exists
       await fs.promises.mkdir(runtimeDir, { recursive: true });
       
@@ -52,9 +84,18 @@ export class RuntimeCompiler {
         await this.buildNupco(profile, runtimeDir);
       }
       
+      // Multi-pattern matchers need rules and brands built first
+      await this.buildMatchers(profile, runtimeDir);
+      
       // Build performance indices
       await this.buildIndices(profile, runtimeDir);
       
+      // Compress with the profile's codec once every artifact is written
+      await this.compressArtifacts(profileName);
+      
+      // Record checksums last so they cover every artifact
+      await this.writeChecksums(profileName);
+      
       console.log(`✅ ${profileName} runtime built successfully`);
       
     } catch (error) {
@@ -63,6 +104,94 @@ export class RuntimeCompiler {
     }
   }
 
+  /**
+   * JSON vs binary comparison of each index from the last build, per language
+   */
+  getBinaryFormatReport(): Record<string, Record<string, FormatComparison>> {
+    return this.binaryFormats;
+  }
+
+  /**
+   * Record SHA-256 checksums of all runtime artifacts in runtime.meta.json.
+   * Must be re-run after any step that rewrites runtime files.
+   */
+  async writeChecksums(profileName: 'lite' | 'full'): Promise<void> {
+    const runtimeDir = path.join(this.outputPath, profileName);
+    const metaPath = path.join(runtimeDir, 'runtime.meta.json');
+    const metadata = JSON.parse(await fs.promises.readFile(metaPath, 'utf-8'));
+
+    const checksums: Record<string, string> = {};
+    const files = (await fs.promises.readdir(runtimeDir, { withFileTypes: true }))
+      .filter(entry => entry.isFile() && entry.name !== 'runtime.meta.json')
+      .map(entry => entry.name)
+      .sort();
+
+    for (const file of files) {
+      checksums[file] = await computeChecksum(await fs.promises.readFile(path.join(runtimeDir, file)));
+    }
+
+    metadata.checksums = checksums;
+    await fs.promises.writeFile(metaPath, JSON.stringify(metadata, null, 2));
+    console.log(`  🔐 Recorded checksums for ${files.length} runtime files`);
+  }
+
+  /**
+   * Compress runtime artifacts with the codec in the profile's runtime_config, replacing the plain files.
+   * Already compressed files are skipped, so this can be re-run after later build steps.
+   */
+  async compressArtifacts(profileName: 'lite' | 'full'): Promise<void> {
+    const runtimeDir = path.join(this.outputPath, profileName);
+    const metadata = JSON.parse(await fs.promises.readFile(path.join(runtimeDir, 'runtime.meta.json'), 'utf-8'));
+    const codec = new ArtifactCodec(metadata.config?.compression, zlibGzip);
+    if (codec.codec === 'none') return;
+
+    const files = (await fs.promises.readdir(runtimeDir, { withFileTypes: true }))
+      .filter(entry => entry.isFile() && isCompressible(entry.name) && !entry.name.endsWith(codec.extension))
+      .map(entry => entry.name);
+
+    let plainBytes = 0;
+    let compressedBytes = 0;
+    for (const file of files) {
+      const filePath = path.join(runtimeDir, file);
+      const data = await fs.promises.readFile(filePath);
+      const compressed = await codec.compress(data);
+      await fs.promises.writeFile(path.join(runtimeDir, codec.storedName(file)), compressed);
+      await fs.promises.unlink(filePath);
+      plainBytes += data.byteLength;
+      compressedBytes += compressed.byteLength;
+    }
+
+    const savings = plainBytes > 0 ? ((1 - compressedBytes / plainBytes) * 100).toFixed(1) : '0.0';
+    console.log(`  🗜️ Compressed ${files.length} runtime files with ${codec.codec}: ${plainBytes} → ${compressedBytes} bytes (${savings}% savings)`);
+  }
+
+  /**
+   * Build time recorded in runtime files, derived from the inputs so rebuilding them gives identical files:
+   * SOURCE_DATE_EPOCH when set, else the last commit touching the profile or its resolved packages.
+   * Omitted when neither is available.
+   */
+  private inputTimestamp(profileName: string): string | undefined {
+    const epoch = process.env.SOURCE_DATE_EPOCH;
+    if (epoch) {
+      return new Date(Number(epoch) * 1000).toISOString();
+    }
+
+    const inputs = [
+      path.join('profiles', `runtime-${profileName}.ptlock.json`),
+      ...Array.from(this.resolvedVersions, ([name, version]) => path.join('registry', name, version))
+    ];
+    try {
+      const seconds = execFileSync('git', ['log', '-1', '--format=%ct', '--', ...inputs], {
+        cwd: this.sourcePath,
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'ignore']
+      }).trim();
+      return seconds ? new Date(Number(seconds) * 1000).toISOString() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Load profile configuration
    */
@@ -76,11 +205,18 @@ export class RuntimeCompiler {
    * Build metadata file
    */
   private async buildMetadata(profile: RuntimeProfile, outputDir: string): Promise<void> {
+    const rules = {
+      ar: await this.loadRuleSet('ar'),
+      en: await this.loadRuleSet('en')
+    };
+    
     const metadata = {
       profile_name: profile.profile_name,
-      build_timestamp: new Date().toISOString(),
+      build_timestamp: this.buildTime,
       features: profile.features,
       config: profile.runtime_config,
+      packages: Object.fromEntries(this.resolvedVersions),
+      reproducibility: await computeReproducibilityStamp(profile, Object.fromEntries(this.resolvedVersions), rules),
       version: '2.0.0'
     };
     
@@ -97,7 +233,7 @@ export class RuntimeCompiler {
     console.log('  📝 Building normalizers...');
     
     for (const lang of ['ar', 'en']) {
-      const version = profile.packages[`pt.normalization.${lang}`];
+      const version = this.versionOf(`pt.normalization.${lang}`);
       const sourcePath = path.join(this.sourcePath, `registry/pt.normalization.${lang}/${version}/rules.json`);
       
       try {
@@ -107,10 +243,24 @@ export class RuntimeCompiler {
         const optimizedRules = this.optimizeNormalizationRules(rules);
         
         await fs.promises.writeFile(
-          path.join(outputDir, `runtime.rules.${lang}.json`),
+          path.join(outputDir, `runtime.normalize.${lang}.json`),
           JSON.stringify(optimizedRules)
         );
         
+        // Weighted fuzzy matching costs ship alongside the rules when the package provides them
+        const costsPath = path.join(path.dirname(sourcePath), 'edit_costs.json');
+        if (fs.existsSync(costsPath)) {
+          const costs = JSON.parse(await fs.promises.readFile(costsPath, 'utf-8'));
+          const issues = validateEditCosts(costs);
+          if (issues.length > 0) {
+            throw new Error(`Invalid edit costs for ${lang}: ${issues.join('; ')}`);
+          }
+          await fs.promises.writeFile(
+            path.join(outputDir, `runtime.editcosts.${lang}.json`),
+            JSON.stringify(costs)
+          );
+        }
+        
       } catch (error) {
         console.warn(`Warning: Could not build normalizer for ${lang}:`, error.message);
       }
@@ -134,15 +284,15 @@ export class RuntimeCompiler {
     outputDir: string
   ): Promise<void> {
     const vocabConfig = profile.packages[`pt.vocab.${lang}`];
-    const version = typeof vocabConfig === 'string' ? vocabConfig : vocabConfig.version;
+    const version = this.versionOf(`pt.vocab.${lang}`);
     const basePath = path.join(this.sourcePath, `registry/pt.vocab.${lang}/${version}`);
     
     try {
       // Load normalization rules for this language
-      const normalizationVersion = profile.packages[`pt.normalization.${lang}`];
+      const normalizationVersion = this.versionOf(`pt.normalization.${lang}`);
       const normalizationPath = path.join(this.sourcePath, `registry/pt.normalization.${lang}/${normalizationVersion}/rules.json`);
       const normalizationRules = JSON.parse(await fs.promises.readFile(normalizationPath, 'utf-8'));
-      const normalizer = this.createNormalizer(normalizationRules);
+      const normalizer = createNormalizer(normalizationRules);
       
       // Create tokenizer
       const tokenizer = new MedicalTokenizer(lang);
@@ -152,13 +302,14 @@ export class RuntimeCompiler {
       
       // Load sharded synonyms if specified
       let allTerms = [...includeTerms];
+      const shardTerms: Record<string, any[]> = {};
       if (vocabConfig.shards) {
         for (const shard of vocabConfig.shards) {
           const shardPath = path.join(basePath, 'synonyms_shards', `${shard}.jsonl`);
           try {
-            const shardTerms = await this.loadJsonl(shardPath);
+            const shardEntries = await this.loadJsonl(shardPath);
             // Flatten synonyms into individual terms
-            const expandedTerms = shardTerms.flatMap((entry: any) => [
+            const expandedTerms = shardEntries.flatMap((entry: any) => [
               { term: entry.canonical, score: entry.score, category: 'general', pt_domain: 'general' },
               ...entry.synonyms.map((syn: string) => ({ 
                 term: syn, 
@@ -167,6 +318,7 @@ export class RuntimeCompiler {
                 pt_domain: 'general' 
               }))
             ]);
+            shardTerms[shard] = expandedTerms;
             allTerms.push(...expandedTerms);
           } catch (error) {
             console.warn(`Could not load shard ${shard}:`, error.message);
@@ -176,13 +328,17 @@ export class RuntimeCompiler {
       
       console.log(`    Building ${lang} vocabulary: ${allTerms.length} terms`);
       
-      // Build bloom filter
-      const bloomFilter = new MedicalTermBloomFilter(allTerms.length, lang, normalizer);
-      bloomFilter.addVocabulary(allTerms);
+      // Lazy runtimes index only the core terms up front; shards are indexed by the classifier once loaded.
+      // The bloom filter still covers every term so items needing a shard get past the prefilter.
+      const lazyShards = profile.runtime_config.shard_loading === 'lazy';
+      const indexedTerms = lazyShards ? includeTerms : allTerms;
+      
+      // Build n-gram bloom filter, sized from the distinct term n-grams
+      const bloomFilter = MedicalTermBloomFilter.fromTerms(allTerms, lang, normalizer);
       
       // Build compressed trie
       const trie = new CompressedTrie();
-      allTerms.forEach(term => {
+      indexedTerms.forEach(term => {
         const normalized = normalizer(term.term);
         trie.insert(normalized, {
           term: term.term,
@@ -194,7 +350,7 @@ export class RuntimeCompiler {
       
       // Build token index
       const tokenIndex = new TokenIndex();
-      allTerms.forEach(term => {
+      indexedTerms.forEach(term => {
         const normalized = normalizer(term.term);
         tokenIndex.addTerm(
           term.term,
@@ -213,24 +369,60 @@ export class RuntimeCompiler {
         Buffer.from(bloomFilter.serialize())
       );
       
+      const trieBinary = trie.serializeBinary();
       await fs.promises.writeFile(
-        path.join(outputDir, `runtime.vocab.${lang}.trie.json`),
-        trie.serialize()
+        path.join(outputDir, `runtime.vocab.${lang}.trie.bin`),
+        Buffer.from(trieBinary)
       );
       
+      const tokenBinary = tokenIndex.serializeBinary();
       await fs.promises.writeFile(
-        path.join(outputDir, `runtime.vocab.${lang}.tokens.json`),
-        JSON.stringify(tokenIndex.serialize())
+        path.join(outputDir, `runtime.vocab.${lang}.tokens.bin`),
+        Buffer.from(tokenBinary)
       );
       
+      // Report what the binary layout saves over the JSON one
+      const binaryFormat = {
+        trie: this.compareFormats(
+          trie.serialize(),
+          trieBinary,
+          json => CompressedTrie.deserialize(json),
+          buffer => CompressedTrie.deserializeBinary(buffer)
+        ),
+        tokens: this.compareFormats(
+          JSON.stringify(tokenIndex.serialize()),
+          tokenBinary,
+          json => TokenIndex.deserialize(JSON.parse(json)),
+          buffer => TokenIndex.deserializeBinary(buffer)
+        )
+      };
+      this.binaryFormats[lang] = binaryFormat;
+      for (const [index, report] of Object.entries(binaryFormat)) {
+        console.log(
+          `    📦 ${lang} ${index}: ${report.json_bytes} B JSON → ${report.binary_bytes} B binary, ` +
+          `load ${report.json_load_ms} ms → ${report.binary_load_ms} ms`
+        );
+      }
+      
+      const shards = lazyShards
+        ? await this.writeShards(lang, shardTerms, normalizer, tokenizer, outputDir)
+        : null;
+      
       // Create vocabulary metadata
       const vocabMeta = {
         language: lang,
         total_terms: allTerms.length,
+        indexed_terms: indexedTerms.length,
+        shard_loading: lazyShards ? 'lazy' : 'eager',
+        ...(shards ? { shards } : {}),
         bloom_stats: bloomFilter.getStats(),
         trie_stats: trie.getStats(),
         token_stats: tokenIndex.getStats(),
-        build_time: new Date().toISOString()
+        // Load times differ from run to run, so the runtime records the sizes only
+        binary_format: Object.fromEntries(Object.entries(binaryFormat).map(([index, { json_bytes, binary_bytes, size_ratio }]) =>
+          [index, { json_bytes, binary_bytes, size_ratio }]
+        )),
+        build_time: this.buildTime
       };
       
       await fs.promises.writeFile(
@@ -252,17 +444,13 @@ export class RuntimeCompiler {
     console.log('  ⚖️ Building rules...');
     
     for (const lang of ['ar', 'en']) {
-      const version = profile.packages[`pt.rules.${lang}`];
-      const basePath = path.join(this.sourcePath, `registry/pt.rules.${lang}/${version}`);
-      
       try {
-        const filters = JSON.parse(await fs.promises.readFile(path.join(basePath, 'filters.json'), 'utf-8'));
-        const scoring = JSON.parse(await fs.promises.readFile(path.join(basePath, 'scoring.json'), 'utf-8'));
+        const { filters, scoring } = await this.loadRuleSet(lang);
         
         const optimizedRules = {
           filters: this.optimizeFilters(filters),
           scoring: this.optimizeScoring(scoring),
-          compiled_at: new Date().toISOString()
+          compiled_at: this.buildTime
         };
         
         await fs.promises.writeFile(
@@ -282,7 +470,7 @@ export class RuntimeCompiler {
   private async buildBrands(profile: RuntimeProfile, outputDir: string): Promise<void> {
     console.log('  🏷️ Building brand intelligence...');
     
-    const version = profile.packages['pt.brands.core'];
+    const version = this.versionOf('pt.brands.core');
     const brandsPath = path.join(this.sourcePath, `registry/pt.brands.core/${version}/brands.jsonl`);
     
     try {
@@ -298,7 +486,7 @@ export class RuntimeCompiler {
         brands: Array.from(brandMap.values()),
         lookup: Object.fromEntries(brandMap),
         total_brands: brands.length,
-        compiled_at: new Date().toISOString()
+        compiled_at: this.buildTime
       };
       
       await fs.promises.writeFile(
@@ -317,7 +505,7 @@ export class RuntimeCompiler {
   private async buildNupco(profile: RuntimeProfile, outputDir: string): Promise<void> {
     console.log('  🏥 Building NUPCO integration...');
     
-    const version = profile.packages['pt.nupco.core'];
+    const version = this.versionOf('pt.nupco.core');
     const basePath = path.join(this.sourcePath, `registry/pt.nupco.core/${version}`);
     
     try {
@@ -332,7 +520,7 @@ export class RuntimeCompiler {
           map[record.nupco_code] = record;
           return map;
         }, {}),
-        compiled_at: new Date().toISOString()
+        compiled_at: this.buildTime
       };
       
       await fs.promises.writeFile(
@@ -345,6 +533,50 @@ export class RuntimeCompiler {
     }
   }
 
+  /**
+   * Build Aho–Corasick automata covering every vocabulary, blocker, boost and brand term
+   */
+  private async buildMatchers(profile: RuntimeProfile, outputDir: string): Promise<void> {
+    console.log('  🔎 Building term automata...');
+    
+    const brandData = await this.loadIfExists(path.join(outputDir, 'runtime.brands.json'));
+    
+    for (const lang of ['ar', 'en'] as const) {
+      const vocabPath = path.join(this.sourcePath, `registry/pt.vocab.${lang}/${this.versionOf(`pt.vocab.${lang}`)}`);
+      const rulesPath = path.join(this.sourcePath, `registry/pt.rules.${lang}/${this.versionOf(`pt.rules.${lang}`)}`);
+      
+      try {
+        const shards: Record<string, any[]> = {};
+        for (const shard of profile.packages[`pt.vocab.${lang}`].shards || []) {
+          const shardPath = path.join(vocabPath, 'synonyms_shards', `${shard}.jsonl`);
+          if (fs.existsSync(shardPath)) {
+            shards[shard] = await this.loadJsonl(shardPath);
+          }
+        }
+        
+        const automaton = buildTermAutomaton(
+          lang,
+          { include: await this.loadJsonl(path.join(vocabPath, 'include.jsonl')), shards },
+          {
+            filters: JSON.parse(await fs.promises.readFile(path.join(rulesPath, 'filters.json'), 'utf-8')),
+            scoring: JSON.parse(await fs.promises.readFile(path.join(rulesPath, 'scoring.json'), 'utf-8'))
+          },
+          brandData?.brands || []
+        );
+        
+        await fs.promises.writeFile(
+          path.join(outputDir, `runtime.match.${lang}.json`),
+          JSON.stringify(automaton.serialize())
+        );
+        
+        console.log(`    ✅ ${lang} automaton built:`, automaton.getStats());
+        
+      } catch (error) {
+        console.warn(`Warning: Could not build term automaton for ${lang}:`, error.message);
+      }
+    }
+  }
+
   /**
    * Build unified performance indices
    */
@@ -358,7 +590,7 @@ export class RuntimeCompiler {
       build_info: {
         profile: profile.profile_name,
         features: profile.features,
-        build_time: new Date().toISOString(),
+        build_time: this.buildTime,
         estimated_memory: this.estimateMemoryUsage(profile)
       }
     };
@@ -370,6 +602,25 @@ export class RuntimeCompiler {
   }
 
   // Helper methods
+  /**
+   * Filters and scoring of a resolved rules package, as stored in the registry
+   */
+  private async loadRuleSet(lang: string): Promise<{ filters: any; scoring: any }> {
+    const basePath = path.join(this.sourcePath, `registry/pt.rules.${lang}/${this.versionOf(`pt.rules.${lang}`)}`);
+    return {
+      filters: JSON.parse(await fs.promises.readFile(path.join(basePath, 'filters.json'), 'utf-8')),
+      scoring: JSON.parse(await fs.promises.readFile(path.join(basePath, 'scoring.json'), 'utf-8'))
+    };
+  }
+
+  private versionOf(packageName: string): string {
+    const version = this.resolvedVersions.get(packageName);
+    if (!version) {
+      throw new Error(`Package ${packageName} was not resolved for this profile`);
+    }
+    return version;
+  }
+
   private async loadJsonl(filePath: string): Promise<any[]> {
     const content = await fs.promises.readFile(filePath, 'utf-8');
     return content.trim().split('\n').map(line => JSON.parse(line));
@@ -384,23 +635,67 @@ export class RuntimeCompiler {
     }
   }
 
-  private createNormalizer(rules: any): (text: string) => string {
-    return (text: string) => {
-      let normalized = text.toLowerCase();
-      
-      // Apply normalization rules in order
-      for (const step of rules.processing_order || []) {
-        const rule = rules[step];
-        if (typeof rule === 'object' && rule.pattern) {
-          normalized = normalized.replace(new RegExp(rule.pattern, 'g'), rule.replacement);
-        } else if (typeof rule === 'object') {
-          for (const [from, to] of Object.entries(rule)) {
-            normalized = normalized.replace(new RegExp(from, 'g'), to as string);
-          }
+  /**
+   * Write each synonym shard as JSONL for on-demand loading, plus a shard manifest that routes
+   * every token of a shard's normalized terms to the shards containing it
+   */
+  private async writeShards(
+    lang: 'ar' | 'en',
+    shardTerms: Record<string, any[]>,
+    normalizer: (text: string) => string,
+    tokenizer: MedicalTokenizer,
+    outputDir: string
+  ): Promise<Record<string, { terms: number; bytes: number }>> {
+    const shards: Record<string, { terms: number; bytes: number }> = {};
+    const routes: Record<string, string[]> = {};
+
+    for (const [shard, terms] of Object.entries(shardTerms)) {
+      const content = terms.map(term => JSON.stringify(term)).join('\n');
+      await fs.promises.writeFile(path.join(outputDir, `runtime.vocab.${lang}.${shard}.jsonl`), content);
+      shards[shard] = { terms: terms.length, bytes: Buffer.byteLength(content) };
+
+      for (const term of terms) {
+        for (const token of tokenizer.tokenize(normalizer(term.term))) {
+          const targets = routes[token] ??= [];
+          if (!targets.includes(shard)) targets.push(shard);
         }
       }
-      
-      return normalized.trim();
+    }
+
+    await fs.promises.writeFile(
+      path.join(outputDir, `runtime.vocab.${lang}.shards.json`),
+      JSON.stringify({ shards, routes })
+    );
+    console.log(`    🧩 ${lang}: ${Object.keys(shards).length} lazy shards, ${Object.keys(routes).length} routed tokens`);
+    return shards;
+  }
+
+  private compareFormats(
+    json: string,
+    binary: ArrayBuffer,
+    loadJson: (json: string) => unknown,
+    loadBinary: (buffer: ArrayBuffer) => unknown
+  ): FormatComparison {
+    // Best of a few runs, so one-off JIT warm-up does not dominate small indices
+    const time = (load: () => unknown) => {
+      let best = Infinity;
+      for (let run = 0; run < 5; run++) {
+        const start = performance.now();
+        load();
+        best = Math.min(best, performance.now() - start);
+      }
+      return Math.round(best * 100) / 100;
+    };
+    const jsonLoadMs = time(() => loadJson(json));
+    const binaryLoadMs = time(() => loadBinary(binary));
+    const jsonBytes = Buffer.byteLength(json);
+
+    return {
+      json_bytes: jsonBytes,
+      binary_bytes: binary.byteLength,
+      size_ratio: Math.round((binary.byteLength / jsonBytes) * 100) / 100,
+      json_load_ms: jsonLoadMs,
+      binary_load_ms: binaryLoadMs
     };
   }
 
@@ -462,4 +757,5 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   compiler.buildRuntime(profile)
     .then(() => console.log('🎉 Runtime compilation completed!'))
     .catch(console.error);
-}
\ No newline at end of file
+}
+
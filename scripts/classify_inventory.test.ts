@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { InventoryClassifierCli } from './classify_inventory';
+
+describe('InventoryClassifierCli', () => {
+  const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pt-cli-'));
+
+  afterAll(() => fs.rmSync(outDir, { recursive: true, force: true }));
+
+  it.each(['lite', 'full'] as const)('accepts the known PT items of the sample with the %s profile', async profile => {
+    const output = path.join(outDir, `decisions-${profile}.jsonl`);
+    const summary = await new InventoryClassifierCli().run({
+      input: 'sample_pt_test_data.csv', profile, format: 'jsonl', output
+    });
+
+    const rows = fs.readFileSync(output, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    const decisions = Object.fromEntries(rows.map(row => [row['Item Name'], row.Decision]));
+    expect(decisions).toMatchObject({
+      'WHEELCHAIR BARIATRIC': 'Accepted',
+      'WHEELCHAIR COMMODE': 'Accepted',
+      'TREADMILL REHABILITATION': 'Accepted',
+      'TENS UNIT PORTABLE': 'Accepted',
+      'GONIOMETER PLASTIC': 'Review',
+      'CT SCANNER HEAD': 'Rejected',
+      'VENTILATOR TRANSPORT': 'Rejected',
+      'SURGICAL INSTRUMENTS SET': 'Rejected',
+      'DEFIBRILLATOR AED': 'Rejected'
+    });
+    expect(summary.accepted).toBe(4);
+  });
+
+  it('fills Recommendation only for rows needing review, in every format', async () => {
+    const jsonl = path.join(outDir, 'results.jsonl');
+    const csv = path.join(outDir, 'results.csv');
+    await new InventoryClassifierCli().run({ input: 'sample_pt_test_data.csv', profile: 'lite', format: 'jsonl', output: jsonl });
+    await new InventoryClassifierCli().run({ input: 'sample_pt_test_data.csv', profile: 'lite', format: 'csv', output: csv });
+
+    const rows = fs.readFileSync(jsonl, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(rows.some(row => row.Decision === 'Review')).toBe(true);
+    for (const row of rows) {
+      expect('Recommendation' in row).toBe(row.Decision === 'Review');
+    }
+
+    const [header] = fs.readFileSync(csv, 'utf-8').split('\n');
+    expect(header.split(',').indexOf('Recommendation')).toBe(8);
+  });
+
+  describe('replay', () => {
+    const exported = path.join(outDir, 'replay.jsonl');
+    let rows: Array<Record<string, any>>;
+
+    beforeAll(async () => {
+      await new InventoryClassifierCli().run({ input: 'sample_pt_test_data.csv', profile: 'lite', format: 'jsonl', output: exported });
+      rows = fs.readFileSync(exported, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    });
+
+    function writeExport(name: string, edited: Array<Record<string, any>>): string {
+      const file = path.join(outDir, name);
+      fs.writeFileSync(file, edited.map(row => JSON.stringify(row)).join('\n'));
+      return file;
+    }
+
+    it('reproduces every decision of an export made with the current registry', async () => {
+      const report = await new InventoryClassifierCli().replay(exported);
+
+      expect(report.total_rows).toBe(rows.length);
+      expect(report.fingerprints).toEqual([rows[0].Fingerprint]);
+      expect(report.fingerprints[0]).toMatch(/^runtime-lite@[^;]+;.*rules#[0-9a-f]{12}$/);
+      expect(report.changed).toEqual([]);
+    });
+
+    it('reports the rows whose decision changed', async () => {
+      const index = rows.findIndex(row => row['Item Name'] === 'CT SCANNER HEAD');
+      const edited = rows.map((row, i) => i === index ? { ...row, Decision: 'Accepted', Score: 50 } : row);
+
+      const report = await new InventoryClassifierCli().replay(writeExport('changed.jsonl', edited));
+
+      expect(report.changed).toEqual([expect.objectContaining({
+        row: index + 1,
+        item_name: 'CT SCANNER HEAD',
+        before: { decision: 'Accepted', score: 50 },
+        after: { decision: 'Rejected', score: 0 }
+      })]);
+    });
+
+    it('refuses a fingerprint whose rules the registry no longer reproduces', async () => {
+      const edited = rows.map(row => ({ ...row, Fingerprint: row.Fingerprint.replace(/rules#[0-9a-f]+$/, 'rules#000000000000') }));
+
+      await expect(new InventoryClassifierCli().replay(writeExport('stale.jsonl', edited)))
+        .rejects.toThrow(/Registry no longer reproduces/);
+    });
+
+    it('refuses rows without a fingerprint', async () => {
+      const edited = rows.map(({ Fingerprint, ...row }) => row);
+
+      await expect(new InventoryClassifierCli().replay(writeExport('unstamped.jsonl', edited)))
+        .rejects.toThrow('Row 1 has no fingerprint');
+    });
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Headless Inventory Classifier
+ * Runs the parse → classify → export pipeline from the command line without a browser
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { PackageComposer } from '../engine-core/compose';
+import { PTClassifier } from '../engine-core/classify';
+import { FileSystemRegistrySource } from '../adapters/node/registry-source';
+import { parseFingerprint } from '../engine-core/fingerprint';
+import type { ClassificationResult } from '../engine-core/types';
+import { parseBuffer } from '../engine-all-core/parserService';
+import { buildWorkbook, exportToCsv, exportToJsonl } from '../engine-all-core/exportService';
+import type { AnalysisDecision, AnalysisResult, InventoryItem, SummaryStats } from '../types';
+
+// parserService and exportService expect SheetJS as a global, as provided by the CDN script in the browser
+Object.assign(globalThis, { XLSX });
+
+export type OutputFormat = 'xlsx' | 'csv' | 'jsonl';
+
+interface CliOptions {
+  input: string;
+  profile: 'lite' | 'full';
+  format: OutputFormat;
+  output: string;
+  sourcePath: string;
+}
+
+/** A row of an earlier export whose decision differs when replayed */
+interface ReplayChange {
+  row: number; // 1-based data row within its sheet
+  sheet?: string;
+  item_name: string;
+  sku?: string;
+  before: { decision: AnalysisDecision; score: number };
+  after: { decision: AnalysisDecision; score: number };
+}
+
+export interface ReplayReport {
+  input: string;
+  fingerprints: string[];
+  total_rows: number;
+  changed: ReplayChange[];
+}
+
+export class InventoryClassifierCli {
+  private sourcePath: string;
+
+  constructor(sourcePath: string = '.') {
+    this.sourcePath = sourcePath;
+  }
+
+  /**
+   * Classify an inventory file and write the results in the requested format
+   */
+  async run(options: Omit<CliOptions, 'sourcePath'>): Promise<SummaryStats> {
+    const startTime = performance.now();
+    console.log(`📄 Reading ${options.input}...`);
+
+    const items = parseBuffer(options.input, await fs.promises.readFile(options.input));
+    console.log(`  Parsed ${items.length} items`);
+
+    const composer = new PackageComposer(new FileSystemRegistrySource(this.sourcePath));
+    await composer.loadProfile(`profiles/runtime-${options.profile}.ptlock.json`);
+    const engine = await composer.composeEngine();
+    const classifier = new PTClassifier(engine);
+    console.log(`  Fingerprint: ${engine.reproducibility?.fingerprint}`);
+
+    const results = items.map(item => this.toAnalysisResult(
+      item,
+      classifier.classify({ id: item.id, name: item.item_name, description: item.description, code: item.sku }),
+      classifier
+    ));
+    const summary = this.summarize(results);
+
+    await this.writeResults(results, summary, options.format, options.output);
+
+    const duration = performance.now() - startTime;
+    console.log(`✅ Classified ${summary.totalItems} items in ${(duration / 1000).toFixed(2)}s`);
+    console.log(`  Accepted: ${summary.accepted}, Review: ${summary.review}, Rejected: ${summary.rejected}`);
+    console.log(`  Results written to ${options.output}`);
+
+    return summary;
+  }
+
+  /**
+   * Re-classify the rows of an earlier export with the exact profile, package versions and rules
+   * recorded in its fingerprints, and report the rows whose decision changed
+   */
+  async replay(input: string): Promise<ReplayReport> {
+    console.log(`🔁 Replaying ${input}...`);
+    const rows = this.readExportRows(input, await fs.promises.readFile(input));
+
+    const classifiers = new Map<string, PTClassifier>();
+    const changed: ReplayChange[] = [];
+    for (const { row, sheet, data } of rows) {
+      const fingerprint = String(data['Fingerprint'] ?? '');
+      if (!fingerprint) {
+        throw new Error(`Row ${row}${sheet ? ` of sheet ${sheet}` : ''} has no fingerprint; exports made before fingerprints cannot be replayed`);
+      }
+      if (!classifiers.has(fingerprint)) {
+        classifiers.set(fingerprint, await this.composePinned(fingerprint));
+      }
+      const classifier = classifiers.get(fingerprint)!;
+
+      const item: InventoryItem = {
+        id: String(row),
+        item_name: String(data['Item Name'] ?? ''),
+        sku: data['SKU'] ? String(data['SKU']) : undefined,
+        description: data['Description'] ? String(data['Description']) : undefined
+      };
+      const result = this.toAnalysisResult(
+        item,
+        classifier.classify({ id: item.id, name: item.item_name, description: item.description, code: item.sku }),
+        classifier
+      );
+
+      const before = { decision: data['Decision'] as AnalysisDecision, score: Number(data['Score']) };
+      if (result.Decision !== before.decision) {
+        changed.push({
+          row,
+          sheet,
+          item_name: item.item_name,
+          sku: item.sku,
+          before,
+          after: { decision: result.Decision, score: result.Score }
+        });
+      }
+    }
+
+    console.log(`✅ Replayed ${rows.length} rows against ${classifiers.size} fingerprint(s)`);
+    if (changed.length === 0) {
+      console.log('  No decisions changed');
+    }
+    for (const change of changed) {
+      const where = change.sheet ? `${change.sheet} row ${change.row}` : `Row ${change.row}`;
+      console.log(`  ⚠️ ${where} "${change.item_name}": ${change.before.decision} (${change.before.score}) → ${change.after.decision} (${change.after.score})`);
+    }
+
+    return { input, fingerprints: Array.from(classifiers.keys()), total_rows: rows.length, changed };
+  }
+
+  /**
+   * Compose the engine a fingerprint describes; fails if the registry can no longer reproduce it
+   */
+  private async composePinned(fingerprint: string): Promise<PTClassifier> {
+    const recorded = parseFingerprint(fingerprint);
+    const composer = new PackageComposer(new FileSystemRegistrySource(this.sourcePath));
+    await composer.loadProfile(`profiles/${recorded.profile_name}.ptlock.json`);
+    composer.pinVersions(recorded.packages);
+    const engine = await composer.composeEngine();
+
+    const stamp = engine.reproducibility!;
+    if (stamp.profile_version !== recorded.profile_version) {
+      throw new Error(`Profile ${recorded.profile_name} is at version ${stamp.profile_version}, but the export was made with ${recorded.profile_version}`);
+    }
+    if (stamp.fingerprint !== fingerprint) {
+      throw new Error(`Registry no longer reproduces ${fingerprint}: rules hash is ${stamp.rules_hash}, expected ${recorded.rules_hash}`);
+    }
+    return new PTClassifier(engine);
+  }
+
+  /**
+   * Data rows of a CSV, JSONL or XLSX export; workbooks are read sheet by sheet, skipping the summary
+   */
+  private readExportRows(fileName: string, buffer: Buffer): Array<{ row: number; sheet?: string; data: Record<string, any> }> {
+    if (fileName.toLowerCase().endsWith('.jsonl')) {
+      return buffer.toString('utf-8').split('\n')
+        .filter(line => line.trim())
+        .map((line, i) => ({ row: i + 1, data: JSON.parse(line) }));
+    }
+
+    const workbook = fileName.toLowerCase().endsWith('.csv')
+      ? XLSX.read(buffer.toString('utf-8'), { type: 'string', raw: true })
+      : XLSX.read(buffer, { type: 'buffer' });
+    const isWorkbook = workbook.SheetNames.length > 1;
+    return workbook.SheetNames
+      .filter(name => name !== 'Summary')
+      .flatMap(name => XLSX.utils.sheet_to_json<Record<string, any>>(workbook.Sheets[name])
+        .map((data, i) => ({ row: i + 1, sheet: isWorkbook ? name : undefined, data })));
+  }
+
+  private toAnalysisResult(item: InventoryItem, result: ClassificationResult, classifier: PTClassifier): AnalysisResult {
+    const thresholds = classifier.getThresholds(result.language_detected);
+    let decision: AnalysisDecision = 'Rejected';
+    if (result.is_pt) {
+      decision = 'Accepted';
+    } else if (result.confidence >= (thresholds?.medium_confidence ?? 25)) {
+      decision = 'Review';
+    }
+
+    return {
+      id: item.id,
+      item_name: item.item_name,
+      sku: item.sku,
+      description: item.description,
+      PT_Category: result.category || 'Uncategorized',
+      PT_Subcategory: result.pt_domain || 'General',
+      Score: Math.round(result.confidence),
+      Decision: decision,
+      Decision_Reason: (result.explanation.find(step => step.stage === 'blocker')
+        ?? result.explanation.find(step => step.stage === 'threshold'))?.label
+        ?? `Confidence ${Math.round(result.confidence)} against threshold ${thresholds?.high_confidence ?? 45}`,
+      Matched_Keywords: [],
+      language: result.language_detected,
+      extracted_attributes: {},
+      explanation: { steps: result.explanation },
+      manufacturer: item.manufacturer,
+      manufacturer_country: item.manufacturer_country,
+      specialty: item.specialty,
+      region: item.region,
+      area: item.area,
+      type: item.type,
+      supplier: item.supplier,
+      fingerprint: result.fingerprint
+    };
+  }
+
+  private summarize(results: AnalysisResult[]): SummaryStats {
+    const summary: SummaryStats = { totalItems: results.length, accepted: 0, review: 0, rejected: 0, categoryCounts: {} };
+
+    for (const result of results) {
+      if (result.Decision === 'Accepted') {
+        summary.accepted++;
+        summary.categoryCounts[result.PT_Category] = (summary.categoryCounts[result.PT_Category] || 0) + 1;
+      } else if (result.Decision === 'Review') {
+        summary.review++;
+      } else {
+        summary.rejected++;
+      }
+    }
+
+    return summary;
+  }
+
+  private async writeResults(
+    results: AnalysisResult[],
+    summary: SummaryStats,
+    format: OutputFormat,
+    output: string
+  ): Promise<void> {
+    await fs.promises.mkdir(path.dirname(path.resolve(output)), { recursive: true });
+
+    switch (format) {
+      case 'xlsx': {
+        const workbook = buildWorkbook(results, summary, {
+          includeSummary: true,
+          includeAccepted: true,
+          includeReview: true,
+          includeRejected: true
+        });
+        XLSX.writeFile(workbook, output);
+        break;
+      }
+      case 'csv':
+        await fs.promises.writeFile(output, exportToCsv(results));
+        break;
+      case 'jsonl':
+        await fs.promises.writeFile(output, exportToJsonl(results));
+        break;
+    }
+  }
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const flag = (name: string) => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const input = argv.find((arg, i) => !arg.startsWith('--') && !argv[i - 1]?.startsWith('--'));
+  if (!input) {
+    throw new Error('Usage: classify_inventory <input.csv|xlsx|json> [--profile lite|full] [--format xlsx|csv|jsonl] [--out file] [--source .]');
+  }
+
+  const profile = (flag('profile') || 'lite').replace(/^runtime-/, '');
+  if (profile !== 'lite' && profile !== 'full') {
+    throw new Error(`Unknown profile: ${profile}. Expected runtime-lite or runtime-full.`);
+  }
+
+  const format = (flag('format') || path.extname(flag('out') || '').slice(1) || 'xlsx') as OutputFormat;
+  if (!['xlsx', 'csv', 'jsonl'].includes(format)) {
+    throw new Error(`Unknown output format: ${format}. Expected xlsx, csv or jsonl.`);
+  }
+
+  const output = flag('out') || `${input.replace(/\.[^.]+$/, '')}.classified.${format}`;
+
+  return { input, profile, format, output, sourcePath: flag('source') || '.' };
+}
+
+function parseReplayArgs(argv: string[]): { input: string; output?: string; sourcePath: string } {
+  const flag = (name: string) => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const input = argv.find((arg, i) => !arg.startsWith('--') && !argv[i - 1]?.startsWith('--'));
+  if (!input) {
+    throw new Error('Usage: classify_inventory replay <export.csv|xlsx|jsonl> [--out report.json] [--source .]');
+  }
+
+  return { input, output: flag('out'), sourcePath: flag('source') || '.' };
+}
+
+// CLI interface
+if (import.meta.url === `file://${process.argv[1]}`) {
+  try {
+    const argv = process.argv.slice(2);
+    if (argv[0] === 'replay') {
+      // Exits non-zero when any decision changed, so replays can gate a registry or engine upgrade
+      const { input, output, sourcePath } = parseReplayArgs(argv.slice(1));
+      new InventoryClassifierCli(sourcePath)
+        .replay(input)
+        .then(async report => {
+          if (output) {
+            await fs.promises.writeFile(output, JSON.stringify(report, null, 2));
+            console.log(`  Report written to ${output}`);
+          }
+          if (report.changed.length > 0) process.exitCode = 1;
+        })
+        .catch(error => {
+          console.error('❌ Replay failed:', error);
+          process.exitCode = 1;
+        });
+    } else {
+      const { sourcePath, ...options } = parseArgs(argv);
+      new InventoryClassifierCli(sourcePath)
+        .run(options)
+        .catch(error => {
+          console.error('❌ Classification failed:', error);
+          process.exitCode = 1;
+        });
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+  }
+}
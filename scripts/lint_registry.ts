@@ -0,0 +1,337 @@
+/**
+ * Registry Linter
+ * Validates package manifests, declared files and data schemas before they reach a runtime build
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { computeChecksum, isChecksum } from '../engine-core/checksum';
+import { isValidVersion, maxSatisfying } from '../engine-core/semver';
+import { PackageResolver } from '../engine-core/resolver';
+import { getFileValidator, validateManifest } from '../engine-core/schema';
+import { FileSystemRegistrySource } from '../adapters/node/registry-source';
+import type { PackageManifest, PTProfile, ResolvedPackage } from '../engine-core/types';
+
+export interface LintFinding {
+  severity: 'error' | 'warning';
+  /** Path relative to the registry root */
+  file: string;
+  line?: number;
+  message: string;
+}
+
+interface TermLocation {
+  file: string;
+  line: number;
+}
+
+export class RegistryLinter {
+  private sourcePath: string;
+  private source: FileSystemRegistrySource;
+  private findings: LintFinding[] = [];
+
+  constructor(sourcePath: string = '.') {
+    this.sourcePath = sourcePath;
+    this.source = new FileSystemRegistrySource(sourcePath);
+  }
+
+  /**
+   * Lint every package version in the registry and every profile
+   */
+  async lint(): Promise<LintFinding[]> {
+    this.findings = [];
+
+    const registryPath = path.join(this.sourcePath, 'registry');
+    const packages = (await fs.promises.readdir(registryPath, { withFileTypes: true }))
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+
+    for (const name of packages) {
+      const versions = (await fs.promises.readdir(path.join(registryPath, name), { withFileTypes: true }))
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+        .sort();
+
+      for (const version of versions) {
+        if (!isValidVersion(version)) {
+          this.report('error', `registry/${name}/${version}`, `Version directory "${version}" is not a valid semver version`);
+          continue;
+        }
+        await this.lintPackage(name, version, packages);
+      }
+    }
+
+    await this.lintIndex(packages);
+    await this.lintProfiles();
+
+    return this.findings;
+  }
+
+  private async lintPackage(name: string, version: string, packages: string[]): Promise<void> {
+    const basePath = `registry/${name}/${version}`;
+    const manifestFile = `${basePath}/manifest.json`;
+
+    const manifest: PackageManifest | null = await this.readJson(manifestFile);
+    if (!manifest) return;
+
+    const issues = validateManifest(manifest);
+    for (const issue of issues) {
+      this.report('error', manifestFile, issue);
+    }
+    if (issues.length > 0) return;
+
+    if (manifest.name !== name || manifest.version !== version) {
+      this.report('error', manifestFile, `Manifest declares ${manifest.name}@${manifest.version} but is stored at ${basePath}`);
+    }
+
+    await this.lintDependencies(manifest, manifestFile, packages);
+
+    const terms = new Map<string, TermLocation>();
+    for (const [file, spec] of Object.entries(manifest.files)) {
+      const filePath = `${basePath}/${file}`;
+      const validator = getFileValidator(manifest.type, file);
+
+      if (!fs.existsSync(this.resolve(filePath))) {
+        this.report('error', manifestFile, `Declared file ${file} does not exist`);
+        continue;
+      }
+
+      if (spec.format === 'jsonl_shards') {
+        const shards = (await fs.promises.readdir(this.resolve(filePath))).filter(shard => shard.endsWith('.jsonl')).sort();
+        if (shards.length === 0) {
+          this.report('warning', filePath, 'Shard directory contains no .jsonl shards');
+        }
+        for (const shard of shards) {
+          const shardPath = `${filePath.replace(/\/?$/, '/')}${shard}`;
+          await this.verifyChecksum(shardPath, spec.shard_checksums?.[shard]);
+          await this.lintJsonl(shardPath, validator, (entry, line) =>
+            this.checkDuplicateTerm(terms, entry?.canonical, { file: shardPath, line }, 'canonical term'));
+        }
+        continue;
+      }
+
+      await this.verifyChecksum(filePath, spec.checksum);
+
+      if (spec.format === 'jsonl') {
+        await this.lintJsonl(filePath, validator, (entry, line) => {
+          if (manifest.type === 'vocabulary' && file === 'include.jsonl') {
+            this.checkDuplicateTerm(terms, entry?.term, { file: filePath, line }, 'term', 'include');
+          }
+        });
+      } else if (spec.format === 'json') {
+        const data = await this.readJson(filePath);
+        if (data !== null && validator) {
+          for (const issue of validator(data)) {
+            this.report('error', filePath, issue);
+          }
+        }
+      }
+    }
+
+    await this.lintUndeclaredFiles(basePath, manifest);
+  }
+
+  private async lintDependencies(manifest: PackageManifest, manifestFile: string, packages: string[]): Promise<void> {
+    const resolver = new PackageResolver(this.source);
+    for (const dependency of manifest.dependencies) {
+      let parsed: { name: string; range: string };
+      try {
+        parsed = resolver.parseDependency(dependency, `${manifest.name}@${manifest.version}`);
+      } catch (error) {
+        this.report('error', manifestFile, (error as Error).message);
+        continue;
+      }
+
+      if (!packages.includes(parsed.name)) {
+        this.report('error', manifestFile, `Dependency ${parsed.name} is not in the registry`);
+        continue;
+      }
+
+      const versions = await this.source.listVersions(parsed.name);
+      if (maxSatisfying(versions.filter(isValidVersion), parsed.range) === null) {
+        this.report('error', manifestFile, `No version of ${parsed.name} satisfies "${parsed.range}"; available: ${versions.join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * Files present in the package directory but missing from the manifest are never loaded or checksummed
+   */
+  private async lintUndeclaredFiles(basePath: string, manifest: PackageManifest): Promise<void> {
+    const declared = new Set(Object.keys(manifest.files).map(file => file.replace(/\/$/, '')));
+    for (const entry of await fs.promises.readdir(this.resolve(basePath))) {
+      if (entry !== 'manifest.json' && !declared.has(entry)) {
+        this.report('warning', `${basePath}/${entry}`, 'File is not declared in manifest.json');
+      }
+    }
+  }
+
+  private async lintIndex(packages: string[]): Promise<void> {
+    const indexFile = 'registry/index.json';
+    if (!fs.existsSync(this.resolve(indexFile))) {
+      this.report('warning', indexFile, 'Registry index is missing; run scripts/build_registry.ts');
+      return;
+    }
+
+    const index = await this.readJson(indexFile);
+    if (!index) return;
+
+    for (const name of packages) {
+      const versions = (await this.source.listVersions(name)).filter(isValidVersion);
+      const indexed: string[] = index.packages?.[name] || [];
+      if (versions.some(version => !indexed.includes(version)) || indexed.some(version => !versions.includes(version))) {
+        this.report('error', indexFile, `Versions of ${name} are out of date; run scripts/build_registry.ts`);
+      }
+    }
+  }
+
+  /**
+   * Check that every profile resolves and that the shards it selects exist
+   */
+  private async lintProfiles(): Promise<void> {
+    const profilesPath = path.join(this.sourcePath, 'profiles');
+    if (!fs.existsSync(profilesPath)) return;
+
+    for (const file of (await fs.promises.readdir(profilesPath)).filter(f => f.endsWith('.json')).sort()) {
+      const profileFile = `profiles/${file}`;
+      const profile: PTProfile | null = await this.readJson(profileFile);
+      if (!profile) continue;
+
+      let resolved: ResolvedPackage[];
+      try {
+        resolved = await new PackageResolver(this.source).resolve(profile);
+      } catch (error) {
+        this.report('error', profileFile, (error as Error).message);
+        continue;
+      }
+
+      for (const pkg of resolved) {
+        const ref = profile.packages[pkg.name];
+        if (typeof ref === 'string' || !ref?.shards) continue;
+
+        const shardDir = Object.entries(pkg.manifest.files).find(([, spec]) => spec.format === 'jsonl_shards')?.[0];
+        if (!shardDir) {
+          this.report('error', profileFile, `${pkg.name}@${pkg.version} has no shard directory but the profile selects shards`);
+          continue;
+        }
+
+        for (const shard of ref.shards) {
+          const shardPath = `registry/${pkg.name}/${pkg.version}/${shardDir.replace(/\/?$/, '/')}${shard}.jsonl`;
+          if (!fs.existsSync(this.resolve(shardPath))) {
+            this.report('error', profileFile, `Shard "${shard}" of ${pkg.name}@${pkg.version} does not exist (${shardPath})`);
+          }
+        }
+      }
+    }
+  }
+
+  private async lintJsonl(
+    filePath: string,
+    validator: ((value: any) => string[]) | null,
+    onEntry: (entry: any, line: number) => void
+  ): Promise<void> {
+    const lines = (await fs.promises.readFile(this.resolve(filePath), 'utf-8')).split('\n');
+
+    lines.forEach((text, index) => {
+      const line = index + 1;
+      if (text.trim() === '') return;
+
+      let entry: any;
+      try {
+        entry = JSON.parse(text);
+      } catch (error) {
+        this.report('error', filePath, `Invalid JSON: ${(error as Error).message}`, line);
+        return;
+      }
+
+      for (const issue of validator ? validator(entry) : []) {
+        this.report('error', filePath, issue, line);
+      }
+      onEntry(entry, line);
+    });
+  }
+
+  private checkDuplicateTerm(
+    seen: Map<string, TermLocation>,
+    term: unknown,
+    location: TermLocation,
+    label: string,
+    scope: string = 'shards'
+  ): void {
+    if (typeof term !== 'string') return;
+
+    const key = `${scope}:${term.trim().toLowerCase()}`;
+    const first = seen.get(key);
+    if (first) {
+      this.report('error', location.file, `Duplicate ${label} "${term}" (first defined at ${first.file}:${first.line})`, location.line);
+    } else {
+      seen.set(key, location);
+    }
+  }
+
+  private async verifyChecksum(filePath: string, expected: string | undefined): Promise<void> {
+    if (!isChecksum(expected)) {
+      this.report('warning', filePath, 'No checksum recorded; run scripts/build_registry.ts');
+      return;
+    }
+
+    const actual = await computeChecksum(await fs.promises.readFile(this.resolve(filePath)));
+    if (actual !== expected) {
+      this.report('error', filePath, `Checksum mismatch: manifest has ${expected}, file is ${actual}`);
+    }
+  }
+
+  private async readJson(filePath: string): Promise<any | null> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.resolve(filePath), 'utf-8');
+    } catch {
+      this.report('error', filePath, 'File does not exist');
+      return null;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      const message = (error as Error).message;
+      const position = /position (\d+)/.exec(message);
+      const line = position ? text.slice(0, Number(position[1])).split('\n').length : undefined;
+      this.report('error', filePath, `Invalid JSON: ${message}`, line);
+      return null;
+    }
+  }
+
+  private resolve(filePath: string): string {
+    return path.join(this.sourcePath, filePath);
+  }
+
+  private report(severity: LintFinding['severity'], file: string, message: string, line?: number): void {
+    this.findings.push({ severity, file, line, message });
+  }
+}
+
+export function formatFinding(finding: LintFinding): string {
+  const location = finding.line !== undefined ? `${finding.file}:${finding.line}` : finding.file;
+  return `${location}: ${finding.severity}: ${finding.message}`;
+}
+
+// CLI interface
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const linter = new RegistryLinter(process.argv[2] || '.');
+
+  linter.lint()
+    .then(findings => {
+      for (const finding of findings) {
+        (finding.severity === 'error' ? console.error : console.warn)(formatFinding(finding));
+      }
+
+      const errors = findings.filter(f => f.severity === 'error').length;
+      const warnings = findings.length - errors;
+      console.log(`${errors === 0 ? '✅' : '❌'} Registry lint: ${errors} errors, ${warnings} warnings`);
+      if (errors > 0) process.exitCode = 1;
+    })
+    .catch(error => {
+      console.error('❌ Registry lint failed:', error);
+      process.exitCode = 1;
+    });
+}
@@ -1,3 +1,5 @@
+import type { ExplanationStep } from './engine-core/types';
+export type { ExplanationStep };
 
 export type AnalysisDecision = "Accepted" | "Review" | "Rejected";
 export type DecisionFilter = AnalysisDecision | 'All';
@@ -41,9 +43,10 @@ export interface ParsedItemDetails {
 }
 
 export interface Explanation {
-    hits: { canonical: string; strategy: string; confidence: number; }[];
-    // Some engines return string[] context (legacy), others return a structured object (engine3v/ultra)
-    context: string[] | Record<string, unknown>;
+    // Shared step schema, produced by every classifier
+    steps: ExplanationStep[];
+    // Engine-specific diagnostics (engine name, timings, raw signals)
+    details?: Record<string, unknown>;
 }
 
 export interface AnalysisResult {
@@ -67,6 +70,8 @@ export interface AnalysisResult {
   area?: string;
   type?: string;
   supplier?: string;
+  /** Reproducibility fingerprint of the engine that made the decision */
+  fingerprint?: string;
   // PT Classification fields
   pt_relevance?: {
     isPT: boolean;